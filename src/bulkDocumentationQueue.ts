@@ -0,0 +1,395 @@
+import * as vscode from 'vscode';
+import { CodeParser, DocumentableSymbol } from './codeParser';
+import { DocumentationWriter } from './documentationWriter';
+import { LanguageRegistry } from './languages/languageRegistry';
+import { Logger } from './utils/logger';
+
+export interface BulkFileProgress {
+    status: 'pending' | 'done';
+    documented: number;
+    skipped: number;
+    errors: string[];
+}
+
+// Saved in the workspace state after every file, so an interrupted run can resume
+export interface BulkJobState {
+    include: string;
+    startedAt: string;
+    files: { [uri: string]: BulkFileProgress };
+}
+
+export interface BulkRunOptions {
+    // Maximum number of symbols documented at the same time
+    concurrency: number;
+    // Collect the changes of all files and show them in the Refactor Preview instead of
+    // applying and saving each file as soon as it is done
+    preview: boolean;
+}
+
+export interface BulkDocumentationSummary {
+    filesChanged: string[];
+    documented: number;
+    skipped: number;
+    errors: string[];
+    cancelled: boolean;
+}
+
+// One undocumented symbol waiting for documentation
+interface SymbolTask {
+    file: FileTask;
+    symbol: DocumentableSymbol;
+}
+
+// The symbols of one file, whose edit is applied once all of them are processed
+interface FileTask {
+    uri: string;
+    document: vscode.TextDocument;
+    version: number;
+    wasDirty: boolean;
+    edit: vscode.WorkspaceEdit;
+    remaining: number;
+    // Symbols without documentation when the file was scanned
+    undocumented: number;
+    // Symbols documented in this run whose edit is not applied yet
+    documented: number;
+}
+
+export class BulkDocumentationQueue {
+    private static readonly STATE_KEY = 'gptDocAssistant.bulkJob';
+
+    private logger: Logger;
+    private state: vscode.Memento;
+    private codeParser: CodeParser;
+    private documentationWriter: DocumentationWriter;
+    private languageRegistry: LanguageRegistry;
+
+    constructor(
+        state: vscode.Memento,
+        codeParser: CodeParser,
+        documentationWriter: DocumentationWriter,
+        languageRegistry: LanguageRegistry = LanguageRegistry.getDefault()
+    ) {
+        this.logger = new Logger('BulkDocumentationQueue');
+        this.state = state;
+        this.codeParser = codeParser;
+        this.documentationWriter = documentationWriter;
+        this.languageRegistry = languageRegistry;
+    }
+
+    /**
+     * Get the run that was interrupted before all of its files were processed
+     * @returns The saved job, or undefined if there is nothing to resume
+     */
+    public getPendingJob(): BulkJobState | undefined {
+        const job = this.state.get<BulkJobState>(BulkDocumentationQueue.STATE_KEY);
+        return job && Object.values(job.files).some(file => file.status === 'pending') ? job : undefined;
+    }
+
+    /**
+     * Forget the saved job
+     */
+    public async clear(): Promise<void> {
+        await this.state.update(BulkDocumentationQueue.STATE_KEY, undefined);
+    }
+
+    /**
+     * Create a job for every file of a registered language that matches a glob pattern
+     * @param include Files to document
+     * @param exclude Files to leave out
+     * @returns The saved job
+     */
+    public async createJob(include: vscode.GlobPattern, exclude: string): Promise<BulkJobState> {
+        const extensions = this.languageRegistry.getLanguageIds()
+            .flatMap(languageId => this.languageRegistry.getFileExtensions(languageId));
+
+        const uris = (await vscode.workspace.findFiles(include, exclude))
+            .filter(uri => extensions.some(extension => uri.path.endsWith(extension)));
+
+        const job: BulkJobState = {
+            include: typeof include === 'string' ? include : `${include.baseUri.fsPath}/${include.pattern}`,
+            startedAt: new Date().toISOString(),
+            files: {}
+        };
+
+        for (const uri of uris) {
+            job.files[uri.toString()] = { status: 'pending', documented: 0, skipped: 0, errors: [] };
+        }
+
+        await this.state.update(BulkDocumentationQueue.STATE_KEY, job);
+        this.logger.info(`Created bulk job for ${uris.length} files matching ${job.include}`);
+
+        return job;
+    }
+
+    /**
+     * Document the pending files of a job. Symbols are documented concurrently up to the limit.
+     * Without preview, each file is edited and saved as soon as all of its symbols are done and
+     * the job is saved after every file; with preview, all changes are reviewed together at the end.
+     * @param job The job to run
+     * @param options Concurrency limit and review mode
+     * @param progress Progress reporter
+     * @param token Cancellation token; running requests are aborted and their symbols stay pending
+     * @returns Summary of the whole job, including files processed by earlier runs
+     */
+    public async run(
+        job: BulkJobState,
+        options: BulkRunOptions,
+        progress: vscode.Progress<{ message?: string; increment?: number }>,
+        token: vscode.CancellationToken
+    ): Promise<BulkDocumentationSummary> {
+        const tasks = await this.scanFiles(job, progress, token);
+        const total = tasks.length;
+        const reviewedFiles: FileTask[] = [];
+        let completed = 0;
+
+        const finish = async (file: FileTask) => {
+            if (options.preview) {
+                reviewedFiles.push(file);
+            } else {
+                await this.finishFile(job, file, file.remaining === 0);
+            }
+        };
+
+        const worker = async () => {
+            while (tasks.length > 0 && !token.isCancellationRequested) {
+                const task = tasks.shift()!;
+                const fileProgress = job.files[task.file.uri];
+
+                try {
+                    const documentation = await this.documentationWriter.writeDocumentation(task.symbol, { token: token });
+                    this.documentationWriter.addDocumentationEdit(task.file.edit, task.file.document, task.symbol, documentation);
+                    task.file.documented++;
+                } catch (error) {
+                    // The aborted symbol stays queued, so its file is kept pending for the next run
+                    if (error instanceof vscode.CancellationError) {
+                        tasks.unshift(task);
+                        break;
+                    }
+
+                    this.logger.error(`Failed to document ${task.symbol.name} in ${task.file.uri}: ${error}`);
+                    fileProgress.errors.push(`${vscode.workspace.asRelativePath(task.file.document.uri)}: ${task.symbol.name}: ${error}`);
+                }
+
+                completed++;
+                progress.report({
+                    message: `${completed}/${total} symbols`,
+                    increment: 100 / total
+                });
+
+                task.file.remaining--;
+                if (task.file.remaining === 0) {
+                    await finish(task.file);
+                }
+            }
+        };
+
+        await Promise.all(Array.from({ length: Math.max(1, options.concurrency) }, () => worker()));
+
+        // Keep what was generated for files that were interrupted; they stay pending and their
+        // remaining symbols are picked up by the next run
+        const interruptedFiles = new Set(tasks.map(task => task.file));
+        for (const file of interruptedFiles) {
+            await finish(file);
+        }
+
+        if (reviewedFiles.length > 0) {
+            await this.reviewFiles(job, reviewedFiles);
+        }
+
+        // Files that changed during the run stay pending as well
+        if (!Object.values(job.files).some(file => file.status === 'pending')) {
+            await this.clear();
+        }
+
+        return this.summarize(job, token.isCancellationRequested);
+    }
+
+    /**
+     * Parse the pending files of a job and queue their undocumented symbols
+     * @param job The job to scan
+     * @param progress Progress reporter
+     * @param token Cancellation token
+     * @returns Symbol tasks in file order
+     */
+    private async scanFiles(
+        job: BulkJobState,
+        progress: vscode.Progress<{ message?: string; increment?: number }>,
+        token: vscode.CancellationToken
+    ): Promise<SymbolTask[]> {
+        const pending = Object.keys(job.files).filter(uri => job.files[uri].status === 'pending');
+        const tasks: SymbolTask[] = [];
+
+        for (const [index, uri] of pending.entries()) {
+            if (token.isCancellationRequested) {
+                break;
+            }
+
+            progress.report({ message: `Scanning ${index + 1}/${pending.length} files` });
+
+            try {
+                const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(uri));
+                const symbols = await this.codeParser.findAllSymbols(document);
+                const undocumented = symbols.filter(symbol => !symbol.existingDocumentation);
+
+                // Symbols documented by an earlier, interrupted run are not counted as skipped
+                const fileProgress = job.files[uri];
+                fileProgress.skipped = Math.max(0, symbols.length - undocumented.length - fileProgress.documented);
+
+                const file: FileTask = {
+                    uri: uri,
+                    document: document,
+                    version: document.version,
+                    wasDirty: document.isDirty,
+                    edit: new vscode.WorkspaceEdit(),
+                    remaining: undocumented.length,
+                    undocumented: undocumented.length,
+                    documented: 0
+                };
+
+                if (undocumented.length === 0) {
+                    await this.finishFile(job, file, true);
+                }
+
+                tasks.push(...undocumented.map(symbol => ({ file: file, symbol: symbol })));
+            } catch (error) {
+                this.logger.error(`Failed to scan ${uri}: ${error}`);
+                job.files[uri].errors.push(`${uri}: ${error}`);
+                job.files[uri].status = 'done';
+                await this.state.update(BulkDocumentationQueue.STATE_KEY, job);
+            }
+        }
+
+        return tasks;
+    }
+
+    /**
+     * Apply and save the documentation of a file, then save the job
+     * @param job The running job
+     * @param file The file task
+     * @param isComplete Whether all symbols of the file were processed
+     */
+    private async finishFile(job: BulkJobState, file: FileTask, isComplete: boolean): Promise<void> {
+        const fileProgress = job.files[file.uri];
+
+        if (file.documented > 0) {
+            if (this.hasChanged(job, file)) {
+                isComplete = false;
+            } else if (await vscode.workspace.applyEdit(file.edit)) {
+                await this.saveFile(job, file);
+            } else {
+                fileProgress.errors.push(`${vscode.workspace.asRelativePath(file.document.uri)}: the edit could not be applied`);
+            }
+        }
+
+        fileProgress.status = isComplete ? 'done' : 'pending';
+        await this.state.update(BulkDocumentationQueue.STATE_KEY, job);
+    }
+
+    /**
+     * Show the changes of all files in the Refactor Preview, where each file and symbol can be
+     * accepted or rejected, and apply the accepted ones as one edit. Files with rejected
+     * symbols stay pending, so the next run documents them again.
+     * @param job The running job
+     * @param files Files whose symbols were all processed, or that were interrupted
+     */
+    private async reviewFiles(job: BulkJobState, files: FileTask[]): Promise<void> {
+        const edit = new vscode.WorkspaceEdit();
+        const reviewed = files.filter(file => file.documented > 0 && !this.hasChanged(job, file));
+
+        for (const file of reviewed) {
+            const label = vscode.workspace.asRelativePath(file.document.uri);
+            for (const change of file.edit.get(file.document.uri)) {
+                edit.replace(file.document.uri, change.range, change.newText, { label: label, needsConfirmation: true });
+            }
+        }
+
+        // Rejecting the preview leaves the files pending, so the next run offers to resume them
+        if (reviewed.length > 0 && !await vscode.workspace.applyEdit(edit, { isRefactoring: true })) {
+            this.logger.info(`Documentation of ${reviewed.length} files was discarded in the preview`);
+            return;
+        }
+
+        for (const file of files) {
+            let rejected = 0;
+
+            if (reviewed.includes(file)) {
+                const applied = await this.countAppliedDocumentation(file);
+                rejected = file.documented - applied;
+                file.documented = applied;
+
+                if (applied > 0) {
+                    await this.saveFile(job, file);
+                }
+            }
+
+            if (file.documented === 0 || reviewed.includes(file)) {
+                job.files[file.uri].status = file.remaining === 0 && rejected === 0 ? 'done' : 'pending';
+            }
+        }
+
+        await this.state.update(BulkDocumentationQueue.STATE_KEY, job);
+    }
+
+    /**
+     * Count the symbols of a reviewed file that are documented now, as the preview may
+     * have applied only some of its changes
+     * @param file The file task whose edit was reviewed
+     * @returns Number of symbols documented by the applied changes
+     */
+    private async countAppliedDocumentation(file: FileTask): Promise<number> {
+        const document = await vscode.workspace.openTextDocument(file.document.uri);
+        const symbols = await this.codeParser.findAllSymbols(document);
+        const undocumented = symbols.filter(symbol => !symbol.existingDocumentation).length;
+
+        return Math.max(0, file.undocumented - undocumented);
+    }
+
+    /**
+     * Check whether a file was edited since it was parsed, which makes the edit positions invalid
+     * @param job The running job, where an error is recorded for changed files
+     * @param file The file task
+     * @returns True when the documentation cannot be applied
+     */
+    private hasChanged(job: BulkJobState, file: FileTask): boolean {
+        if (file.document.version === file.version) {
+            return false;
+        }
+
+        job.files[file.uri].errors.push(`${vscode.workspace.asRelativePath(file.document.uri)}: changed during the run, documentation was not applied`);
+        return true;
+    }
+
+    /**
+     * Count the applied documentation of a file and save it
+     * @param job The running job
+     * @param file The file task whose edit was applied
+     */
+    private async saveFile(job: BulkJobState, file: FileTask): Promise<void> {
+        job.files[file.uri].documented += file.documented;
+
+        // Leave files that already had unsaved changes for the user to save
+        if (!file.wasDirty) {
+            await file.document.save();
+        }
+    }
+
+    /**
+     * Summarize a job
+     * @param job The job
+     * @param cancelled Whether the run was cancelled
+     * @returns Files changed, symbol counts and errors
+     */
+    private summarize(job: BulkJobState, cancelled: boolean): BulkDocumentationSummary {
+        const files = Object.entries(job.files);
+
+        return {
+            filesChanged: files
+                .filter(([, file]) => file.documented > 0)
+                .map(([uri]) => vscode.workspace.asRelativePath(vscode.Uri.parse(uri))),
+            documented: files.reduce((total, [, file]) => total + file.documented, 0),
+            skipped: files.reduce((total, [, file]) => total + file.skipped, 0),
+            errors: files.flatMap(([, file]) => file.errors),
+            cancelled: cancelled
+        };
+    }
+}
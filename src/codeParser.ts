@@ -1,21 +1,60 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { Logger } from './utils/logger';
+import { LanguageRegistry } from './languages/languageRegistry';
+import { DocCommentDetector } from './languages/languageSupport';
+import { LanguageServerSymbol, LanguageServerSymbolProvider } from './parsers/languageServerSymbolProvider';
 
-export interface FunctionInfo {
+export type SymbolKind = 'function' | 'class' | 'interface' | 'enum' | 'typeAlias' | 'module';
+
+export interface ParameterInfo {
+    name: string;
+    type?: string;
+    defaultValue?: string;
+    optional: boolean;
+    rest: boolean;
+}
+
+export interface DocumentableSymbol {
+    kind: SymbolKind;
     name: string;
     signature: string;
     body: string;
     startLine: number;
     endLine: number;
+    bodyStartLine?: number;
     language: string;
     existingDocumentation?: string;
+    // Exact range of the existing documentation, which may be above the symbol or inside its body
+    documentationRange?: vscode.Range;
+    range?: vscode.Range;
+    className?: string;
+    modifiers?: string[];
+    typeParameters?: string[];
+    members?: string[];
+    parameters?: ParameterInfo[];
+    returnType?: string;
+    isAsync?: boolean;
+    isGenerator?: boolean;
+    decorators?: string[];
+    throws?: string[];
 }
 
+// Functions and methods are documentable symbols of kind 'function'
+export type FunctionInfo = DocumentableSymbol;
+
 export class CodeParser {
     private logger: Logger;
+    private languageRegistry: LanguageRegistry;
+    private languageServer: LanguageServerSymbolProvider;
 
-    constructor() {
+    constructor(
+        languageRegistry: LanguageRegistry = LanguageRegistry.getDefault(),
+        languageServer: LanguageServerSymbolProvider = new LanguageServerSymbolProvider()
+    ) {
         this.logger = new Logger('CodeParser');
+        this.languageRegistry = languageRegistry;
+        this.languageServer = languageServer;
     }
 
     /**
@@ -24,447 +63,329 @@ export class CodeParser {
      * @param position The current cursor position
      * @returns Information about the function or null if no function is found
      */
-    public findFunctionAtPosition(
+    public async findFunctionAtPosition(
         document: vscode.TextDocument,
         position: vscode.Position
-    ): FunctionInfo | null {
-        const language = document.languageId;
-        
-        // Get the whole document text
-        const text = document.getText();
-        
-        // Get the current line and its text
-        const line = position.line;
-        const lineText = document.lineAt(line).text;
-        
-        this.logger.info(`Attempting to find function at line ${line}, language: ${language}`);
-
-        // Parsing strategy based on language
-        switch (language) {
-            case 'javascript':
-            case 'typescript':
-            case 'typescriptreact':
-            case 'javascriptreact':
-                return this.findJavaScriptFunction(document, position);
-                
-            case 'python':
-                return this.findPythonFunction(document, position);
-                
-            case 'java':
-            case 'csharp':
-            case 'cpp':
-            case 'c':
-                return this.findCStyleFunction(document, position);
-                
-            default:
-                // Generic function finder as fallback
-                return this.findGenericFunction(document, position);
-        }
+    ): Promise<FunctionInfo | null> {
+        return this.findInnermostSymbol(document, position, symbol => symbol.kind === 'function');
     }
 
     /**
-     * Find JavaScript/TypeScript function at the given position
+     * Find the innermost documentable symbol (function, class, interface, enum or type alias)
+     * at the current cursor position. When the cursor is in the file header, above any
+     * declaration, the module itself is returned.
      * @param document The active text document
      * @param position The current cursor position
-     * @returns Information about the JavaScript/TypeScript function or null if no function is found
+     * @returns Information about the symbol or null if nothing documentable is found
      */
-    private findJavaScriptFunction(
+    public async findSymbolAtPosition(
         document: vscode.TextDocument,
         position: vscode.Position
-    ): FunctionInfo | null {
-        const text = document.getText();
-        const language = document.languageId;
-        const currentLine = position.line;
-        
-        // Create regex patterns for different function types
-        const functionPatterns = [
-            // Function declaration: function name(params) { ... }
-            /function\s+([A-Za-z0-9_$]+)\s*\(([^)]*)\)\s*{/g,
-            
-            // Arrow function: const name = (params) => { ... }
-            /(?:const|let|var)\s+([A-Za-z0-9_$]+)\s*=\s*(?:async\s*)?\(([^)]*)\)\s*=>\s*{/g,
-            
-            // Method in class or object: name(params) { ... }
-            /([A-Za-z0-9_$]+)\s*\(([^)]*)\)\s*{/g,
-            
-            // Class method: methodName(params) { ... }
-            /(?:public|private|protected)?\s*(?:static)?\s*(?:async)?\s*([A-Za-z0-9_$]+)\s*\(([^)]*)\)\s*(?::\s*[^{]+)?\s*{/g
-        ];
-        
-        // Split the document into lines for processing
-        const lines = text.split('\n');
-        
-        // Look for function patterns around the current position
-        for (let i = currentLine; i >= Math.max(0, currentLine - 10); i--) {
-            const lineText = lines[i];
-            
-            for (const pattern of functionPatterns) {
-                pattern.lastIndex = 0; // Reset regex state
-                const match = pattern.exec(lineText);
-                
-                if (match) {
-                    const functionName = match[1];
-                    const functionSignature = lineText.trim();
-                    
-                    // Find the function body and its boundaries
-                    const { body, startLine, endLine } = this.findFunctionBody(document, i);
-                    
-                    // Check for existing documentation
-                    const existingDocumentation = this.findExistingDocumentation(document, startLine);
-                    
-                    this.logger.info(`Found JavaScript/TypeScript function: ${functionName} at line ${startLine}`);
-                    
-                    return {
-                        name: functionName,
-                        signature: functionSignature,
-                        body: body,
-                        startLine: startLine,
-                        endLine: endLine,
-                        language: language,
-                        existingDocumentation: existingDocumentation
-                    };
-                }
-            }
-        }
-        
-        return null;
+    ): Promise<DocumentableSymbol | null> {
+        return await this.findInnermostSymbol(document, position, () => true) ??
+            this.findModuleSymbol(document, position);
     }
 
     /**
-     * Find Python function at the given position
-     * @param document The active text document
-     * @param position The current cursor position
-     * @returns Information about the Python function or null if no function is found
+     * Find a symbol again in the current text of its document, which may have been edited since
+     * the symbol was parsed (e.g. for a code lens or a diagnostic): the symbol of the same kind,
+     * name and class, preferring an unchanged signature (among overloads) and then the one
+     * closest to its old position
+     * @param document The text document
+     * @param symbol The symbol as it was parsed earlier
+     * @returns The symbol with its current lines and documentation, or null if it no longer exists
      */
-    private findPythonFunction(
+    public async findCurrentSymbol(
         document: vscode.TextDocument,
-        position: vscode.Position
-    ): FunctionInfo | null {
-        const text = document.getText();
-        const lines = text.split('\n');
-        const currentLine = position.line;
-        
-        // Python function pattern: def name(params):
-        const functionPattern = /^\s*def\s+([A-Za-z0-9_]+)\s*\(([^)]*)\)\s*(?:->.*?)?:/;
-        
-        // Look for function definition
-        for (let i = currentLine; i >= Math.max(0, currentLine - 10); i--) {
-            const lineText = lines[i];
-            const match = functionPattern.exec(lineText);
-            
-            if (match) {
-                const functionName = match[1];
-                const functionSignature = lineText.trim();
-                
-                // Find the function body and its boundaries
-                let startLine = i;
-                let endLine = i;
-                let body = '';
-                
-                // Determine the indentation level of the function definition
-                const defIndent = lineText.search(/\S/);
-                
-                // Collect the function body by following lines with greater indentation
-                for (let j = i + 1; j < lines.length; j++) {
-                    const bodyLine = lines[j];
-                    
-                    // Empty lines are part of the function
-                    if (bodyLine.trim() === '') {
-                        body += bodyLine + '\n';
-                        endLine = j;
-                        continue;
-                    }
-                    
-                    const lineIndent = bodyLine.search(/\S/);
-                    
-                    // If indentation is less than or equal to the function definition,
-                    // we've reached the end of the function
-                    if (lineIndent <= defIndent && lineIndent !== -1) {
-                        break;
-                    }
-                    
-                    body += bodyLine + '\n';
-                    endLine = j;
-                }
-                
-                // Check for existing docstring
-                const existingDocumentation = this.findPythonDocstring(document, startLine, lines);
-                
-                this.logger.info(`Found Python function: ${functionName} at line ${startLine}`);
-                
-                return {
-                    name: functionName,
-                    signature: functionSignature,
-                    body: body,
-                    startLine: startLine,
-                    endLine: endLine,
-                    language: 'python',
-                    existingDocumentation: existingDocumentation
-                };
-            }
+        symbol: DocumentableSymbol
+    ): Promise<DocumentableSymbol | null> {
+        const changed = (candidate: DocumentableSymbol) => Number(candidate.signature !== symbol.signature);
+        const distance = (candidate: DocumentableSymbol) => Math.abs(candidate.startLine - symbol.startLine);
+
+        return (await this.findAllSymbols(document))
+            .filter(candidate => candidate.kind === symbol.kind &&
+                candidate.name === symbol.name &&
+                candidate.className === symbol.className)
+            .sort((a, b) => changed(a) - changed(b) || distance(a) - distance(b))[0] ?? null;
+    }
+
+    /**
+     * Collect every documentable symbol in the document, with its existing documentation.
+     * Symbols reported by the language server are preferred for their exact ranges; the
+     * registered parser fills in signature details and is used alone when no server answers.
+     * @param document The text document
+     * @returns Symbols in source order
+     */
+    public async findAllSymbols(document: vscode.TextDocument): Promise<DocumentableSymbol[]> {
+        const parsedSymbols = this.parseSymbols(document);
+        const serverSymbols = await this.languageServer.getSymbols(document);
+
+        if (!serverSymbols) {
+            return parsedSymbols;
         }
-        
-        return null;
+
+        const symbols = this.mergeServerSymbols(document, serverSymbols, parsedSymbols);
+        return symbols.length > 0 ? symbols : parsedSymbols;
     }
 
     /**
-     * Find C-style function (Java, C#, C++, C) at the given position
-     * @param document The active text document
-     * @param position The current cursor position
-     * @returns Information about the C-style function or null if no function is found
+     * Parse a document as if some of its lines were empty, with the registered parser only. Used
+     * while a doc comment is being typed: the unterminated comment would otherwise hide every
+     * declaration below it, also from the language server.
+     * @param document The text document
+     * @param ignoredLines Lines to parse as empty
+     * @returns Symbols in source order, with the same line numbers as the document
      */
-    private findCStyleFunction(
-        document: vscode.TextDocument,
-        position: vscode.Position
-    ): FunctionInfo | null {
-        const text = document.getText();
-        const language = document.languageId;
-        const lines = text.split('\n');
-        const currentLine = position.line;
-        
-        // C-style function pattern (simplified)
-        // This handles signatures like: 
-        // public static void main(String[] args) {
-        // int add(int a, int b) {
-        const functionPattern = /^\s*(public|private|protected)?\s*(static)?\s*([A-Za-z0-9_<>[\]]+)\s+([A-Za-z0-9_]+)\s*\(([^)]*)\)\s*(?:throws\s+[A-Za-z0-9_,\s]+)?\s*{/;
-        
-        // Look for function definition
-        for (let i = currentLine; i >= Math.max(0, currentLine - 10); i--) {
-            const lineText = lines[i];
-            const match = functionPattern.exec(lineText);
-            
-            if (match) {
-                const functionName = match[4];
-                const functionSignature = lineText.trim();
-                
-                // Find the function body and its boundaries
-                const { body, startLine, endLine } = this.findFunctionBody(document, i);
-                
-                // Check for existing documentation
-                const existingDocumentation = this.findExistingDocumentation(document, startLine);
-                
-                this.logger.info(`Found C-style function: ${functionName} at line ${i}`);
-                
-                return {
-                    name: functionName,
-                    signature: functionSignature,
-                    body: body,
-                    startLine: i,
-                    endLine: endLine,
-                    language: language,
-                    existingDocumentation: existingDocumentation
-                };
-            }
+    public findSymbolsIgnoringLines(document: vscode.TextDocument, ignoredLines: number[]): DocumentableSymbol[] {
+        const lines = document.getText().split('\n');
+        for (const line of ignoredLines) {
+            lines[line] = '';
         }
-        
-        return null;
+
+        const text = lines.join('\n');
+        const editedDocument: vscode.TextDocument = Object.assign(Object.create(document), {
+            getText: () => text
+        });
+
+        return this.parseSymbols(editedDocument);
     }
 
     /**
-     * Generic function finder for unsupported languages
+     * Parse the document with the parser registered for its language
+     * @param document The text document
+     * @returns Symbols in source order; languages without a registered parser use the generic finder
+     */
+    private parseSymbols(document: vscode.TextDocument): DocumentableSymbol[] {
+        const support = this.languageRegistry.get(document.languageId);
+        const lines = document.getText().split('\n');
+        const symbols = support.parser.findAllSymbols(document);
+
+        for (const symbol of symbols) {
+            this.attachDocumentation(symbol, lines, support.docComments);
+        }
+
+        return symbols;
+    }
+
+    /**
+     * Find the innermost symbol enclosing the position that satisfies a predicate
      * @param document The active text document
      * @param position The current cursor position
-     * @returns Basic function information or null if no function-like structure is found
+     * @param predicate Filter applied to candidate symbols
+     * @returns The innermost matching symbol or null if none encloses the position
      */
-    private findGenericFunction(
+    private async findInnermostSymbol(
         document: vscode.TextDocument,
-        position: vscode.Position
-    ): FunctionInfo | null {
-        const text = document.getText();
+        position: vscode.Position,
+        predicate: (symbol: DocumentableSymbol) => boolean
+    ): Promise<DocumentableSymbol | null> {
         const language = document.languageId;
-        const currentLine = position.line;
-        
-        // Generic pattern to detect function-like structures
-        // This is a best-effort approach for unsupported languages
-        const functionPattern = /([A-Za-z0-9_]+)\s*\(([^)]*)\)/;
-        
-        // Look for pattern near the cursor position
-        for (let i = currentLine; i >= Math.max(0, currentLine - 5); i--) {
-            const lineText = document.lineAt(i).text;
-            const match = functionPattern.exec(lineText);
-            
-            if (match) {
-                const functionName = match[1];
-                
-                // Try to find a function body by looking for braces
-                const { body, startLine, endLine } = this.findFunctionBody(document, i);
-                
-                this.logger.info(`Found generic function-like structure: ${functionName} at line ${i}`);
-                
-                return {
-                    name: functionName,
-                    signature: lineText.trim(),
-                    body: body,
-                    startLine: startLine,
-                    endLine: endLine,
-                    language: language,
-                    existingDocumentation: this.findExistingDocumentation(document, startLine)
-                };
-            }
+        const line = position.line;
+
+        this.logger.info(`Attempting to find symbol at line ${line}, language: ${language}`);
+
+        if (!this.languageRegistry.isSupported(language)) {
+            this.logger.info(`No parser registered for ${language}, using the generic function finder`);
+        }
+
+        const candidates = (await this.findAllSymbols(document))
+            .filter(predicate)
+            .filter(symbol => symbol.startLine <= line && line <= symbol.endLine);
+
+        if (candidates.length === 0) {
+            return null;
         }
-        
-        return null;
+
+        // The innermost symbol is the one spanning the fewest lines
+        const innermost = candidates.reduce((best, current) =>
+            current.endLine - current.startLine <= best.endLine - best.startLine ? current : best
+        );
+
+        this.logger.info(`Found ${innermost.kind}: ${innermost.name} at line ${innermost.startLine}`);
+        return innermost;
     }
 
     /**
-     * Find the boundaries and content of a function body
+     * Combine language server symbols with the parsed symbols. Each server symbol keeps its exact
+     * range and takes signature details (parameters, return type, ...) from the parsed symbol with
+     * the same name at the same place. Variables are only kept when they hold a parsed function.
      * @param document The text document
-     * @param startLine The line where the function definition starts
-     * @returns Object containing the function body, start line, and end line
+     * @param serverSymbols Symbols reported by the language server
+     * @param parsedSymbols Symbols found by the registered parser
+     * @returns Documentable symbols in source order
      */
-    private findFunctionBody(
+    private mergeServerSymbols(
         document: vscode.TextDocument,
-        startLine: number
-    ): { body: string; startLine: number; endLine: number } {
-        const text = document.getText();
-        const lines = text.split('\n');
-        const lineText = lines[startLine];
-        
-        let body = lineText + '\n';
-        let braceCount = 0;
-        let endLine = startLine;
-        
-        // Count opening braces in the first line
-        for (let i = 0; i < lineText.length; i++) {
-            if (lineText[i] === '{') {
-                braceCount++;
-            }
-        }
-        
-        // If no opening brace found in the first line, look in subsequent lines
-        if (braceCount === 0) {
-            for (let i = startLine + 1; i < lines.length; i++) {
-                const currentLine = lines[i];
-                body += currentLine + '\n';
-                endLine = i;
-                
-                if (currentLine.includes('{')) {
-                    // Count opening braces
-                    for (let j = 0; j < currentLine.length; j++) {
-                        if (currentLine[j] === '{') {
-                            braceCount++;
-                        }
-                    }
-                    break;
-                }
-            }
-        }
-        
-        // Continue until we find the matching closing brace
-        for (let i = endLine + 1; i < lines.length && braceCount > 0; i++) {
-            const currentLine = lines[i];
-            body += currentLine + '\n';
-            endLine = i;
-            
-            // Count braces to handle nested blocks
-            for (let j = 0; j < currentLine.length; j++) {
-                if (currentLine[j] === '{') {
-                    braceCount++;
-                } else if (currentLine[j] === '}') {
-                    braceCount--;
-                    if (braceCount === 0) {
-                        // We've found the matching closing brace
-                        break;
-                    }
-                }
+        serverSymbols: LanguageServerSymbol[],
+        parsedSymbols: DocumentableSymbol[]
+    ): DocumentableSymbol[] {
+        const lines = document.getText().split('\n');
+        const support = this.languageRegistry.get(document.languageId);
+        const symbols: DocumentableSymbol[] = [];
+
+        for (const serverSymbol of serverSymbols) {
+            const nameLine = serverSymbol.selectionRange.start.line;
+            const parsed = parsedSymbols
+                .filter(symbol => symbol.name === serverSymbol.name &&
+                    symbol.startLine <= nameLine && nameLine <= symbol.endLine)
+                .pop();
+
+            const kind = parsed?.kind ?? this.getSymbolKind(serverSymbol.kind);
+            if (!kind) {
+                continue;
             }
+
+            const startLine = this.skipLeadingComments(lines, serverSymbol.range.start.line, nameLine);
+            const end = serverSymbol.range.end;
+            const body = [...lines.slice(startLine, end.line), lines[end.line].substring(0, end.character)].join('\n');
+            const isMemberOfType = serverSymbol.containerKind === undefined ||
+                this.getSymbolKind(serverSymbol.containerKind) !== undefined;
+
+            const symbol: DocumentableSymbol = {
+                ...(parsed ?? {
+                    signature: lines[nameLine].trim().replace(/\s*{\s*$/, ''),
+                    bodyStartLine: undefined
+                }),
+                kind: kind,
+                name: serverSymbol.name,
+                body: body,
+                startLine: startLine,
+                endLine: end.line,
+                language: document.languageId,
+                range: new vscode.Range(new vscode.Position(startLine, 0), end),
+                className: parsed?.className ?? (isMemberOfType ? serverSymbol.containerName : undefined)
+            };
+
+            this.attachDocumentation(symbol, lines, support.docComments);
+            symbols.push(symbol);
         }
-        
-        return { body, startLine, endLine };
+
+        return symbols;
     }
 
     /**
-     * Find existing documentation for a function
-     * @param document The text document
-     * @param functionStartLine The line where the function starts
-     * @returns Existing documentation string or undefined if none is found
+     * Fill in the existing documentation of a symbol and its range, unless the parser already found it
+     * @param symbol The symbol to update
+     * @param lines The document lines
+     * @param detector Doc comment detector of the document's language
      */
-    private findExistingDocumentation(
-        document: vscode.TextDocument,
-        functionStartLine: number
-    ): string | undefined {
-        const lines = document.getText().split('\n');
-        
-        // Look for documentation above the function (JSDoc, JavaDoc, etc.)
-        let startLine = functionStartLine - 1;
-        let docLines: string[] = [];
-        
-        // Skip empty lines
-        while (startLine >= 0 && lines[startLine].trim() === '') {
-            startLine--;
+    private attachDocumentation(symbol: DocumentableSymbol, lines: string[], detector: DocCommentDetector): void {
+        if (symbol.existingDocumentation !== undefined) {
+            return;
         }
-        
-        if (startLine < 0) {
-            return undefined;
+
+        const documentation = detector.findDocumentation(lines, symbol);
+        symbol.existingDocumentation = documentation?.text;
+        symbol.documentationRange = documentation?.range;
+    }
+
+    /**
+     * Map a VS Code symbol kind to a documentable symbol kind
+     * @param kind Kind reported by the language server
+     * @returns The documentable kind, or undefined for symbols that are not documented on their own
+     */
+    private getSymbolKind(kind: vscode.SymbolKind): SymbolKind | undefined {
+        switch (kind) {
+            case vscode.SymbolKind.Function:
+            case vscode.SymbolKind.Method:
+            case vscode.SymbolKind.Constructor:
+                return 'function';
+
+            case vscode.SymbolKind.Class:
+            case vscode.SymbolKind.Struct:
+            case vscode.SymbolKind.Object:
+                return 'class';
+
+            case vscode.SymbolKind.Interface:
+                return 'interface';
+
+            case vscode.SymbolKind.Enum:
+                return 'enum';
+
+            default:
+                return undefined;
         }
-        
-        // Check for JSDoc/JavaDoc style (/**...*/)
-        if (lines[startLine].trim().endsWith('*/')) {
-            // Found the end of a doc comment, collect all lines
-            let docEndLine = startLine;
-            
-            while (startLine >= 0) {
-                const line = lines[startLine].trim();
-                docLines.unshift(lines[startLine]);
-                
-                if (line.startsWith('/**')) {
-                    // Found the start of the doc comment
-                    return docLines.join('\n');
-                }
-                
-                startLine--;
+    }
+
+    /**
+     * Some language servers include the doc comment in a symbol's range. Find the first line of
+     * the declaration itself, so documentation is inserted above (not inside) the existing comment.
+     * @param lines The document lines
+     * @param rangeStartLine First line of the reported range
+     * @param nameLine Line of the symbol name
+     * @returns First line of the declaration
+     */
+    private skipLeadingComments(lines: string[], rangeStartLine: number, nameLine: number): number {
+        let line = rangeStartLine;
+        let inBlockComment = false;
+
+        while (line < nameLine) {
+            const text = lines[line].trim();
+
+            if (inBlockComment) {
+                inBlockComment = !text.includes('*/');
+            } else if (text.startsWith('/*')) {
+                inBlockComment = !text.includes('*/');
+            } else if (!(text === '' || text.startsWith('//') || text.startsWith('#') && !text.startsWith('#['))) {
+                break;
             }
+
+            line++;
         }
-        
-        return undefined;
+
+        return line;
     }
 
     /**
-     * Find Python docstring for a function
-     * @param document The text document
-     * @param functionStartLine The line where the function starts
-     * @param lines The document lines
-     * @returns The docstring or undefined if none is found
+     * Build a module symbol when the cursor is in the file header
+     * @param document The active text document
+     * @param position The current cursor position
+     * @returns Module symbol or null if the cursor is below the first declaration
      */
-    private findPythonDocstring(
+    private findModuleSymbol(
         document: vscode.TextDocument,
-        functionStartLine: number,
-        lines: string[]
-    ): string | undefined {
-        // Python docstrings are typically right after the function definition
-        const functionLine = functionStartLine;
-        
-        // Check if the next line starts a docstring
-        if (functionLine + 1 < lines.length) {
-            const nextLine = lines[functionLine + 1].trim();
-            
-            // Check for triple quotes (''' or """)
-            if (nextLine.startsWith('"""') || nextLine.startsWith("'''")) {
-                let docLines: string[] = [lines[functionLine + 1]];
-                let i = functionLine + 2;
-                
-                // Triple quotes can be on a single line or span multiple lines
-                if (!(nextLine.endsWith('"""') && nextLine.length > 3) &&
-                    !(nextLine.endsWith("'''") && nextLine.length > 3)) {
-                    // Multi-line docstring
-                    const quoteType = nextLine.startsWith('"""') ? '"""' : "'''";
-                    
-                    // Collect all lines until closing triple quotes
-                    while (i < lines.length) {
-                        docLines.push(lines[i]);
-                        
-                        if (lines[i].trim().endsWith(quoteType)) {
-                            break;
-                        }
-                        
-                        i++;
-                    }
-                }
-                
-                return docLines.join('\n');
-            }
+        position: vscode.Position
+    ): DocumentableSymbol | null {
+        const text = document.getText();
+        const lines = text.split('\n');
+        const language = document.languageId;
+
+        // Skip the shebang and magic comments (Python encoding, Ruby frozen string literals)
+        let headerStart = 0;
+        while (headerStart < lines.length &&
+               (lines[headerStart].startsWith('#!') || /^#.*(coding[:=]|frozen_string_literal:)/.test(lines[headerStart]))) {
+            headerStart++;
+        }
+
+        let firstContentLine = headerStart;
+        while (firstContentLine < lines.length && lines[firstContentLine].trim() === '') {
+            firstContentLine++;
+        }
+
+        // Find any existing module documentation at the top of the file
+        const existingDocumentation = this.languageRegistry.get(language).docComments
+            .findModuleDocumentation(lines, firstContentLine);
+        const codeStartLine = existingDocumentation
+            ? existingDocumentation.range.end.line + 1
+            : firstContentLine;
+
+        if (position.line > codeStartLine && codeStartLine < lines.length) {
+            return null;
         }
-        
-        return undefined;
+
+        const fileName = document.fileName ? path.basename(document.fileName) : 'module';
+        this.logger.info(`Found module: ${fileName}`);
+
+        return {
+            kind: 'module',
+            name: fileName,
+            signature: fileName,
+            body: text,
+            startLine: headerStart,
+            endLine: lines.length - 1,
+            language: language,
+            existingDocumentation: existingDocumentation?.text,
+            documentationRange: existingDocumentation?.range
+        };
     }
-}
\ No newline at end of file
+}
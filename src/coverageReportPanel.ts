@@ -0,0 +1,212 @@
+import * as vscode from 'vscode';
+import { CoverageReport, DocumentationCoverage } from './documentationCoverage';
+import { Logger } from './utils/logger';
+
+// Messages posted by the report's buttons and links
+type ReportMessage =
+    { command: 'open'; uri: string; line: number } |
+    { command: 'export'; format: 'json' | 'markdown' } |
+    { command: 'refresh' };
+
+/**
+ * Webview that shows a coverage report with links to the undocumented symbols
+ */
+export class CoverageReportPanel {
+    public static readonly VIEW_TYPE = 'gptDocAssistant.coverageReport';
+
+    private logger: Logger;
+    private documentationCoverage: DocumentationCoverage;
+    private panel: vscode.WebviewPanel | undefined;
+    private report: CoverageReport | undefined;
+    private refreshReport: () => Thenable<CoverageReport | undefined>;
+
+    /**
+     * @param documentationCoverage Formats and exports the report
+     * @param refreshReport Scans the workspace again when the report's Refresh button is clicked
+     */
+    constructor(documentationCoverage: DocumentationCoverage, refreshReport: () => Thenable<CoverageReport | undefined>) {
+        this.logger = new Logger('CoverageReportPanel');
+        this.documentationCoverage = documentationCoverage;
+        this.refreshReport = refreshReport;
+    }
+
+    /**
+     * Show a report, reusing the open panel if there is one
+     * @param report The report to show
+     */
+    public show(report: CoverageReport): void {
+        this.report = report;
+
+        if (!this.panel) {
+            this.panel = vscode.window.createWebviewPanel(
+                CoverageReportPanel.VIEW_TYPE,
+                'Documentation Coverage',
+                vscode.ViewColumn.Active,
+                { enableScripts: true, localResourceRoots: [] }
+            );
+            this.panel.onDidDispose(() => this.panel = undefined);
+            this.panel.webview.onDidReceiveMessage((message: ReportMessage) => this.handleMessage(message));
+        }
+
+        this.panel.webview.html = this.renderHtml(report, this.createNonce());
+        this.panel.reveal();
+    }
+
+    /**
+     * Handle a click on a symbol link or button
+     * @param message Message posted by the webview
+     */
+    private async handleMessage(message: ReportMessage): Promise<void> {
+        try {
+            switch (message.command) {
+                case 'open': {
+                    const position = new vscode.Position(message.line, 0);
+                    await vscode.window.showTextDocument(vscode.Uri.parse(message.uri), {
+                        selection: new vscode.Range(position, position)
+                    });
+                    break;
+                }
+                case 'export':
+                    await this.exportReport(message.format);
+                    break;
+                case 'refresh': {
+                    const report = await this.refreshReport();
+                    if (report) {
+                        this.show(report);
+                    }
+                    break;
+                }
+            }
+        } catch (error) {
+            this.logger.error(`Coverage report action failed: ${error}`);
+            vscode.window.showErrorMessage(`Coverage report action failed: ${error}`);
+        }
+    }
+
+    /**
+     * Save the report as JSON or Markdown
+     * @param format Export format
+     */
+    private async exportReport(format: 'json' | 'markdown'): Promise<void> {
+        if (!this.report) {
+            return;
+        }
+
+        const extension = format === 'json' ? 'json' : 'md';
+        const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const fileName = `documentation-coverage-${this.report.generatedAt.substring(0, 10)}.${extension}`;
+
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: folder ? vscode.Uri.joinPath(folder, fileName) : undefined,
+            filters: format === 'json' ? { 'JSON': ['json'] } : { 'Markdown': ['md'] }
+        });
+
+        if (!target) {
+            return;
+        }
+
+        const content = format === 'json'
+            ? this.documentationCoverage.toJson(this.report)
+            : this.documentationCoverage.toMarkdown(this.report);
+
+        await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf8'));
+        this.logger.info(`Exported coverage report to ${target.fsPath}`);
+        vscode.window.showInformationMessage(`Coverage report saved to ${vscode.workspace.asRelativePath(target)}`);
+    }
+
+    /**
+     * Render the report
+     * @param report The report
+     * @param nonce Nonce that allows the report's script to run
+     * @returns HTML of the webview
+     */
+    private renderHtml(report: CoverageReport, nonce: string): string {
+        const coverage = this.documentationCoverage;
+
+        const summaryTable = (title: string, rows: { name: string; total: number; documented: number }[]) => `
+            <h2>${title}</h2>
+            <table>
+                <tr><th>Name</th><th>Coverage</th><th>Documented</th><th>Total</th></tr>
+                ${rows.map(row => `
+                <tr>
+                    <td>${this.escape(row.name)}</td>
+                    <td>${coverage.formatPercentage(row)}</td>
+                    <td>${row.documented}</td>
+                    <td>${row.total}</td>
+                </tr>`).join('')}
+            </table>`;
+
+        const files = report.files.map(file => `
+            <details${file.documented < file.total ? ' open' : ''}>
+                <summary>${coverage.formatPercentage(file)} ${this.escape(file.path)} (${file.documented}/${file.total})</summary>
+                <ul>
+                    ${file.undocumented.map(symbol => `
+                    <li><a href="#" data-uri="${this.escape(file.uri)}" data-line="${symbol.line}">${this.escape(symbol.name)}</a> ${symbol.kind}, line ${symbol.line + 1}</li>`).join('')}
+                </ul>
+            </details>`).join('');
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Documentation Coverage</title>
+    <style>
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+        table { border-collapse: collapse; margin-bottom: 1em; }
+        th, td { padding: 2px 12px; text-align: left; border-bottom: 1px solid var(--vscode-panel-border); }
+        a { color: var(--vscode-textLink-foreground); }
+        button { color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; padding: 4px 10px; }
+    </style>
+</head>
+<body>
+    <h1>Documentation Coverage: ${coverage.formatPercentage(report)}</h1>
+    <p>${report.documented} of ${report.total} symbols documented in ${report.files.length} files (${this.escape(report.generatedAt)})</p>
+    <p>
+        <button data-command="refresh">Refresh</button>
+        <button data-command="export" data-format="json">Export JSON</button>
+        <button data-command="export" data-format="markdown">Export Markdown</button>
+    </p>
+    ${summaryTable('Languages', report.languages)}
+    ${summaryTable('Folders', report.folders)}
+    <h2>Files</h2>
+    ${files}
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        document.addEventListener('click', event => {
+            const target = event.target;
+            if (target.dataset.uri) {
+                event.preventDefault();
+                vscode.postMessage({ command: 'open', uri: target.dataset.uri, line: Number(target.dataset.line) });
+            } else if (target.dataset.command) {
+                vscode.postMessage({ command: target.dataset.command, format: target.dataset.format });
+            }
+        });
+    </script>
+</body>
+</html>`;
+    }
+
+    /**
+     * Escape text for HTML
+     * @param text Text from the report
+     * @returns Escaped text
+     */
+    private escape(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;');
+    }
+
+    /**
+     * Create a random nonce for the Content Security Policy
+     * @returns 32 random letters and digits
+     */
+    private createNonce(): string {
+        const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+        return Array.from({ length: 32 }, () => characters.charAt(Math.floor(Math.random() * characters.length))).join('');
+    }
+}
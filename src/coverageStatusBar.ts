@@ -0,0 +1,76 @@
+import * as vscode from 'vscode';
+import { DocumentationCoverage } from './documentationCoverage';
+import { LanguageRegistry } from './languages/languageRegistry';
+import { Logger } from './utils/logger';
+
+/**
+ * Status bar item with the documentation coverage of the active file
+ */
+export class CoverageStatusBar {
+    private logger: Logger;
+    private documentationCoverage: DocumentationCoverage;
+    private languageRegistry: LanguageRegistry;
+    private item: vscode.StatusBarItem;
+
+    constructor(documentationCoverage: DocumentationCoverage, languageRegistry: LanguageRegistry = LanguageRegistry.getDefault()) {
+        this.logger = new Logger('CoverageStatusBar');
+        this.documentationCoverage = documentationCoverage;
+        this.languageRegistry = languageRegistry;
+        this.item = vscode.window.createStatusBarItem('gptDocAssistant.coverage', vscode.StatusBarAlignment.Right, 100);
+        this.item.name = 'Documentation Coverage';
+        this.item.command = 'gptDocAssistant.showCoverage';
+    }
+
+    /**
+     * Show the item and update it when the active editor changes or its file is saved
+     * @returns Disposable that removes the item and its listeners
+     */
+    public register(): vscode.Disposable {
+        this.update();
+
+        return vscode.Disposable.from(
+            vscode.window.onDidChangeActiveTextEditor(() => this.update()),
+            vscode.workspace.onDidSaveTextDocument(document => {
+                if (document === vscode.window.activeTextEditor?.document) {
+                    this.update();
+                }
+            }),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('gptDocAssistant.coverage.statusBar')) {
+                    this.update();
+                }
+            }),
+            this.item
+        );
+    }
+
+    /**
+     * Measure the active file, or hide the item when no supported file is active
+     */
+    private async update(): Promise<void> {
+        const document = vscode.window.activeTextEditor?.document;
+        const enabled = vscode.workspace.getConfiguration('gptDocAssistant.coverage').get<boolean>('statusBar', true);
+
+        if (!enabled || !document || !this.languageRegistry.isSupported(document.languageId)) {
+            this.item.hide();
+            return;
+        }
+
+        try {
+            const coverage = await this.documentationCoverage.measureDocument(document);
+
+            // Another file may have become active while this one was measured
+            if (document !== vscode.window.activeTextEditor?.document) {
+                return;
+            }
+
+            this.item.text = `$(book) ${this.documentationCoverage.formatPercentage(coverage)}`;
+            this.item.tooltip = `${coverage.documented} of ${coverage.total} symbols documented in this file. ` +
+                'Click for the workspace coverage report.';
+            this.item.show();
+        } catch (error) {
+            this.logger.error(`Failed to measure coverage of ${document.uri.toString()}: ${error}`);
+            this.item.hide();
+        }
+    }
+}
@@ -0,0 +1,349 @@
+import { DocumentableSymbol } from './codeParser';
+
+export type DocumentationIssueKind =
+    'unknownParameter' |
+    'undocumentedParameter' |
+    'unexpectedReturns' |
+    'undocumentedException';
+
+export interface DocumentationIssue {
+    kind: DocumentationIssueKind;
+    message: string;
+    // Parameter (or exception) the issue is about
+    name: string;
+    // Line of the documentation the issue points at, counted from its first line; missing
+    // entries have no line of their own
+    line?: number;
+}
+
+// Section headers that introduce a parameter list: Google style (`Args:`), NumPy style
+// (`Parameters` underlined with dashes) and rustdoc (`# Arguments`)
+const googleParameterHeader = /^(\s*)(?:Args|Arguments|Parameters|Params|Keyword Args|Keyword Arguments):\s*$/;
+const numpyParameterHeader = /^(\s*)(?:Parameters|Other Parameters)\s*$/;
+const rustParameterHeader = /^\s*#+\s*(?:Arguments|Parameters)\s*$/;
+
+// Return value documentation in every supported style
+const returnsPatterns = [
+    /^\s*[@\\]returns?\b/,
+    /^\s*:returns?:/,
+    /^\s*(?:Returns|Return|Yields):/,
+    /^\s*#+\s*Returns\s*$/,
+    /<returns>/
+];
+
+// Return types of functions that return nothing
+const voidReturnTypes = ['void', 'None', 'Unit', '()'];
+
+/**
+ * Check whether a declared return type means the function returns nothing. An asynchronous
+ * function that returns nothing resolves to Promise<void>, a plain Task or similar.
+ * @param returnType Declared return type
+ * @returns True for void types, also wrapped in a promise, task or future
+ */
+export function returnsNothing(returnType: string): boolean {
+    const resolvedType = returnType.trim().replace(/^(?:Promise|Task|ValueTask|Future|Awaitable)<(.*)>$/, '$1');
+    return voidReturnTypes.includes(resolvedType) || ['Task', 'ValueTask'].includes(resolvedType);
+}
+
+/**
+ * Compares existing documentation with the parsed signature, without calling a model
+ */
+export class DocumentationAnalyzer {
+    /**
+     * Find the ways in which a symbol's documentation no longer matches its signature
+     * @param symbol Function with existing documentation
+     * @returns Issues found; empty when the documentation looks up to date or there is none
+     */
+    public findIssues(symbol: DocumentableSymbol): DocumentationIssue[] {
+        if (!symbol.existingDocumentation || symbol.kind !== 'function') {
+            return [];
+        }
+
+        const lines = this.getCommentText(symbol.existingDocumentation);
+        return [
+            ...this.findParameterIssues(symbol, lines),
+            ...this.findReturnIssues(symbol, lines),
+            ...this.findExceptionIssues(symbol, lines)
+        ];
+    }
+
+    /**
+     * Compare documented parameter names with the actual parameters. Undocumented parameters are
+     * only reported when the documentation lists parameters at all, since many conventions
+     * (Go, short one-line summaries) describe parameters in prose.
+     * @param symbol The documented function
+     * @param lines Documentation text without comment markers
+     * @returns Parameter issues
+     */
+    private findParameterIssues(symbol: DocumentableSymbol, lines: string[]): DocumentationIssue[] {
+        const documented = this.getDocumentedParameters(lines);
+        if (documented.length === 0 || !symbol.parameters) {
+            return [];
+        }
+
+        // Destructured parameters have no single name to document
+        const actual = symbol.parameters
+            .map(parameter => parameter.name.replace(/^[*&$]+|^\.\.\./g, ''))
+            .filter(name => /^\w+$/.test(name));
+
+        const issues: DocumentationIssue[] = [];
+
+        for (const name of documented) {
+            // JSDoc documents properties of an object parameter as `options.name`
+            if (!actual.includes(name.split('.')[0])) {
+                issues.push({
+                    kind: 'unknownParameter',
+                    name: name,
+                    message: `Documented parameter '${name}' does not exist`,
+                    line: this.findLine(lines, new RegExp(`(?:^|[^\\w.])${name.replace(/\./g, '\\.')}\\b`))
+                });
+            }
+        }
+
+        for (const name of actual) {
+            if (!documented.some(documentedName => documentedName.split('.')[0] === name)) {
+                issues.push({ kind: 'undocumentedParameter', name: name, message: `Parameter '${name}' is not documented` });
+            }
+        }
+
+        return issues;
+    }
+
+    /**
+     * Report documentation of a return value on a function declared to return nothing
+     * @param symbol The documented function
+     * @param lines Documentation text without comment markers
+     * @returns The issue, if any
+     */
+    private findReturnIssues(symbol: DocumentableSymbol, lines: string[]): DocumentationIssue[] {
+        if (!symbol.returnType || !returnsNothing(symbol.returnType)) {
+            return [];
+        }
+
+        // NumPy style underlines the `Returns` header instead of ending it with a colon
+        const numpyLine = lines.findIndex((line, index) =>
+            /^\s*(?:Returns|Yields)\s*$/.test(line) && /^\s*-{3,}\s*$/.test(lines[index + 1] ?? ''));
+
+        const line = this.findLine(lines, ...returnsPatterns) ?? (numpyLine === -1 ? undefined : numpyLine);
+        if (line === undefined) {
+            return [];
+        }
+
+        return [{
+            kind: 'unexpectedReturns',
+            name: symbol.name,
+            message: `Return value is documented, but ${symbol.name} returns ${symbol.returnType.trim()}`,
+            line: line
+        }];
+    }
+
+    /**
+     * Report exceptions thrown by the body that the documentation does not mention. Only checked
+     * for documentation with tags or sections, where a `Raises:` or `@throws` entry is expected.
+     * @param symbol The documented function
+     * @param lines Documentation text without comment markers
+     * @returns Issues for undocumented exceptions
+     */
+    private findExceptionIssues(symbol: DocumentableSymbol, lines: string[]): DocumentationIssue[] {
+        if (!symbol.throws || symbol.throws.length === 0 || !this.isStructured(lines)) {
+            return [];
+        }
+
+        const text = lines.join('\n');
+        const issues: DocumentationIssue[] = [];
+
+        for (const exception of symbol.throws) {
+            // Compare the class name only: `errors.NotFound` may be documented as `NotFound`
+            const name = exception.split(/[.:\\]+/).pop() ?? exception;
+
+            // Rethrowing a caught variable (`throw error`, `raise e`) names no exception type
+            if (!/^[A-Z]/.test(name)) {
+                continue;
+            }
+
+            if (!new RegExp(`\\b${name}\\b`).test(text)) {
+                issues.push({ kind: 'undocumentedException', name: name, message: `Exception '${name}' is raised but not documented` });
+            }
+        }
+
+        return issues;
+    }
+
+    /**
+     * Check whether documentation uses tags (`@param`, `:param`, `<summary>`) or sections (`Args:`)
+     * rather than only prose
+     * @param lines Documentation text without comment markers
+     * @returns True for structured documentation
+     */
+    private isStructured(lines: string[]): boolean {
+        return lines.some(line =>
+            /^\s*(?:[@\\]\w+|:\w+)/.test(line) ||
+            /^\s*[A-Z][\w ]*:\s*$/.test(line) ||
+            /^\s*#+\s*\w+/.test(line) ||
+            /<\w+[^>]*>/.test(line)) ||
+            this.getSectionParameters(lines).length > 0;
+    }
+
+    /**
+     * Find the first documentation line matching any of the patterns
+     * @param lines Documentation text without comment markers
+     * @param patterns Patterns to look for
+     * @returns Index of the line, or undefined when no line matches
+     */
+    private findLine(lines: string[], ...patterns: RegExp[]): number | undefined {
+        const index = lines.findIndex(line => patterns.some(pattern => pattern.test(line)));
+        return index === -1 ? undefined : index;
+    }
+
+    /**
+     * Collect the parameter names a documentation block describes, in any supported style
+     * @param lines Documentation text without comment markers
+     * @returns Documented parameter names in order, without duplicates
+     */
+    private getDocumentedParameters(lines: string[]): string[] {
+        const names: string[] = [];
+
+        for (const line of lines) {
+            // JSDoc, JavaDoc, KDoc, PHPDoc, YARD and Doxygen tags
+            const tag = /^\s*[@\\]param(?:\[[^\]]*\])?\s+(.*)$/.exec(line);
+            if (tag) {
+                names.push(...this.parseParameterTag(tag[1]));
+            }
+
+            // Sphinx: `:param name:` or `:param type name:`
+            const sphinx = /^\s*:param\s+(?:[^:]*\s)?\**(\w+)\s*:/.exec(line);
+            if (sphinx) {
+                names.push(sphinx[1]);
+            }
+
+            // C# XML documentation
+            for (const match of line.matchAll(/<param\s+name\s*=\s*"([^"]+)"/g)) {
+                names.push(match[1]);
+            }
+        }
+
+        names.push(...this.getSectionParameters(lines));
+        return [...new Set(names)];
+    }
+
+    /**
+     * Read the parameter name from the text after a `@param` tag
+     * @param text Tag text, e.g. `{string} name desc`, `[String] name desc`, `Type $name desc` or `[name=1] desc`
+     * @returns The parameter name, or nothing for type parameters such as `<T>`
+     */
+    private parseParameterTag(text: string): string[] {
+        // JSDoc type in braces
+        let rest = text.replace(/^\{(?:[^{}]|\{[^{}]*\})*\}\s*/, '');
+
+        // PHPDoc puts the type first: `@param Type $name`
+        const php = /^(?:\S+\s+)?\$(\w+)/.exec(rest);
+        if (php) {
+            return [php[1]];
+        }
+
+        if (rest.startsWith('[')) {
+            const close = rest.indexOf(']');
+            const inner = rest.substring(1, close);
+            rest = rest.substring(close + 1).trim();
+
+            // YARD type (`[String] name`) or JSDoc optional name (`[name=default]`)
+            const yardName = /^(\w+)/.exec(rest);
+            if (yardName && /^[A-Z]|[<,(]/.test(inner)) {
+                return [yardName[1]];
+            }
+            return [inner.split('=')[0].trim()];
+        }
+
+        const name = /^\.{0,3}([\w.]+)/.exec(rest);
+        return name ? [name[1]] : [];
+    }
+
+    /**
+     * Collect parameters from Google (`Args:`), NumPy (`Parameters` / `----------`) and
+     * rustdoc (`# Arguments`) sections
+     * @param lines Documentation text without comment markers
+     * @returns Parameter names listed in the sections
+     */
+    private getSectionParameters(lines: string[]): string[] {
+        const names: string[] = [];
+
+        for (let i = 0; i < lines.length; i++) {
+            const google = googleParameterHeader.exec(lines[i]);
+            const numpy = numpyParameterHeader.exec(lines[i]);
+
+            if (google) {
+                // Entries are indented below the header: `name (type): description` or `*args: description`
+                const headerIndent = google[1].length;
+                let entryIndent = -1;
+
+                for (let j = i + 1; j < lines.length; j++) {
+                    if (lines[j].trim() === '') {
+                        continue;
+                    }
+
+                    const indent = lines[j].search(/\S/);
+                    if (indent <= headerIndent) {
+                        break;
+                    }
+
+                    entryIndent = entryIndent === -1 ? indent : entryIndent;
+                    const entry = /^\s*\**(\w+)\s*(?:\([^)]*\))?\s*:/.exec(lines[j]);
+                    if (indent === entryIndent && entry) {
+                        names.push(entry[1]);
+                    }
+                }
+            } else if (numpy && /^\s*-{3,}\s*$/.test(lines[i + 1] ?? '')) {
+                // Entries start at the header's indentation: `name : type`, descriptions are indented
+                const headerIndent = numpy[1].length;
+
+                for (let j = i + 2; j < lines.length; j++) {
+                    // The next section header ends the list
+                    if (/^\s*-{3,}\s*$/.test(lines[j + 1] ?? '')) {
+                        break;
+                    }
+
+                    const entry = /^\s*\**(\w+)(?:\s*,\s*\**\w+)*\s*(?::.*)?$/.exec(lines[j]);
+                    if (entry && lines[j].search(/\S/) === headerIndent) {
+                        names.push(...lines[j].split(':')[0].split(',').map(name => name.trim().replace(/^\*+/, '')));
+                    }
+                }
+            } else if (rustParameterHeader.test(lines[i])) {
+                // `* `name` - description`
+                for (let j = i + 1; j < lines.length && !/^\s*#/.test(lines[j]); j++) {
+                    const entry = /^\s*[*-]\s*`(\w+)`/.exec(lines[j]);
+                    if (entry) {
+                        names.push(entry[1]);
+                    }
+                }
+            }
+        }
+
+        return names;
+    }
+
+    /**
+     * Remove comment markers (`/**`, `*`, `///`, `//`, `#`) and docstring quotes, keeping the
+     * indentation of the text inside the comment
+     * @param documentation Documentation as written in the source
+     * @returns Text lines of the documentation
+     */
+    private getCommentText(documentation: string): string[] {
+        const lines = documentation.split('\n');
+        const firstLine = lines[0].trim();
+
+        if (firstLine.startsWith('/*')) {
+            return lines.map(line => line
+                .replace(/^\s*(?:\/\*\*?|\*(?!\/))\s?/, '')
+                .replace(/\s*\*\/\s*$/, ''));
+        }
+
+        if (/^(?:\/\/|#)/.test(firstLine)) {
+            return lines.map(line => line.replace(/^\s*(?:\/\/[/!]?|#)\s?/, ''));
+        }
+
+        // Python docstring
+        return lines.map(line => line
+            .replace(/^(\s*)[rRuUbB]{0,2}(?:"""|''')/, '$1')
+            .replace(/\s*(?:"""|''')\s*$/, ''));
+    }
+}
@@ -0,0 +1,115 @@
+import * as vscode from 'vscode';
+import { CodeParser } from './codeParser';
+import { DocumentationAnalyzer } from './documentationAnalyzer';
+import { Logger } from './utils/logger';
+
+// Wait for typing to pause before asking VS Code for new lenses
+const refreshDelay = 500;
+
+export class DocumentationCodeLensProvider implements vscode.CodeLensProvider {
+    private logger: Logger;
+    private codeParser: CodeParser;
+    private documentationAnalyzer: DocumentationAnalyzer;
+    private changeEmitter: vscode.EventEmitter<void>;
+    private refreshTimer: NodeJS.Timeout | undefined;
+
+    public readonly onDidChangeCodeLenses: vscode.Event<void>;
+
+    constructor(codeParser: CodeParser, documentationAnalyzer: DocumentationAnalyzer) {
+        this.logger = new Logger('DocumentationCodeLensProvider');
+        this.codeParser = codeParser;
+        this.documentationAnalyzer = documentationAnalyzer;
+        this.changeEmitter = new vscode.EventEmitter<void>();
+        this.onDidChangeCodeLenses = this.changeEmitter.event;
+    }
+
+    /**
+     * Register the provider for all files and refresh the lenses when documents or settings change
+     * @returns Disposable that unregisters the provider and its listeners
+     */
+    public register(): vscode.Disposable {
+        return vscode.Disposable.from(
+            vscode.languages.registerCodeLensProvider({ scheme: 'file' }, this),
+            vscode.languages.registerCodeLensProvider({ scheme: 'untitled' }, this),
+            vscode.workspace.onDidChangeTextDocument(() => this.scheduleRefresh()),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('gptDocAssistant.codeLens')) {
+                    this.changeEmitter.fire();
+                }
+            }),
+            this.changeEmitter,
+            { dispose: () => clearTimeout(this.refreshTimer) }
+        );
+    }
+
+    /**
+     * Put "Generate docs" above undocumented functions and "Update docs" above functions whose
+     * documentation no longer matches their signature
+     * @param document The document
+     * @param token Cancellation token
+     * @returns Code lenses that run the commands for their symbol
+     */
+    public async provideCodeLenses(
+        document: vscode.TextDocument,
+        token: vscode.CancellationToken
+    ): Promise<vscode.CodeLens[]> {
+        // Enabled per language through `"[language]": { "gptDocAssistant.codeLens.enabled": ... }`
+        const enabled = vscode.workspace
+            .getConfiguration('gptDocAssistant.codeLens', document)
+            .get<boolean>('enabled', true);
+
+        if (!enabled) {
+            return [];
+        }
+
+        try {
+            const symbols = await this.codeParser.findAllSymbols(document);
+            const lenses: vscode.CodeLens[] = [];
+
+            for (const symbol of symbols) {
+                if (token.isCancellationRequested) {
+                    return [];
+                }
+
+                if (symbol.kind !== 'function') {
+                    continue;
+                }
+
+                const range = new vscode.Range(symbol.startLine, 0, symbol.startLine, 0);
+
+                if (!symbol.existingDocumentation) {
+                    lenses.push(new vscode.CodeLens(range, {
+                        title: 'Generate docs',
+                        tooltip: `Generate documentation for ${symbol.name}`,
+                        command: 'gptDocAssistant.generateDoc',
+                        arguments: [symbol]
+                    }));
+                    continue;
+                }
+
+                const issues = this.documentationAnalyzer.findIssues(symbol);
+                if (issues.length > 0) {
+                    lenses.push(new vscode.CodeLens(range, {
+                        title: 'Update docs',
+                        tooltip: issues.map(issue => issue.message).join('\n'),
+                        command: 'gptDocAssistant.updateDoc',
+                        arguments: [symbol]
+                    }));
+                }
+            }
+
+            return lenses;
+        } catch (error) {
+            this.logger.error(`Failed to provide code lenses: ${error}`);
+            return [];
+        }
+    }
+
+    /**
+     * Refresh the lenses once typing pauses
+     */
+    private scheduleRefresh(): void {
+        clearTimeout(this.refreshTimer);
+        this.refreshTimer = setTimeout(() => this.changeEmitter.fire(), refreshDelay);
+    }
+}
@@ -0,0 +1,210 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { CodeParser, SymbolKind } from './codeParser';
+import { LanguageRegistry } from './languages/languageRegistry';
+import { Logger } from './utils/logger';
+
+export interface UndocumentedSymbol {
+    name: string;
+    kind: SymbolKind;
+    line: number;
+}
+
+export interface FileCoverage {
+    uri: string;
+    // Path relative to the workspace folder
+    path: string;
+    languageId: string;
+    total: number;
+    documented: number;
+    undocumented: UndocumentedSymbol[];
+}
+
+// Coverage of a folder or a language
+export interface CoverageSummary {
+    name: string;
+    total: number;
+    documented: number;
+}
+
+export interface CoverageReport {
+    generatedAt: string;
+    total: number;
+    documented: number;
+    // Each list is sorted least documented first
+    files: FileCoverage[];
+    folders: CoverageSummary[];
+    languages: CoverageSummary[];
+}
+
+/**
+ * Measures how many symbols have documentation, per file, folder and language
+ */
+export class DocumentationCoverage {
+    private logger: Logger;
+    private codeParser: CodeParser;
+    private languageRegistry: LanguageRegistry;
+
+    constructor(codeParser: CodeParser, languageRegistry: LanguageRegistry = LanguageRegistry.getDefault()) {
+        this.logger = new Logger('DocumentationCoverage');
+        this.codeParser = codeParser;
+        this.languageRegistry = languageRegistry;
+    }
+
+    /**
+     * Measure the documentation coverage of one document
+     * @param document The document
+     * @returns Symbol counts and the undocumented symbols
+     */
+    public async measureDocument(document: vscode.TextDocument): Promise<FileCoverage> {
+        const symbols = await this.codeParser.findAllSymbols(document);
+        const undocumented = symbols.filter(symbol => !symbol.existingDocumentation);
+
+        return {
+            uri: document.uri.toString(),
+            path: vscode.workspace.asRelativePath(document.uri),
+            languageId: document.languageId,
+            total: symbols.length,
+            documented: symbols.length - undocumented.length,
+            undocumented: undocumented.map(symbol => ({ name: symbol.name, kind: symbol.kind, line: symbol.startLine }))
+        };
+    }
+
+    /**
+     * Measure every file of a registered language that matches a glob pattern
+     * @param include Files to measure
+     * @param exclude Files to leave out
+     * @param progress Progress reporter
+     * @param token Cancellation token; files measured so far are still reported
+     * @returns The coverage report
+     */
+    public async scanWorkspace(
+        include: vscode.GlobPattern,
+        exclude: string,
+        progress: vscode.Progress<{ message?: string; increment?: number }>,
+        token: vscode.CancellationToken
+    ): Promise<CoverageReport> {
+        const extensions = this.languageRegistry.getLanguageIds()
+            .flatMap(languageId => this.languageRegistry.getFileExtensions(languageId));
+
+        const uris = (await vscode.workspace.findFiles(include, exclude, undefined, token))
+            .filter(uri => extensions.some(extension => uri.path.endsWith(extension)));
+
+        const files: FileCoverage[] = [];
+
+        for (const [index, uri] of uris.entries()) {
+            if (token.isCancellationRequested) {
+                break;
+            }
+
+            progress.report({ message: `${index + 1}/${uris.length} files`, increment: 100 / uris.length });
+
+            try {
+                const document = await vscode.workspace.openTextDocument(uri);
+                files.push(await this.measureDocument(document));
+            } catch (error) {
+                this.logger.error(`Failed to measure ${uri.toString()}: ${error}`);
+            }
+        }
+
+        return this.createReport(files);
+    }
+
+    /**
+     * Combine file coverage into totals per folder and per language
+     * @param files Coverage of each file
+     * @returns The report; files without symbols are left out
+     */
+    public createReport(files: FileCoverage[]): CoverageReport {
+        const measured = files.filter(file => file.total > 0);
+        const folders = new Map<string, CoverageSummary>();
+        const languages = new Map<string, CoverageSummary>();
+
+        const add = (groups: Map<string, CoverageSummary>, name: string, file: FileCoverage) => {
+            const group = groups.get(name) ?? { name: name, total: 0, documented: 0 };
+            group.total += file.total;
+            group.documented += file.documented;
+            groups.set(name, group);
+        };
+
+        for (const file of measured) {
+            add(folders, path.posix.dirname(file.path.replace(/\\/g, '/')), file);
+            add(languages, file.languageId, file);
+        }
+
+        return {
+            generatedAt: new Date().toISOString(),
+            total: measured.reduce((total, file) => total + file.total, 0),
+            documented: measured.reduce((total, file) => total + file.documented, 0),
+            files: this.sortLeastDocumented(measured, file => file.path),
+            folders: this.sortLeastDocumented([...folders.values()], folder => folder.name),
+            languages: this.sortLeastDocumented([...languages.values()], language => language.name)
+        };
+    }
+
+    /**
+     * Format a coverage ratio as a whole percentage
+     * @param coverage Documented and total symbol counts
+     * @returns Percentage such as `75%`; `100%` when there is nothing to document
+     */
+    public formatPercentage(coverage: { total: number; documented: number }): string {
+        return coverage.total === 0 ? '100%' : `${Math.floor(coverage.documented / coverage.total * 100)}%`;
+    }
+
+    /**
+     * Export a report as JSON, to compare with earlier exports
+     * @param report The report
+     * @returns Indented JSON
+     */
+    public toJson(report: CoverageReport): string {
+        return JSON.stringify(report, null, 2);
+    }
+
+    /**
+     * Export a report as Markdown tables
+     * @param report The report
+     * @returns Markdown document
+     */
+    public toMarkdown(report: CoverageReport): string {
+        // A `|` in a file or folder name would start a new cell
+        const cell = (text: string) => text.replace(/\|/g, '\\|');
+
+        const table = (title: string, rows: CoverageSummary[]): string[] => [
+            `## ${title}`,
+            '',
+            `| ${title.replace(/s$/, '')} | Coverage | Documented | Total |`,
+            '| --- | ---: | ---: | ---: |',
+            ...rows.map(row => `| ${cell(row.name)} | ${this.formatPercentage(row)} | ${row.documented} | ${row.total} |`),
+            ''
+        ];
+
+        return [
+            '# Documentation Coverage',
+            '',
+            `Generated ${report.generatedAt}: ${this.formatPercentage(report)} (${report.documented} of ${report.total} symbols documented)`,
+            '',
+            ...table('Languages', report.languages),
+            ...table('Folders', report.folders),
+            ...table('Files', report.files.map(file => ({ name: file.path, total: file.total, documented: file.documented }))),
+            '## Undocumented Symbols',
+            '',
+            ...report.files
+                .filter(file => file.undocumented.length > 0)
+                .flatMap(file => file.undocumented.map(symbol => `- ${file.path}:${symbol.line + 1} ${symbol.kind} \`${symbol.name}\``)),
+            ''
+        ].join('\n');
+    }
+
+    /**
+     * Sort by coverage ratio, least documented first, then by the number of undocumented symbols
+     * @param items Files, folders or languages
+     * @param getName Name used to keep the order stable for equal coverage
+     * @returns The sorted items
+     */
+    private sortLeastDocumented<T extends { total: number; documented: number }>(items: T[], getName: (item: T) => string): T[] {
+        return items.sort((a, b) =>
+            a.documented / a.total - b.documented / b.total ||
+            (b.total - b.documented) - (a.total - a.documented) ||
+            getName(a).localeCompare(getName(b)));
+    }
+}
@@ -0,0 +1,224 @@
+import * as vscode from 'vscode';
+import { CodeParser, DocumentableSymbol } from './codeParser';
+import { DocumentationAnalyzer, DocumentationIssue } from './documentationAnalyzer';
+import { Logger } from './utils/logger';
+
+// Wait for typing to pause before analyzing a document again
+const refreshDelay = 500;
+
+// Documents in editors; output channels and previews are not analyzed
+const analyzedSchemes = ['file', 'untitled'];
+
+// A reported diagnostic and the function whose documentation it is about
+interface ReportedIssue {
+    diagnostic: vscode.Diagnostic;
+    symbol: DocumentableSymbol;
+    // Version of the document the function was parsed from
+    version: number;
+}
+
+/**
+ * Reports out-of-date documentation in the Problems panel and offers a quick fix that updates it
+ */
+export class DocumentationDiagnostics implements vscode.CodeActionProvider {
+    public static readonly SOURCE = 'GPT Documentation Assistant';
+
+    private logger: Logger;
+    private codeParser: CodeParser;
+    private documentationAnalyzer: DocumentationAnalyzer;
+    private diagnostics: vscode.DiagnosticCollection;
+    private reported: Map<string, ReportedIssue[]> = new Map();
+    private refreshTimers: Map<string, NodeJS.Timeout> = new Map();
+
+    constructor(codeParser: CodeParser, documentationAnalyzer: DocumentationAnalyzer) {
+        this.logger = new Logger('DocumentationDiagnostics');
+        this.codeParser = codeParser;
+        this.documentationAnalyzer = documentationAnalyzer;
+        this.diagnostics = vscode.languages.createDiagnosticCollection('gptDocAssistant');
+    }
+
+    /**
+     * Analyze open documents as they are opened and edited, and register the quick fix
+     * @returns Disposable that removes the diagnostics, listeners and quick fix provider
+     */
+    public register(): vscode.Disposable {
+        vscode.workspace.textDocuments.forEach(document => this.refresh(document));
+
+        return vscode.Disposable.from(
+            vscode.languages.registerCodeActionsProvider(
+                analyzedSchemes.map(scheme => ({ scheme: scheme })),
+                this,
+                { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] }
+            ),
+            vscode.workspace.onDidOpenTextDocument(document => this.refresh(document)),
+            vscode.workspace.onDidChangeTextDocument(event => this.scheduleRefresh(event.document)),
+            vscode.workspace.onDidCloseTextDocument(document => this.clear(document)),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('gptDocAssistant.diagnostics')) {
+                    vscode.workspace.textDocuments.forEach(document => this.refresh(document));
+                }
+            }),
+            this.diagnostics,
+            {
+                dispose: () => {
+                    this.refreshTimers.forEach(timer => clearTimeout(timer));
+                    this.refreshTimers.clear();
+                    this.reported.clear();
+                }
+            }
+        );
+    }
+
+    /**
+     * Offer "Update documentation" for the functions of the diagnostics in the requested range.
+     * Diagnostics of an older version of the document get no quick fix until they are refreshed.
+     * @param document The document
+     * @param range The range the quick fixes are requested for
+     * @param context Diagnostics in the range
+     * @returns One quick fix per function with reported issues
+     */
+    public provideCodeActions(
+        document: vscode.TextDocument,
+        range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        const reported = this.reported.get(document.uri.toString()) ?? [];
+        const actions = new Map<DocumentableSymbol, vscode.CodeAction>();
+
+        for (const diagnostic of context.diagnostics) {
+            if (diagnostic.source !== DocumentationDiagnostics.SOURCE) {
+                continue;
+            }
+
+            // The diagnostics in the context are copies, so match them by position and message
+            const issue = reported.find(item =>
+                item.version === document.version &&
+                item.diagnostic.range.isEqual(diagnostic.range) &&
+                item.diagnostic.message === diagnostic.message);
+
+            if (!issue) {
+                continue;
+            }
+
+            let action = actions.get(issue.symbol);
+            if (!action) {
+                action = new vscode.CodeAction(`Update documentation of ${issue.symbol.name}`, vscode.CodeActionKind.QuickFix);
+                action.command = {
+                    title: action.title,
+                    command: 'gptDocAssistant.updateDoc',
+                    arguments: [issue.symbol]
+                };
+                action.diagnostics = [];
+                action.isPreferred = true;
+                actions.set(issue.symbol, action);
+            }
+
+            action.diagnostics!.push(diagnostic);
+        }
+
+        return [...actions.values()];
+    }
+
+    /**
+     * Analyze the documented functions of a document and replace its diagnostics
+     * @param document The document
+     */
+    private async refresh(document: vscode.TextDocument): Promise<void> {
+        const uri = document.uri.toString();
+
+        // Enabled per language through `"[language]": { "gptDocAssistant.diagnostics.enabled": ... }`
+        const enabled = vscode.workspace
+            .getConfiguration('gptDocAssistant.diagnostics', document)
+            .get<boolean>('enabled', true);
+
+        if (!enabled || !analyzedSchemes.includes(document.uri.scheme)) {
+            this.clear(document);
+            return;
+        }
+
+        try {
+            const version = document.version;
+            const symbols = await this.codeParser.findAllSymbols(document);
+
+            // A newer refresh is scheduled for the edited document
+            if (document.isClosed || document.version !== version) {
+                return;
+            }
+
+            const reported: ReportedIssue[] = [];
+            for (const symbol of symbols) {
+                for (const issue of this.documentationAnalyzer.findIssues(symbol)) {
+                    reported.push({ diagnostic: this.createDiagnostic(document, symbol, issue), symbol: symbol, version: version });
+                }
+            }
+
+            this.reported.set(uri, reported);
+            this.diagnostics.set(document.uri, reported.map(item => item.diagnostic));
+        } catch (error) {
+            this.logger.error(`Failed to analyze documentation of ${uri}: ${error}`);
+        }
+    }
+
+    /**
+     * Create the diagnostic of an issue, on the documentation line it refers to or, for missing
+     * entries, on the function's first line
+     * @param document The document
+     * @param symbol The documented function
+     * @param issue The issue found by the analyzer
+     * @returns The diagnostic
+     */
+    private createDiagnostic(
+        document: vscode.TextDocument,
+        symbol: DocumentableSymbol,
+        issue: DocumentationIssue
+    ): vscode.Diagnostic {
+        const line = issue.line !== undefined && symbol.documentationRange
+            ? symbol.documentationRange.start.line + issue.line
+            : symbol.startLine;
+
+        const text = document.lineAt(line).text;
+        const range = new vscode.Range(line, text.search(/\S|$/), line, text.length);
+
+        // Wrong documentation is a warning; missing entries are only information
+        const severity = issue.kind === 'unknownParameter' || issue.kind === 'unexpectedReturns'
+            ? vscode.DiagnosticSeverity.Warning
+            : vscode.DiagnosticSeverity.Information;
+
+        const diagnostic = new vscode.Diagnostic(range, issue.message, severity);
+        diagnostic.source = DocumentationDiagnostics.SOURCE;
+        diagnostic.code = issue.kind;
+
+        return diagnostic;
+    }
+
+    /**
+     * Analyze a document once typing pauses
+     * @param document The edited document
+     */
+    private scheduleRefresh(document: vscode.TextDocument): void {
+        if (!analyzedSchemes.includes(document.uri.scheme)) {
+            return;
+        }
+
+        const uri = document.uri.toString();
+
+        clearTimeout(this.refreshTimers.get(uri));
+        this.refreshTimers.set(uri, setTimeout(() => {
+            this.refreshTimers.delete(uri);
+            this.refresh(document);
+        }, refreshDelay));
+    }
+
+    /**
+     * Remove the diagnostics of a document
+     * @param document The document
+     */
+    private clear(document: vscode.TextDocument): void {
+        const uri = document.uri.toString();
+
+        clearTimeout(this.refreshTimers.get(uri));
+        this.refreshTimers.delete(uri);
+        this.reported.delete(uri);
+        this.diagnostics.delete(document.uri);
+    }
+}
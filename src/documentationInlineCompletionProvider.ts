@@ -0,0 +1,142 @@
+import * as vscode from 'vscode';
+import { CodeParser, DocumentableSymbol } from './codeParser';
+import { DocumentationProvider } from './documentationProvider';
+import { Logger } from './utils/logger';
+import { ResponseCache } from './utils/responseCache';
+
+// Wait for typing to pause before asking the model
+const debounceDelay = 400;
+
+// An opener on an otherwise empty line, possibly followed by the closing marker the editor
+// inserted automatically
+const openerPattern = /^(\s*)(\/\*\*|"""|\/\/\/)\s*(?:\*\/|""")?\s*$/;
+
+// Lines allowed between the opener and the symbol: blank lines and annotations or attributes
+const annotationPattern = /^\s*(?:$|@[\w.]+|\[.*\]\s*$|#!?\[.*\]\s*$)/;
+
+/**
+ * Offers generated documentation as ghost text after `/**`, `"""` or `///` is typed
+ */
+export class DocumentationInlineCompletionProvider implements vscode.InlineCompletionItemProvider {
+    private logger: Logger;
+    private codeParser: CodeParser;
+    private documentationProvider: DocumentationProvider;
+    private cache: ResponseCache<string>;
+
+    constructor(codeParser: CodeParser, documentationProvider: DocumentationProvider) {
+        this.logger = new Logger('DocumentationInlineCompletionProvider');
+        this.codeParser = codeParser;
+        this.documentationProvider = documentationProvider;
+        this.cache = new ResponseCache<string>(50);
+    }
+
+    /**
+     * Register the provider for all files
+     * @returns Disposable that unregisters the provider
+     */
+    public register(): vscode.Disposable {
+        return vscode.languages.registerInlineCompletionItemProvider(
+            [{ scheme: 'file' }, { scheme: 'untitled' }],
+            this
+        );
+    }
+
+    /**
+     * Offer documentation for the symbol below a doc comment opener (or, for a Python docstring,
+     * the function or class the opener starts the body of)
+     * @param document The document
+     * @param position The cursor position, right after the opener
+     * @param context Inline completion context
+     * @param token Cancellation token, cancelled when the user keeps typing
+     * @returns The documentation replacing the opener, or nothing
+     */
+    public async provideInlineCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        context: vscode.InlineCompletionContext,
+        token: vscode.CancellationToken
+    ): Promise<vscode.InlineCompletionItem[]> {
+        // Enabled per language through `"[language]": { "gptDocAssistant.inlineCompletion.enabled": ... }`
+        const enabled = vscode.workspace
+            .getConfiguration('gptDocAssistant.inlineCompletion', document)
+            .get<boolean>('enabled', true);
+
+        const line = document.lineAt(position.line).text;
+        const opener = openerPattern.exec(line);
+
+        if (!enabled || !opener || position.character < opener[1].length + opener[2].length) {
+            return [];
+        }
+
+        const symbol = this.findDocumentedSymbol(document, position.line, opener[2]);
+        if (!symbol) {
+            return [];
+        }
+
+        // Every keystroke cancels the previous request, so this only continues once typing pauses
+        await new Promise(resolve => setTimeout(resolve, debounceDelay));
+        if (token.isCancellationRequested) {
+            return [];
+        }
+
+        try {
+            // The request is not aborted when the user moves on: it still fills the cache, and the
+            // next time the opener is typed for this code the documentation appears right away.
+            // Changing the style or the standards changes the key, so older suggestions are not reused.
+            const style = await this.documentationProvider.getDocumentationStyle(symbol.language);
+            const key = ResponseCache.createKey(
+                symbol.language,
+                symbol.kind,
+                symbol.body,
+                style.id,
+                this.documentationProvider.getDocumentationStandards(symbol.language, style)
+            );
+            const documentation = await this.cache.getOrCreate(key, () => this.documentationProvider.generateDocumentation(symbol));
+
+            if (token.isCancellationRequested) {
+                return [];
+            }
+
+            const range = new vscode.Range(position.line, opener[1].length, position.line, line.length);
+            return [new vscode.InlineCompletionItem(this.indent(documentation, opener[1]), range)];
+        } catch (error) {
+            this.logger.error(`Failed to generate inline documentation for ${symbol.name}: ${error}`);
+            return [];
+        }
+    }
+
+    /**
+     * Find the symbol a doc comment opener on a line belongs to
+     * @param document The document
+     * @param line Line of the opener
+     * @param opener The typed opener
+     * @returns The undocumented symbol, or undefined when the opener is not in front of one
+     */
+    private findDocumentedSymbol(document: vscode.TextDocument, line: number, opener: string): DocumentableSymbol | undefined {
+        const symbols = this.codeParser.findSymbolsIgnoringLines(document, [line]);
+
+        // A docstring is the first statement of the body
+        if (opener === '"""') {
+            return symbols.find(symbol => symbol.bodyStartLine === line && !symbol.existingDocumentation);
+        }
+
+        const lines = document.getText().split('\n');
+        return symbols.find(symbol =>
+            symbol.startLine > line &&
+            !symbol.existingDocumentation &&
+            lines.slice(line + 1, symbol.startLine).every(text => annotationPattern.test(text)));
+    }
+
+    /**
+     * Indent the lines after the first, which continues the opener's line
+     * @param documentation Formatted documentation
+     * @param indentation Indentation of the opener
+     * @returns The documentation as it is inserted
+     */
+    private indent(documentation: string, indentation: string): string {
+        return documentation
+            .split('\n')
+            .map((text, index) => index > 0 && text ? indentation + text : text)
+            .join('\n');
+    }
+}
@@ -0,0 +1,194 @@
+import * as vscode from 'vscode';
+import { DocumentableSymbol } from './codeParser';
+
+/**
+ * Where formatted documentation goes and the exact text that is written there
+ */
+export interface PlacedDocumentation {
+    // Empty for an insertion
+    range: vscode.Range;
+    text: string;
+}
+
+/**
+ * Decides where documentation is written for a symbol and indents it to match the code
+ */
+export class DocumentationPlacement {
+    /**
+     * Place documentation for a symbol. Existing documentation is replaced as a whole block,
+     * keeping its indentation. New documentation goes above the symbol with the symbol's
+     * indentation, except Python docstrings, which go inside the body right after the (possibly
+     * multi-line) signature; one-line Python definitions are split so the docstring has a body to go in.
+     * @param document The document containing the symbol
+     * @param symbol The documented symbol
+     * @param formattedDocumentation Documentation in the language's comment syntax, ending with a line break
+     * @returns The range to replace and the replacement text
+     */
+    public place(
+        document: vscode.TextDocument,
+        symbol: DocumentableSymbol,
+        formattedDocumentation: string
+    ): PlacedDocumentation {
+        if (symbol.documentationRange) {
+            return this.replaceExisting(document, symbol.documentationRange, formattedDocumentation);
+        }
+
+        if (symbol.language === 'python' && symbol.kind !== 'module') {
+            if (symbol.bodyStartLine !== undefined) {
+                const position = new vscode.Position(symbol.bodyStartLine, 0);
+                return {
+                    range: new vscode.Range(position, position),
+                    text: this.indent(formattedDocumentation, this.getPythonBodyIndentation(document, symbol))
+                };
+            }
+
+            const oneLiner = this.placeInOneLiner(document, symbol, formattedDocumentation);
+            if (oneLiner) {
+                return oneLiner;
+            }
+        }
+
+        const position = new vscode.Position(symbol.startLine, 0);
+        return {
+            range: new vscode.Range(position, position),
+            text: this.indent(formattedDocumentation, this.getIndentation(document.lineAt(symbol.startLine).text))
+        };
+    }
+
+    /**
+     * Replace every line of existing documentation. When code follows the documentation on its
+     * last line, only the documentation itself is replaced and the code moves to the next line.
+     * @param document The document containing the documentation
+     * @param documentationRange Exact range of the existing documentation
+     * @param formattedDocumentation Documentation ending with a line break
+     * @returns The replacement
+     */
+    private replaceExisting(
+        document: vscode.TextDocument,
+        documentationRange: vscode.Range,
+        formattedDocumentation: string
+    ): PlacedDocumentation {
+        const indentation = this.getIndentation(document.lineAt(documentationRange.start.line).text);
+        const text = this.indent(formattedDocumentation, indentation);
+        const start = new vscode.Position(documentationRange.start.line, 0);
+        const endLine = document.lineAt(documentationRange.end.line).text;
+
+        if (endLine.substring(documentationRange.end.character).trim() !== '') {
+            return { range: new vscode.Range(start, documentationRange.end), text: text + indentation };
+        }
+
+        return { range: new vscode.Range(start, new vscode.Position(documentationRange.end.line + 1, 0)), text: text };
+    }
+
+    /**
+     * Place a docstring in a one-line definition such as `def f(x): return x` by moving the
+     * statement after the colon to its own line below the docstring
+     * @param document The document containing the definition
+     * @param symbol A Python function or class without body lines
+     * @param formattedDocumentation Docstring ending with a line break
+     * @returns The replacement, or undefined when the header colon cannot be found
+     */
+    private placeInOneLiner(
+        document: vscode.TextDocument,
+        symbol: DocumentableSymbol,
+        formattedDocumentation: string
+    ): PlacedDocumentation | undefined {
+        const colon = this.findHeaderColon(document, symbol);
+        if (!colon) {
+            return undefined;
+        }
+
+        const colonLine = document.lineAt(colon.line).text;
+        const statementStart = colonLine.substring(colon.character + 1).search(/\S/);
+        if (statementStart === -1) {
+            return undefined;
+        }
+
+        // One level deeper than the definition
+        const bodyIndentation = this.getIndentation(document.lineAt(this.findDefinitionLine(document, symbol)).text) + '    ';
+
+        return {
+            range: new vscode.Range(colon.line, colon.character + 1, colon.line, colon.character + 1 + statementStart),
+            text: '\n' + this.indent(formattedDocumentation, bodyIndentation) + bodyIndentation
+        };
+    }
+
+    /**
+     * Find the colon that ends a Python header. The parsed signature ends with that colon and
+     * differs from the source only in whitespace, so the colon is the source character at which
+     * as many non-whitespace characters have been read as the signature contains.
+     * @param document The document containing the definition
+     * @param symbol A Python function or class
+     * @returns Position of the colon, or undefined when the source does not match the signature
+     */
+    private findHeaderColon(document: vscode.TextDocument, symbol: DocumentableSymbol): vscode.Position | undefined {
+        let remaining = symbol.signature.replace(/\s/g, '').length;
+
+        for (let line = this.findDefinitionLine(document, symbol); line <= symbol.endLine; line++) {
+            const text = document.lineAt(line).text;
+            for (let character = 0; character < text.length; character++) {
+                if (/\S/.test(text[character]) && --remaining === 0) {
+                    return text[character] === ':' ? new vscode.Position(line, character) : undefined;
+                }
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Find the `def` or `class` line of a Python definition, below its decorators
+     * @param document The document containing the definition
+     * @param symbol A Python function or class
+     * @returns Line of the `def` or `class` keyword
+     */
+    private findDefinitionLine(document: vscode.TextDocument, symbol: DocumentableSymbol): number {
+        for (let line = symbol.startLine; line <= symbol.endLine; line++) {
+            if (/^\s*(?:async\s+)?(?:def|class)\b/.test(document.lineAt(line).text)) {
+                return line;
+            }
+        }
+
+        return symbol.startLine;
+    }
+
+    /**
+     * Find the indentation of a Python body
+     * @param document The document containing the symbol
+     * @param symbol A Python function or class
+     * @returns Indentation of the first body statement
+     */
+    private getPythonBodyIndentation(document: vscode.TextDocument, symbol: DocumentableSymbol): string {
+        for (let line = symbol.bodyStartLine ?? symbol.startLine; line <= symbol.endLine; line++) {
+            const text = document.lineAt(line).text;
+            if (text.trim() !== '') {
+                return this.getIndentation(text);
+            }
+        }
+
+        // Empty body: one level deeper than the definition
+        return this.getIndentation(document.lineAt(this.findDefinitionLine(document, symbol)).text) + '    ';
+    }
+
+    /**
+     * Get the leading whitespace of a line
+     * @param text Line text
+     * @returns The indentation
+     */
+    private getIndentation(text: string): string {
+        return text.substring(0, text.search(/\S|$/));
+    }
+
+    /**
+     * Indent every non-empty line of a text
+     * @param text Text to indent
+     * @param indentation Leading whitespace to add
+     * @returns The indented text
+     */
+    private indent(text: string, indentation: string): string {
+        return text
+            .split('\n')
+            .map(line => line ? indentation + line : line)
+            .join('\n');
+    }
+}
@@ -0,0 +1,188 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Logger } from './utils/logger';
+
+// Minimum time between two updates of a preview while documentation streams in
+const updateInterval = 100;
+
+export class DocumentationPreview implements vscode.TextDocumentContentProvider {
+    public static readonly SCHEME = 'gptdoc-preview';
+
+    private logger: Logger;
+    private contents: Map<string, string> = new Map();
+    private previewCount = 0;
+    private changeEmitter: vscode.EventEmitter<vscode.Uri>;
+    private updateTimers: Map<string, NodeJS.Timeout> = new Map();
+
+    public readonly onDidChange: vscode.Event<vscode.Uri>;
+
+    constructor() {
+        this.logger = new Logger('DocumentationPreview');
+        this.changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+        this.onDidChange = this.changeEmitter.event;
+    }
+
+    /**
+     * Register the provider of the proposed file contents shown on the right side of the diff
+     * @returns Disposable that unregisters the provider
+     */
+    public register(): vscode.Disposable {
+        return vscode.Disposable.from(
+            vscode.workspace.registerTextDocumentContentProvider(DocumentationPreview.SCHEME, this),
+            this.changeEmitter
+        );
+    }
+
+    /**
+     * Provide the proposed contents of a preview document
+     * @param uri Preview URI
+     * @returns The document text with the documentation edit applied
+     */
+    public provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.contents.get(uri.toString()) ?? '';
+    }
+
+    /**
+     * Show generated documentation as a side-by-side diff and let the user accept, reject or
+     * regenerate it. The diff opens before generation starts and shows the documentation as it
+     * streams in. The edit is only applied once accepted.
+     * @param document The document the documentation is for
+     * @param title Title of the diff editor
+     * @param createEdit Generates the documentation and returns the edit that places it; calls
+     * `showPartial` with the edit for the text received so far
+     * @returns True when the edit was accepted and applied; false when it was rejected or the
+     * generation was cancelled
+     */
+    public async review(
+        document: vscode.TextDocument,
+        title: string,
+        createEdit: (showPartial: (edit: vscode.WorkspaceEdit) => void) => Thenable<vscode.WorkspaceEdit>
+    ): Promise<boolean> {
+        while (true) {
+            const version = document.version;
+            const previewUri = this.createPreviewUri(document);
+
+            this.contents.set(previewUri.toString(), document.getText());
+            await vscode.commands.executeCommand('vscode.diff', document.uri, previewUri, title, { preview: true });
+
+            let edit: vscode.WorkspaceEdit;
+            try {
+                edit = await createEdit(partialEdit => this.updatePreview(previewUri, document, partialEdit));
+            } catch (error) {
+                await this.closePreview(previewUri);
+
+                if (error instanceof vscode.CancellationError) {
+                    this.logger.info(`Cancelled ${title}`);
+                    return false;
+                }
+                throw error;
+            }
+
+            this.updatePreview(previewUri, document, edit);
+
+            const choice = await vscode.window.showInformationMessage(
+                `Review the proposed documentation: ${title}`,
+                'Accept',
+                'Regenerate',
+                'Reject'
+            );
+
+            await this.closePreview(previewUri);
+
+            if (choice === 'Regenerate') {
+                continue;
+            }
+
+            if (choice !== 'Accept') {
+                this.logger.info(`Rejected ${title}`);
+                return false;
+            }
+
+            // The edit positions refer to the text that was shown in the diff
+            if (document.version !== version) {
+                vscode.window.showWarningMessage('The file changed during the review. The documentation was not applied.');
+                return false;
+            }
+
+            return await vscode.workspace.applyEdit(edit);
+        }
+    }
+
+    /**
+     * Show the text a document would have after an edit. While documentation streams in, the
+     * preview is updated at most every `updateInterval` milliseconds.
+     * @param previewUri Preview URI
+     * @param document The document
+     * @param edit The edit to preview
+     */
+    private updatePreview(previewUri: vscode.Uri, document: vscode.TextDocument, edit: vscode.WorkspaceEdit): void {
+        const key = previewUri.toString();
+        this.contents.set(key, this.applyToText(document, edit));
+
+        if (!this.updateTimers.has(key)) {
+            this.updateTimers.set(key, setTimeout(() => {
+                this.updateTimers.delete(key);
+                this.changeEmitter.fire(previewUri);
+            }, updateInterval));
+        }
+    }
+
+    /**
+     * Create a unique URI for a preview of a document, so every generation gets a fresh diff
+     * @param document The previewed document
+     * @returns Preview URI with the same file name (and so the same syntax highlighting)
+     */
+    private createPreviewUri(document: vscode.TextDocument): vscode.Uri {
+        this.previewCount++;
+        const fileName = path.basename(document.uri.path) || 'untitled';
+
+        return vscode.Uri.from({
+            scheme: DocumentationPreview.SCHEME,
+            path: `/${this.previewCount}/${fileName}`
+        });
+    }
+
+    /**
+     * Compute the text of a document after an edit, without changing the document
+     * @param document The document
+     * @param edit Edit containing changes to the document
+     * @returns The changed text
+     */
+    private applyToText(document: vscode.TextDocument, edit: vscode.WorkspaceEdit): string {
+        let text = document.getText();
+
+        // Apply from the end so earlier offsets stay valid; inserts at the same position are
+        // applied in reverse so they appear in the order they were added
+        const changes = edit.get(document.uri)
+            .map((change, index) => ({
+                start: document.offsetAt(change.range.start),
+                end: document.offsetAt(change.range.end),
+                newText: change.newText,
+                index: index
+            }))
+            .sort((a, b) => b.start - a.start || b.index - a.index);
+
+        for (const change of changes) {
+            text = text.substring(0, change.start) + change.newText + text.substring(change.end);
+        }
+
+        return text;
+    }
+
+    /**
+     * Close the diff editor of a preview and forget its contents
+     * @param previewUri Preview URI shown on the right side of the diff
+     */
+    private async closePreview(previewUri: vscode.Uri): Promise<void> {
+        clearTimeout(this.updateTimers.get(previewUri.toString()));
+        this.updateTimers.delete(previewUri.toString());
+        this.contents.delete(previewUri.toString());
+
+        const tabs = vscode.window.tabGroups.all
+            .flatMap(group => group.tabs)
+            .filter(tab => tab.input instanceof vscode.TabInputTextDiff &&
+                tab.input.modified.toString() === previewUri.toString());
+
+        await vscode.window.tabGroups.close(tabs);
+    }
+}
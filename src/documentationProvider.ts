@@ -1,99 +1,265 @@
 import * as vscode from 'vscode';
-import { OpenAIService } from './openaiService';
+import { GenerationOptions, OpenAIService } from './openaiService';
 import { ContextExtractor } from './contextExtractor';
 import { RAGSystem } from './ragSystem';
+import { DocumentableSymbol, SymbolKind } from './codeParser';
+import { DocModel, parsePartialDocModel } from './languages/docModel';
+import { LanguageRegistry } from './languages/languageRegistry';
+import { DocStyle } from './languages/languageSupport';
+import { DocumentationStyleResolver } from './documentationStyleResolver';
+import { DocumentationValidator } from './documentationValidator';
 import { Logger } from './utils/logger';
 
 export class DocumentationProvider {
     private openaiService: OpenAIService;
     private contextExtractor: ContextExtractor;
     private ragSystem: RAGSystem;
+    private languageRegistry: LanguageRegistry;
+    private documentationStyles: DocumentationStyleResolver;
+    private documentationValidator: DocumentationValidator;
     private logger: Logger;
 
-    // Documentation standards for different languages
-    private defaultDocumentationStandards: { [key: string]: string } = {
-        'javascript': 'Use JSDoc format. Include @param, @returns, and @throws tags.',
-        'typescript': 'Use TypeScript-specific JSDoc. Include type information and detailed parameter descriptions.',
-        'python': 'Follow PEP 257 docstring conventions. Use Google or NumPy docstring style.',
-        'java': 'Use JavaDoc format. Include @param, @return, and @throws tags.',
-        'csharp': 'Use XML documentation comments. Include <summary>, <param>, <returns>, and <exception> tags.',
-        'default': 'Provide clear, concise documentation explaining the function\'s purpose, parameters, and return value.'
-    };
-
     constructor(
         openaiService: OpenAIService, 
         contextExtractor: ContextExtractor,
-        ragSystem: RAGSystem
+        ragSystem: RAGSystem,
+        languageRegistry: LanguageRegistry = LanguageRegistry.getDefault(),
+        documentationStyles: DocumentationStyleResolver = new DocumentationStyleResolver(languageRegistry),
+        documentationValidator: DocumentationValidator = new DocumentationValidator(languageRegistry)
     ) {
         this.openaiService = openaiService;
         this.contextExtractor = contextExtractor;
         this.ragSystem = ragSystem;
+        this.languageRegistry = languageRegistry;
+        this.documentationStyles = documentationStyles;
+        this.documentationValidator = documentationValidator;
         this.logger = new Logger('DocumentationProvider');
     }
 
     /**
-     * Generate documentation for a given function
-     * @param functionInfo Function information
-     * @returns Generated documentation string
+     * Generate documentation for a given symbol
+     * @param functionInfo Symbol information
+     * @param options Cancellation token and streaming callback; the callback receives formatted documentation
+     * @returns Generated documentation string, checked against the symbol's signature
      */
-    public async generateDocumentation(functionInfo: FunctionInfo): Promise<string> {
+    public async generateDocumentation(functionInfo: DocumentableSymbol, options: GenerationOptions = {}): Promise<string> {
         try {
             // Extract project context
-            const projectContext = await this.ragSystem.extractProjectContext(functionInfo.language);
+            const projectContext = await this.getProjectContext(functionInfo);
 
-            // Get documentation standards for the language
-            const documentationStandards = this.getDocumentationStandards(functionInfo.language);
+            // Get the documentation style and standards for the language
+            const style = await this.getDocumentationStyle(functionInfo.language);
+            const documentationStandards = this.getDocumentationStandards(functionInfo.language, style);
 
             // Generate documentation
             const documentation = await this.openaiService.generateDocumentation(
                 functionInfo.body,
                 functionInfo.language,
                 projectContext,
-                documentationStandards
+                documentationStandards,
+                functionInfo,
+                this.formatProgress(functionInfo, style, options)
             );
 
-            return this.formatDocumentation(documentation, functionInfo.language);
+            return await this.validateDocumentation(functionInfo, documentation, style, options);
         } catch (error) {
-            this.logger.error(`Documentation generation error: ${error}`);
+            if (!(error instanceof vscode.CancellationError)) {
+                this.logger.error(`Documentation generation error: ${error}`);
+            }
             throw error;
         }
     }
 
     /**
      * Update existing documentation
-     * @param functionInfo Function information
+     * @param functionInfo Symbol information
      * @param existingDocumentation Current documentation
-     * @returns Updated documentation string
+     * @param options Cancellation token and streaming callback; the callback receives formatted documentation
+     * @returns Updated documentation string, checked against the symbol's signature
      */
     public async updateDocumentation(
-        functionInfo: FunctionInfo, 
-        existingDocumentation: string
+        functionInfo: DocumentableSymbol, 
+        existingDocumentation: string,
+        options: GenerationOptions = {}
     ): Promise<string> {
         try {
             // Extract project context
-            const projectContext = await this.ragSystem.extractProjectContext(functionInfo.language);
+            const projectContext = await this.getProjectContext(functionInfo);
+            const style = await this.getDocumentationStyle(functionInfo.language);
 
             // Update documentation
             const updatedDocumentation = await this.openaiService.updateDocumentation(
                 functionInfo.body,
                 existingDocumentation,
                 functionInfo.language,
-                projectContext
+                projectContext,
+                this.getDocumentationStandards(functionInfo.language, style),
+                functionInfo,
+                this.formatProgress(functionInfo, style, options)
             );
 
-            return this.formatDocumentation(updatedDocumentation, functionInfo.language);
+            return await this.validateDocumentation(functionInfo, updatedDocumentation, style, options);
         } catch (error) {
-            this.logger.error(`Documentation update error: ${error}`);
+            if (!(error instanceof vscode.CancellationError)) {
+                this.logger.error(`Documentation update error: ${error}`);
+            }
             throw error;
         }
     }
 
+    /**
+     * Explain a symbol without producing documentation
+     * @param functionInfo Symbol information
+     * @param options Cancellation token and streaming callback
+     * @returns Markdown explanation
+     */
+    public async explain(functionInfo: DocumentableSymbol, options: GenerationOptions = {}): Promise<string> {
+        try {
+            // Extract project context
+            const projectContext = await this.getProjectContext(functionInfo);
+
+            return await this.openaiService.explainCode(
+                functionInfo.body,
+                functionInfo.language,
+                projectContext,
+                functionInfo,
+                options
+            );
+        } catch (error) {
+            if (!(error instanceof vscode.CancellationError)) {
+                this.logger.error(`Explanation error: ${error}`);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Collect the project context sent with a request: a short description of the workspace
+     * followed by related declarations from the project's files. How much is sent is set by
+     * `gptDocAssistant.context.maxLength`; 0 sends no context and skips reading the project.
+     * @param functionInfo Symbol the request is for
+     * @returns Project context, at most the configured number of characters long
+     */
+    private async getProjectContext(functionInfo: DocumentableSymbol): Promise<string> {
+        const maxLength = vscode.workspace
+            .getConfiguration('gptDocAssistant.context')
+            .get<number>('maxLength', 2000);
+
+        if (maxLength <= 0) {
+            return '';
+        }
+
+        const description = vscode.workspace.workspaceFolders?.length
+            ? this.contextExtractor.generateProjectDescription()
+            : '';
+
+        const remainingLength = maxLength - description.length - 2;
+        const projectContext = remainingLength > 0
+            ? await this.ragSystem.extractProjectContext(functionInfo.language, remainingLength)
+            : '';
+
+        return [description, projectContext]
+            .filter(part => part)
+            .join('\n\n')
+            .substring(0, maxLength);
+    }
+
+    /**
+     * Check generated documentation against the symbol before it is rendered. Phantom parameters
+     * and a return value documented for a function that returns nothing are removed and
+     * parameters are put in signature order; missing
+     * parameters or return values are sent back to the model, at most
+     * `gptDocAssistant.validation.maxRepairs` times.
+     * @param functionInfo The documented symbol
+     * @param documentation Generated doc model
+     * @param style Style the documentation is rendered in
+     * @param options Cancellation token and streaming callback, also used for repair requests
+     * @returns The rendered documentation
+     * @throws Error listing the problems left when they cannot be repaired
+     */
+    private async validateDocumentation(
+        functionInfo: DocumentableSymbol,
+        documentation: DocModel,
+        style: DocStyle,
+        options: GenerationOptions
+    ): Promise<string> {
+        const maxRepairs = vscode.workspace
+            .getConfiguration('gptDocAssistant.validation')
+            .get<number>('maxRepairs', 1);
+
+        for (let repairs = 0; ; repairs++) {
+            const fixed = this.documentationValidator.validate(
+                documentation,
+                this.renderDocumentation(documentation, functionInfo.language, style, functionInfo.kind),
+                functionInfo
+            ).filter(problem => this.documentationValidator.isFixable(problem));
+
+            if (fixed.length > 0) {
+                this.logger.info(`Fixed the documentation of ${functionInfo.name}: ${fixed.map(problem => problem.message).join('; ')}`);
+            }
+            documentation = this.documentationValidator.fix(documentation, functionInfo);
+
+            const formattedDocumentation = this.renderDocumentation(documentation, functionInfo.language, style, functionInfo.kind);
+            const problems = this.documentationValidator.validate(documentation, formattedDocumentation, functionInfo);
+            if (problems.length === 0) {
+                return formattedDocumentation;
+            }
+
+            const messages = problems.map(problem => problem.message);
+            if (repairs >= maxRepairs || !problems.every(problem => this.documentationValidator.isRepairable(problem))) {
+                throw new Error(`The documentation of ${functionInfo.name} does not match its code: ${messages.join('; ')}`);
+            }
+
+            this.logger.warning(`Repairing the documentation of ${functionInfo.name} (${repairs + 1}/${maxRepairs}): ${messages.join('; ')}`);
+            documentation = await this.openaiService.repairDocumentation(
+                functionInfo.body,
+                functionInfo.language,
+                documentation,
+                messages,
+                functionInfo,
+                this.formatProgress(functionInfo, style, options)
+            );
+        }
+    }
+
+    /**
+     * Wrap the streaming callback so it receives the partial documentation already rendered.
+     * Updates are skipped while the JSON received so far cannot be read.
+     * @param functionInfo Symbol the documentation is for
+     * @param style Style the documentation is rendered in
+     * @param options Options passed by the caller
+     * @returns Options for the OpenAI service
+     */
+    private formatProgress(functionInfo: DocumentableSymbol, style: DocStyle, options: GenerationOptions): GenerationOptions {
+        const onProgress = options.onProgress;
+
+        return {
+            token: options.token,
+            onProgress: onProgress && (text => {
+                const documentation = parsePartialDocModel(text);
+                if (documentation) {
+                    onProgress(this.renderDocumentation(documentation, functionInfo.language, style, functionInfo.kind));
+                }
+            })
+        };
+    }
+
+    /**
+     * Get the doc comment style documentation is written in for a language
+     * @param language Programming language
+     * @returns The configured or detected style
+     */
+    public getDocumentationStyle(language: string): Promise<DocStyle> {
+        return this.documentationStyles.resolve(language);
+    }
+
     /**
      * Get documentation standards for a specific language
      * @param language Programming language
+     * @param style Style the documentation is written in
      * @returns Documentation standards string
      */
-    private getDocumentationStandards(language: string): string {
+    public getDocumentationStandards(language: string, style: DocStyle): string {
         // First, check for custom standards in VSCode settings
         const config = vscode.workspace.getConfiguration('gptDocAssistant');
         const customStandards = config.get<{ [key: string]: string }>('documentationStandards');
@@ -103,114 +269,80 @@ export class DocumentationProvider {
             return customStandards[language];
         }
 
-        // Fall back to default standards
-        return this.defaultDocumentationStandards[language] || 
-               this.defaultDocumentationStandards['default'];
+        // Fall back to the standards of the style
+        return style.documentationStandards;
     }
 
     /**
-     * Format documentation based on the programming language
-     * @param documentation Generated documentation text
+     * Render a doc model in a doc comment style, in the comment syntax of a language
+     * @param documentation Doc model
      * @param language Programming language
-     * @returns Formatted documentation string
+     * @param style Style to render in; see `getDocumentationStyle`
+     * @param kind Kind of symbol the documentation belongs to
+     * @returns Doc comment
      */
-    private formatDocumentation(documentation: string, language: string): string {
-        switch (language) {
-            case 'javascript':
-            case 'typescript':
-            case 'javascriptreact':
-            case 'typescriptreact':
-                // JSDoc style
-                return this.formatJSDocDocumentation(documentation);
-            
-            case 'python':
-                // Python docstring style
-                return this.formatPythonDocstring(documentation);
-            
-            case 'java':
-            case 'csharp':
-                // JavaDoc style
-                return this.formatJavaDocDocumentation(documentation);
-            
-            default:
-                // Generic comment style
-                return this.formatGenericDocumentation(documentation);
-        }
+    public renderDocumentation(
+        documentation: DocModel,
+        language: string,
+        style: DocStyle,
+        kind: SymbolKind = 'function'
+    ): string {
+        return this.languageRegistry.get(language).formatter.wrap(style.renderer.render(documentation, kind), kind);
     }
 
     /**
-     * Format documentation in JSDoc style
-     * @param documentation Documentation text
-     * @returns JSDoc formatted documentation
+     * Format free text documentation, such as an explanation, based on the programming language
+     * and the kind of symbol
+     * @param documentation Generated documentation text
+     * @param language Programming language
+     * @param kind Kind of symbol the documentation belongs to
+     * @returns Formatted documentation string
      */
-    private formatJSDocDocumentation(documentation: string): string {
-        // Remove any existing code block markers or extra text
-        const cleanedDoc = documentation
-            .replace(/```.*\n|Sure, here is the updated documentation:\n/g, '')
-            .replace(/^\/\*\*|\*\/$/gm, '')
-            .trim();
-        
-        // Split into lines and add JSDoc formatting
-        const lines = cleanedDoc.split('\n').map(line => line.trim());
-        const formattedLines = lines.map((line, index) => {
-            if (index === 0) return `/**\n * ${line}`;
-            if (index === lines.length - 1) return ` * ${line}\n */`;
-            return ` * ${line}`;
-        });
-    
-        return formattedLines.join('\n');
-    }
+    public formatDocumentation(
+        documentation: string,
+        language: string,
+        kind: SymbolKind = 'function'
+    ): string {
+        if (kind === 'enum') {
+            documentation = this.formatEnumMembers(documentation);
+        }
 
-    /**
-     * Format documentation in Python docstring style
-     * @param documentation Documentation text
-     * @returns Python docstring formatted documentation
-     */
-    private formatPythonDocstring(documentation: string): string {
-        // Use triple quotes for docstring
-        return `"""\n${documentation.trim()}\n"""`;
+        return this.languageRegistry.get(language).formatter.format(documentation, kind);
     }
 
     /**
-     * Format documentation in JavaDoc style
+     * Normalize enum member descriptions into a `- MEMBER: description` list,
+     * separated from the summary by a blank line
      * @param documentation Documentation text
-     * @returns JavaDoc formatted documentation
+     * @returns Enum documentation text
      */
-    private formatJavaDocDocumentation(documentation: string): string {
-        // Remove any existing JavaDoc formatting
-        const cleanedDoc = documentation.replace(/^\/\*\*|\*\/$/gm, '').trim();
-        
-        // Split into lines and add JavaDoc formatting
-        const lines = cleanedDoc.split('\n');
-        const formattedLines = lines.map((line, index) => {
-            if (index === 0) return `/** ${line}`;
-            if (index === lines.length - 1) return ` * ${line} */`;
-            return ` * ${line}`;
-        });
-
-        return formattedLines.join('\n');
+    private formatEnumMembers(documentation: string): string {
+        const memberPattern = /^\s*(?:[-*]\s*)?`?([A-Za-z_][A-Za-z0-9_]*)`?\s*(?::|-|—)\s+(.+)$/;
+        const summary: string[] = [];
+        const members: string[] = [];
+
+        for (const line of this.removeCodeFences(documentation).split('\n')) {
+            const match = memberPattern.exec(line);
+            if (match && (members.length > 0 || summary.some(text => text.trim() !== ''))) {
+                members.push(`- ${match[1]}: ${match[2].trim()}`);
+            } else if (members.length === 0) {
+                summary.push(line);
+            }
+        }
+
+        if (members.length === 0) {
+            return summary.join('\n');
+        }
+
+        return [summary.join('\n').trim(), '', ...members].join('\n');
     }
 
     /**
-     * Format documentation in generic comment style
+     * Remove markdown code fences the model sometimes wraps around its answer
      * @param documentation Documentation text
-     * @returns Generic comment formatted documentation
+     * @returns Documentation without code fences
      */
-    private formatGenericDocumentation(documentation: string): string {
-        // Generic single-line comment style
-        return documentation.split('\n')
-            .map(line => `// ${line}`)
-            .join('\n');
+    private removeCodeFences(documentation: string): string {
+        return documentation.replace(/```.*\n?/g, '').trim();
     }
 }
-
-// Define FunctionInfo interface for type safety
-interface FunctionInfo {
-    name: string;
-    signature: string;
-    body: string;
-    startLine: number;
-    endLine: number;
-    language: string;
-    existingDocumentation?: string | null;
-}
\ No newline at end of file
@@ -0,0 +1,105 @@
+import * as vscode from 'vscode';
+import { LanguageRegistry } from './languages/languageRegistry';
+import { DocStyle } from './languages/languageSupport';
+import { Logger } from './utils/logger';
+
+// Files read to detect the style of a project, per language
+const maxDetectionFiles = 100;
+
+/**
+ * Decides the doc comment style of a language: the configured `gptDocAssistant.documentationStyle`,
+ * or with "auto" the style the project's existing documentation is written in
+ */
+export class DocumentationStyleResolver {
+    private logger: Logger;
+    private languageRegistry: LanguageRegistry;
+    // Detected style per language, detected once per session
+    private detectedStyles: Map<string, Promise<DocStyle>> = new Map();
+
+    constructor(languageRegistry: LanguageRegistry = LanguageRegistry.getDefault()) {
+        this.logger = new Logger('DocumentationStyleResolver');
+        this.languageRegistry = languageRegistry;
+    }
+
+    /**
+     * Get the style documentation is written in for a language
+     * @param languageId VS Code language identifier
+     * @returns The configured style, or the detected style when the setting is "auto" or names a
+     * style the language does not have
+     */
+    public async resolve(languageId: string): Promise<DocStyle> {
+        const styles = this.languageRegistry.get(languageId).styles;
+        const configured = vscode.workspace
+            .getConfiguration('gptDocAssistant', { languageId: languageId })
+            .get<string>('documentationStyle', 'auto');
+
+        if (configured !== 'auto') {
+            const style = styles.find(candidate => candidate.id === configured);
+            if (style) {
+                return style;
+            }
+            this.logger.warning(`Documentation style "${configured}" is not available for ${languageId}; detecting it instead`);
+        }
+
+        if (styles.length === 1 || !vscode.workspace.workspaceFolders?.length) {
+            return styles[0];
+        }
+
+        let detected = this.detectedStyles.get(languageId);
+        if (!detected) {
+            detected = this.detect(languageId);
+            this.detectedStyles.set(languageId, detected);
+        }
+
+        return detected;
+    }
+
+    /**
+     * Pick the style most of the given files are documented in
+     * @param languageId VS Code language identifier
+     * @param texts Contents of files of the language
+     * @returns The style matched by the most files; the language's default style when none match
+     * or when styles are matched equally often
+     */
+    public pickStyle(languageId: string, texts: string[]): DocStyle {
+        const styles = this.languageRegistry.get(languageId).styles;
+        let best = styles[0];
+        let bestCount = 0;
+
+        for (const style of styles) {
+            const count = style.pattern ? texts.filter(text => style.pattern!.test(text)).length : 0;
+            if (count > bestCount) {
+                best = style;
+                bestCount = count;
+            }
+        }
+
+        return best;
+    }
+
+    /**
+     * Detect the style of a language from the workspace's files
+     * @param languageId VS Code language identifier
+     * @returns The detected style, or the default style when the files cannot be read
+     */
+    private async detect(languageId: string): Promise<DocStyle> {
+        const extensions = this.languageRegistry.getFileExtensions(languageId);
+
+        try {
+            const uris = await vscode.workspace.findFiles(
+                `**/*{${extensions.join(',')}}`,
+                '**/{node_modules,dist,out,build,target,vendor,.git}/**',
+                maxDetectionFiles
+            );
+            const decoder = new TextDecoder();
+            const texts = await Promise.all(uris.map(async uri => decoder.decode(await vscode.workspace.fs.readFile(uri))));
+
+            const style = this.pickStyle(languageId, texts);
+            this.logger.info(`Detected ${style.label} documentation for ${languageId} in ${texts.length} files`);
+            return style;
+        } catch (error) {
+            this.logger.error(`Failed to detect the documentation style of ${languageId}: ${error}`);
+            return this.languageRegistry.get(languageId).styles[0];
+        }
+    }
+}
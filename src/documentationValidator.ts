@@ -0,0 +1,218 @@
+import { DocumentableSymbol } from './codeParser';
+import { returnsNothing } from './documentationAnalyzer';
+import { DocModel } from './languages/docModel';
+import { LanguageRegistry } from './languages/languageRegistry';
+import { DocComment } from './languages/languageSupport';
+
+export type DocumentationProblemKind =
+    'missingParameter' |
+    'phantomParameter' |
+    'missingReturns' |
+    'unexpectedReturns' |
+    'invalidSyntax';
+
+export interface DocumentationProblem {
+    kind: DocumentationProblemKind;
+    message: string;
+    // Parameter the problem is about, or the symbol name
+    name: string;
+}
+
+// Problems `fix` removes without the model
+const fixableKinds: DocumentationProblemKind[] = ['phantomParameter', 'unexpectedReturns'];
+
+// Problems the model has to fix, because the missing text can only be written by it
+const repairableKinds: DocumentationProblemKind[] = ['missingParameter', 'missingReturns'];
+
+/**
+ * Checks generated documentation against the parsed symbol before it is inserted: every
+ * parameter documented, no phantom parameters, a return value exactly when the function returns
+ * one, and a doc comment the language recognizes as documentation
+ */
+export class DocumentationValidator {
+    private languageRegistry: LanguageRegistry;
+
+    /**
+     * @param languageRegistry Registry whose doc comment detectors check the comment syntax
+     */
+    constructor(languageRegistry: LanguageRegistry = LanguageRegistry.getDefault()) {
+        this.languageRegistry = languageRegistry;
+    }
+
+    /**
+     * Find the ways in which generated documentation does not match its symbol
+     * @param documentation Generated doc model
+     * @param formattedDocumentation The doc model rendered as a doc comment
+     * @param symbol The documented symbol
+     * @returns Problems found; empty when the documentation can be inserted
+     */
+    public validate(documentation: DocModel, formattedDocumentation: string, symbol: DocumentableSymbol): DocumentationProblem[] {
+        return [
+            ...this.findParameterProblems(documentation, symbol),
+            ...this.findReturnProblems(documentation, symbol),
+            ...this.findSyntaxProblems(formattedDocumentation, symbol)
+        ];
+    }
+
+    /**
+     * Fix what can be fixed without the model: drop phantom parameters and a documented return
+     * value of a function that returns nothing, and put parameters in signature order
+     * @param documentation Generated doc model
+     * @param symbol The documented symbol
+     * @returns The fixed doc model
+     */
+    public fix(documentation: DocModel, symbol: DocumentableSymbol): DocModel {
+        const actual = this.getParameterNames(symbol);
+        const fixed = { ...documentation };
+
+        if (actual) {
+            const position = (name: string) => actual.indexOf(this.getBaseName(name));
+            fixed.params = documentation.params
+                .filter(param => position(param.name) !== -1)
+                .sort((a, b) => position(a.name) - position(b.name));
+        }
+
+        if (this.returnsValue(symbol) === false) {
+            fixed.returns = undefined;
+        }
+
+        return fixed;
+    }
+
+    /**
+     * Check whether a problem is removed by `fix`
+     * @param problem A problem found by `validate`
+     * @returns True for phantom parameters and unexpected return value documentation
+     */
+    public isFixable(problem: DocumentationProblem): boolean {
+        return fixableKinds.includes(problem.kind);
+    }
+
+    /**
+     * Check whether a problem needs a repair request to the model
+     * @param problem A problem found by `validate`
+     * @returns True for missing parameter and return value documentation
+     */
+    public isRepairable(problem: DocumentationProblem): boolean {
+        return repairableKinds.includes(problem.kind);
+    }
+
+    /**
+     * Compare documented parameters with the signature
+     * @param documentation Generated doc model
+     * @param symbol The documented symbol
+     * @returns Missing and phantom parameters
+     */
+    private findParameterProblems(documentation: DocModel, symbol: DocumentableSymbol): DocumentationProblem[] {
+        const actual = this.getParameterNames(symbol);
+        if (!actual) {
+            return [];
+        }
+
+        const documented = documentation.params.map(param => param.name);
+        const problems: DocumentationProblem[] = [];
+
+        for (const name of actual) {
+            if (!documented.some(documentedName => this.getBaseName(documentedName) === name)) {
+                problems.push({ kind: 'missingParameter', name: name, message: `Parameter '${name}' is not documented` });
+            }
+        }
+
+        for (const name of documented) {
+            if (!actual.includes(this.getBaseName(name))) {
+                problems.push({ kind: 'phantomParameter', name: name, message: `Documented parameter '${name}' does not exist` });
+            }
+        }
+
+        return problems;
+    }
+
+    /**
+     * Check that a return value is documented exactly when the function returns one
+     * @param documentation Generated doc model
+     * @param symbol The documented symbol
+     * @returns The problem, if any
+     */
+    private findReturnProblems(documentation: DocModel, symbol: DocumentableSymbol): DocumentationProblem[] {
+        const returnsValue = this.returnsValue(symbol);
+
+        if (returnsValue === true && !documentation.returns) {
+            return [{ kind: 'missingReturns', name: symbol.name, message: `The return value of ${symbol.name} is not documented` }];
+        }
+
+        if (returnsValue === false && documentation.returns) {
+            return [{ kind: 'unexpectedReturns', name: symbol.name, message: `A return value is documented, but ${symbol.name} returns nothing` }];
+        }
+
+        return [];
+    }
+
+    /**
+     * Check that the doc comment is recognized as one whole doc comment in front of the symbol
+     * (or as the module documentation), so it is not cut short by a stray comment terminator
+     * @param formattedDocumentation The rendered doc comment
+     * @param symbol The documented symbol
+     * @returns The problem, if any
+     */
+    private findSyntaxProblems(formattedDocumentation: string, symbol: DocumentableSymbol): DocumentationProblem[] {
+        const docComments = this.languageRegistry.get(symbol.language).docComments;
+        const lines = formattedDocumentation.replace(/\n$/, '').split('\n');
+        const coversAllLines = (documentation: DocComment | undefined) =>
+            documentation?.range.start.line === 0 && documentation.range.end.line === lines.length - 1;
+
+        // Read from the top, a comment ends at the first terminator. Symbol documentation is
+        // also read as it is found above the declaration (docstrings: inside the body), as
+        // symbol and module comments may differ, like Rust's `///` and `//!`.
+        const fromTop = docComments.findModuleDocumentation(lines, 0);
+        const valid = symbol.kind === 'module'
+            ? coversAllLines(fromTop)
+            : (!fromTop || coversAllLines(fromTop)) &&
+                coversAllLines(docComments.findDocumentation([...lines, symbol.signature], { ...symbol, startLine: lines.length, bodyStartLine: 0 }));
+
+        if (valid) {
+            return [];
+        }
+
+        return [{ kind: 'invalidSyntax', name: symbol.name, message: `The documentation of ${symbol.name} is not a valid ${symbol.language} doc comment` }];
+    }
+
+    /**
+     * Get the parameter names documentation is expected for
+     * @param symbol The documented symbol
+     * @returns Names without sigils, or undefined when the symbol's parameters are not known
+     */
+    private getParameterNames(symbol: DocumentableSymbol): string[] | undefined {
+        if (symbol.kind !== 'function' || !symbol.parameters) {
+            return undefined;
+        }
+
+        // Destructured parameters have no single name to document; receivers are not documented
+        return symbol.parameters
+            .map(parameter => this.getBaseName(parameter.name))
+            .filter(name => /^\w+$/.test(name) && !['self', 'cls', 'this'].includes(name));
+    }
+
+    /**
+     * Get the name a documented or declared parameter is compared by
+     * @param name Parameter name, possibly with a sigil (`*args`, `$name`, `...rest`) or, in
+     * JSDoc, a property path (`options.name`)
+     * @returns The bare parameter name
+     */
+    private getBaseName(name: string): string {
+        return name.replace(/^[*&$]+|^\.\.\./g, '').split('.')[0];
+    }
+
+    /**
+     * Decide whether a function returns a value from its declared return type. Without one it
+     * cannot be told reliably: `return value` in the body may belong to a nested callback.
+     * @param symbol The documented symbol
+     * @returns True or false, or undefined when no return type is declared
+     */
+    private returnsValue(symbol: DocumentableSymbol): boolean | undefined {
+        if (symbol.kind !== 'function' || !symbol.returnType) {
+            return undefined;
+        }
+
+        return !returnsNothing(symbol.returnType);
+    }
+}
@@ -0,0 +1,141 @@
+import * as vscode from 'vscode';
+import { CodeParser, DocumentableSymbol } from './codeParser';
+import { DocumentationPlacement } from './documentationPlacement';
+import { DocumentationProvider } from './documentationProvider';
+import { GenerationOptions } from './openaiService';
+import { Logger } from './utils/logger';
+
+export interface FileDocumentationOptions {
+    // Also regenerate documentation that already exists, through `updateDocumentation`
+    updateExisting: boolean;
+}
+
+export interface FileDocumentationResult {
+    // All documentation edits of the file, applied together so they undo as one step. Every
+    // entry needs confirmation, so applying the edit opens the Refactor Preview.
+    edit: vscode.WorkspaceEdit;
+    total: number;
+    generated: number;
+    updated: number;
+    failed: number;
+    cancelled: boolean;
+}
+
+export class DocumentationWriter {
+    private logger: Logger;
+    private codeParser: CodeParser;
+    private documentationProvider: DocumentationProvider;
+    private documentationPlacement: DocumentationPlacement;
+
+    constructor(
+        codeParser: CodeParser,
+        documentationProvider: DocumentationProvider,
+        documentationPlacement: DocumentationPlacement = new DocumentationPlacement()
+    ) {
+        this.logger = new Logger('DocumentationWriter');
+        this.codeParser = codeParser;
+        this.documentationProvider = documentationProvider;
+        this.documentationPlacement = documentationPlacement;
+    }
+
+    /**
+     * Generate documentation for every undocumented symbol of a document, and optionally
+     * refresh the existing documentation, collecting all changes in a single workspace edit
+     * @param document The document to document
+     * @param options Which symbols to document
+     * @param progress Progress reporter; receives one increment per symbol
+     * @param token Cancellation token; aborts the running request and skips the remaining symbols
+     * @returns The workspace edit and how many symbols were documented
+     */
+    public async documentFile(
+        document: vscode.TextDocument,
+        options: FileDocumentationOptions,
+        progress: vscode.Progress<{ message?: string; increment?: number }>,
+        token: vscode.CancellationToken
+    ): Promise<FileDocumentationResult> {
+        const symbols = (await this.codeParser.findAllSymbols(document))
+            .filter(symbol => options.updateExisting || !symbol.existingDocumentation);
+
+        const result: FileDocumentationResult = {
+            edit: new vscode.WorkspaceEdit(),
+            total: symbols.length,
+            generated: 0,
+            updated: 0,
+            failed: 0,
+            cancelled: false
+        };
+
+        this.logger.info(`Documenting ${symbols.length} symbols in ${document.uri.fsPath}`);
+
+        for (const [index, symbol] of symbols.entries()) {
+            if (token.isCancellationRequested) {
+                result.cancelled = true;
+                break;
+            }
+
+            progress.report({
+                message: `${index + 1}/${symbols.length}: ${symbol.name}`,
+                increment: 100 / symbols.length
+            });
+
+            try {
+                const formattedDocumentation = await this.writeDocumentation(symbol, { token: token });
+                this.addDocumentationEdit(result.edit, document, symbol, formattedDocumentation, {
+                    label: symbol.existingDocumentation ? `Update ${symbol.name}` : `Document ${symbol.name}`,
+                    needsConfirmation: true
+                });
+
+                if (symbol.existingDocumentation) {
+                    result.updated++;
+                } else {
+                    result.generated++;
+                }
+            } catch (error) {
+                if (error instanceof vscode.CancellationError) {
+                    result.cancelled = true;
+                    break;
+                }
+
+                // One failing symbol should not lose the documentation of the others
+                this.logger.error(`Failed to document ${symbol.name}: ${error}`);
+                result.failed++;
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Generate documentation for a symbol, or update its existing documentation
+     * @param symbol The symbol to document
+     * @param options Cancellation token and streaming callback
+     * @returns Documentation in the language's comment syntax, ending with a line break
+     */
+    public async writeDocumentation(symbol: DocumentableSymbol, options: GenerationOptions = {}): Promise<string> {
+        const documentation = symbol.existingDocumentation
+            ? await this.documentationProvider.updateDocumentation(symbol, symbol.existingDocumentation, options)
+            : await this.documentationProvider.generateDocumentation(symbol, options);
+
+        return documentation + '\n';
+    }
+
+    /**
+     * Add the edit that places formatted documentation for a symbol, as decided by the
+     * documentation placement
+     * @param edit Workspace edit to add to
+     * @param document The document containing the symbol
+     * @param symbol The documented symbol
+     * @param formattedDocumentation Documentation in the language's comment syntax, ending with a line break
+     * @param metadata Label and confirmation flag shown in the Refactor Preview
+     */
+    public addDocumentationEdit(
+        edit: vscode.WorkspaceEdit,
+        document: vscode.TextDocument,
+        symbol: DocumentableSymbol,
+        formattedDocumentation: string,
+        metadata?: vscode.WorkspaceEditEntryMetadata
+    ): void {
+        const placement = this.documentationPlacement.place(document, symbol, formattedDocumentation);
+        edit.replace(document.uri, placement.range, placement.text, metadata);
+    }
+}
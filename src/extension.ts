@@ -2,23 +2,29 @@
 import * as vscode from 'vscode';
 import * as dotenv from 'dotenv'; 
 import { OpenAIService } from './openaiService';
-import { CodeParser } from './codeParser';
+import { CodeParser, DocumentableSymbol } from './codeParser';
+import { DocumentationProvider } from './documentationProvider';
+import { DocumentationWriter } from './documentationWriter';
+import { BulkDocumentationQueue, BulkJobState } from './bulkDocumentationQueue';
+import { DocumentationPreview } from './documentationPreview';
+import { DocumentationAnalyzer } from './documentationAnalyzer';
+import { DocumentationCodeLensProvider } from './documentationCodeLensProvider';
+import { DocumentationDiagnostics } from './documentationDiagnostics';
+import { DocumentationCoverage } from './documentationCoverage';
+import { CoverageReportPanel } from './coverageReportPanel';
+import { CoverageStatusBar } from './coverageStatusBar';
+import { DocumentationInlineCompletionProvider } from './documentationInlineCompletionProvider';
+import { FunctionExplainer } from './functionExplainer';
+import { SetupWizard } from './setupWizard';
+import { ContextExtractor } from './contextExtractor';
+import { RAGSystem } from './ragSystem';
 import { Logger } from './utils/logger';
+import { SettingsManager } from './utils/settings';
+import { getProviderDescription } from './providers/providerFactory';
 
 // Load environment variables
 dotenv.config();
 
-// Define FunctionInfo interface to match CodeParser
-interface FunctionInfo {
-    name: string;
-    signature: string;
-    body: string;
-    startLine: number;
-    endLine: number;
-    language: string;
-    existingDocumentation?: string | null;
-}
-
 export function activate(context: vscode.ExtensionContext) {
     // Create a logger instance
     const logger = new Logger('GPT Documentation Assistant');
@@ -27,129 +33,116 @@ export function activate(context: vscode.ExtensionContext) {
     // Initialize services
     const openaiService = new OpenAIService();
     const codeParser = new CodeParser();
-
-    // Helper function to clean up AI-generated documentation
-    const cleanupDocumentation = (documentation: string): string => {
-        return documentation
-            .replace(/```.*\n|Sure, here is the updated documentation:\n/g, '')
-            .replace(/^\/\*\*|\*\/$/gm, '')
-            .trim();
-    };
-
-    // Helper function to format documentation based on language
-    const formatDocumentation = (documentation: string, language: string): string => {
-        const cleanedDoc = cleanupDocumentation(documentation);
-
-        switch (language) {
-            case 'typescript':
-            case 'javascript':
-            case 'javascriptreact':
-            case 'typescriptreact':
-                // JSDoc style
-                const lines = cleanedDoc.split('\n').map(line => line.trim());
-                return [
-                    '/**',
-                    ...lines.map(line => ` * ${line}`),
-                    ' */',
-                    ''
-                ].join('\n');
-            
-            case 'python':
-                // Python docstring
-                return `"""\n${cleanedDoc}\n"""\n`;
-            
-            default:
-                // Generic comment
-                return cleanedDoc.split('\n')
-                    .map(line => `// ${line}`)
-                    .join('\n') + '\n';
+    const documentationProvider = new DocumentationProvider(
+        openaiService,
+        new ContextExtractor(),
+        new RAGSystem()
+    );
+    const documentationWriter = new DocumentationWriter(codeParser, documentationProvider);
+    const documentationPreview = new DocumentationPreview();
+    const documentationAnalyzer = new DocumentationAnalyzer();
+    const codeLensProvider = new DocumentationCodeLensProvider(codeParser, documentationAnalyzer);
+    const documentationDiagnostics = new DocumentationDiagnostics(codeParser, documentationAnalyzer);
+    const documentationCoverage = new DocumentationCoverage(codeParser);
+    const coverageStatusBar = new CoverageStatusBar(documentationCoverage);
+    const inlineCompletionProvider = new DocumentationInlineCompletionProvider(codeParser, documentationProvider);
+    const functionExplainer = new FunctionExplainer(codeParser, documentationProvider);
+    const setupWizard = new SetupWizard(new SettingsManager(context), openaiService, codeParser, documentationProvider);
+
+    // Scan the workspace for the coverage report; undefined when cancelled or failed
+    const scanCoverage = () => vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'Measuring Documentation Coverage',
+        cancellable: true
+    }, async (progress, token) => {
+        try {
+            const exclude = vscode.workspace.getConfiguration('gptDocAssistant.coverage').get<string>('exclude', '');
+            const report = await documentationCoverage.scanWorkspace('**/*', exclude, progress, token);
+            return token.isCancellationRequested ? undefined : report;
+        } catch (error) {
+            logger.error(`Coverage scan error: ${error}`);
+            vscode.window.showErrorMessage(`Failed to measure documentation coverage: ${error}`);
+            return undefined;
         }
-    };
-
-    // Get API key from multiple sources
-    const config = vscode.workspace.getConfiguration('gptDocAssistant');
-    const configApiKey = config.get<string>('openaiApiKey');
-    const envApiKey = process.env.OPENAI_API_KEY;
-
-    // Log API key sources for debugging
-    logger.info(`API Key from config: ${configApiKey ? 'Found' : 'Not Found'}`);
-    logger.info(`API Key from env: ${envApiKey ? 'Found' : 'Not Found'}`);
-
-    // Try to initialize with config key
-    let initialized = false;
-    if (configApiKey) {
-        initialized = openaiService.initialize(configApiKey);
-        logger.info(`Initialization with config key: ${initialized}`);
-    }
-
-    // If not initialized, try env key
-    if (!initialized && envApiKey) {
-        initialized = openaiService.initialize(envApiKey);
-        logger.info(`Initialization with env key: ${initialized}`);
-    }
-
-    // If still not initialized, show error
+    });
+    const coverageReportPanel = new CoverageReportPanel(documentationCoverage, scanCoverage);
+    const bulkDocumentationQueue = new BulkDocumentationQueue(context.workspaceState, codeParser, documentationWriter);
+
+    // Initialize the selected provider from its settings, with environment variables as
+    // fallback for API keys
+    const providerId = vscode.workspace.getConfiguration('gptDocAssistant').get<string>('provider', 'openai');
+    const initialized = openaiService.initialize();
+    logger.info(`Initialization of the ${providerId} provider: ${initialized}`);
+
+    // If not initialized, offer the guided setup; the commands stay registered so they
+    // work as soon as the provider is configured
     if (!initialized) {
         vscode.window.showErrorMessage(
-            'OpenAI API key is not configured. Please set it in extension settings.'
-        );
-        return;
+            `The ${getProviderDescription(providerId)?.label ?? providerId} provider is not configured. Please set it up in extension settings.`,
+            'Configure'
+        ).then(choice => {
+            if (choice === 'Configure') {
+                vscode.commands.executeCommand('gptDocAssistant.configureSettings');
+            }
+        });
     }
 
     // Register command to generate documentation
     let generateDocCommand = vscode.commands.registerTextEditorCommand(
         'gptDocAssistant.generateDoc', 
-        async (textEditor, edit) => {
+        async (textEditor, edit, symbol?: DocumentableSymbol) => {
             // Check if service is initialized before generating
             if (!openaiService.isInitialized()) {
-                vscode.window.showErrorMessage('OpenAI service is not initialized.');
+                vscode.window.showErrorMessage('The documentation provider is not configured. Run "GPT: Configure Settings" to set it up.');
                 return;
             }
 
             try {
-                // Find the function at the current cursor position
-                const functionInfo = codeParser.findFunctionAtPosition(
-                    textEditor.document, 
-                    textEditor.selection.active
-                );
+                // Use the symbol passed by a code lens, parsed again as the document may have been
+                // edited since the lens was shown, or find the symbol (function, class, interface, ...)
+                // at the current cursor position
+                const functionInfo = symbol
+                    ? await codeParser.findCurrentSymbol(textEditor.document, symbol)
+                    : await codeParser.findSymbolAtPosition(textEditor.document, textEditor.selection.active);
 
                 if (!functionInfo) {
-                    vscode.window.showInformationMessage('No function found at the current cursor position');
+                    vscode.window.showInformationMessage('Nothing to document at the current cursor position');
                     return;
                 }
 
-                // Show progress while generating documentation
-                await vscode.window.withProgress({
-                    location: vscode.ProgressLocation.Notification,
-                    title: 'Generating Documentation',
-                    cancellable: false
-                }, async () => {
-                    // Generate documentation
-                    const documentation = await openaiService.generateDocumentation(
-                        functionInfo.body,
-                        functionInfo.language,
-                        '', // project context (optional)
-                        ''  // documentation standards (optional)
-                    );
-
-                    // Format documentation based on language
-                    const formattedDocumentation = formatDocumentation(
-                        documentation, 
-                        functionInfo.language
-                    );
-
-                    // Create a workspace edit to insert documentation
-                    const insertPosition = new vscode.Position(functionInfo.startLine, 0);
+                // Place the documentation received so far above the symbol (or inside the body
+                // for Python docstrings)
+                const createDocumentationEdit = (formattedDocumentation: string) => {
                     const documentationEdit = new vscode.WorkspaceEdit();
-                    documentationEdit.insert(
-                        textEditor.document.uri, 
-                        insertPosition, 
-                        formattedDocumentation
+                    documentationWriter.addDocumentationEdit(
+                        documentationEdit,
+                        textEditor.document,
+                        { ...functionInfo, documentationRange: undefined },
+                        formattedDocumentation + '\n'
                     );
 
-                    // Apply the edit
-                    await vscode.workspace.applyEdit(documentationEdit);
-                });
+                    return documentationEdit;
+                };
+
+                // Generate the documentation (again on "Regenerate") and show it as a diff while it
+                // streams in; nothing is applied until it is accepted, and cancelling aborts the request
+                await documentationPreview.review(
+                    textEditor.document,
+                    `Documentation for ${functionInfo.name}`,
+                    (showPartial) => vscode.window.withProgress({
+                        location: vscode.ProgressLocation.Notification,
+                        title: 'Generating Documentation',
+                        cancellable: true
+                    }, async (progress, token) => {
+                        // Sent with project context and the language's documentation standards
+                        const documentation = await documentationProvider.generateDocumentation(
+                            functionInfo,
+                            { token: token, onProgress: text => showPartial(createDocumentationEdit(text)) }
+                        );
+
+                        return createDocumentationEdit(documentation);
+                    })
+                );
 
             } catch (error) {
                 logger.error(`Documentation generation error: ${error}`);
@@ -161,80 +154,341 @@ export function activate(context: vscode.ExtensionContext) {
     // Register command to update documentation
     let updateDocCommand = vscode.commands.registerTextEditorCommand(
         'gptDocAssistant.updateDoc',
-        async (textEditor, edit) => {
+        async (textEditor, edit, symbol?: DocumentableSymbol) => {
             // Check if service is initialized before updating
             if (!openaiService.isInitialized()) {
-                vscode.window.showErrorMessage('OpenAI service is not initialized.');
+                vscode.window.showErrorMessage('The documentation provider is not configured. Run "GPT: Configure Settings" to set it up.');
                 return;
             }
 
             try {
-                // Find the function at the current cursor position
-                const functionInfo = codeParser.findFunctionAtPosition(
-                    textEditor.document, 
-                    textEditor.selection.active
-                );
+                // Use the symbol passed by a code lens or quick fix, parsed again as the document may
+                // have been edited since, or find the symbol at the current cursor position
+                const functionInfo = symbol
+                    ? await codeParser.findCurrentSymbol(textEditor.document, symbol)
+                    : await codeParser.findSymbolAtPosition(textEditor.document, textEditor.selection.active);
 
                 // Check if function info exists and has existing documentation
-                if (!functionInfo || !functionInfo.existingDocumentation) {
+                if (!functionInfo || !functionInfo.existingDocumentation || !functionInfo.documentationRange) {
                     vscode.window.showInformationMessage('No existing documentation found');
                     return;
                 }
 
-                // Show progress while updating documentation
-                await vscode.window.withProgress({
-                    location: vscode.ProgressLocation.Notification,
-                    title: 'Updating Documentation',
-                    cancellable: false
-                }, async () => {
-                    // Safely unwrap existingDocumentation (we've already checked it exists)
-                    const existingDoc = functionInfo.existingDocumentation!;
-
-                    // Update documentation
-                    const updatedDocumentation = await openaiService.updateDocumentation(
-                        functionInfo.body,
-                        existingDoc,
-                        functionInfo.language,
-                        '' // project context (optional)
+                // Replace every line of the existing documentation (a comment above the symbol or a
+                // docstring inside its body) with the documentation received so far
+                const createDocumentationEdit = (formattedDocumentation: string) => {
+                    const documentationEdit = new vscode.WorkspaceEdit();
+                    documentationWriter.addDocumentationEdit(
+                        documentationEdit,
+                        textEditor.document,
+                        functionInfo,
+                        formattedDocumentation + '\n'
                     );
 
-                    // Format updated documentation
-                    const formattedDocumentation = formatDocumentation(
-                        updatedDocumentation, 
-                        functionInfo.language
-                    );
+                    return documentationEdit;
+                };
+
+                // Generate the documentation (again on "Regenerate") and show it as a diff while it
+                // streams in; nothing is applied until it is accepted, and cancelling aborts the request
+                await documentationPreview.review(
+                    textEditor.document,
+                    `Updated documentation for ${functionInfo.name}`,
+                    (showPartial) => vscode.window.withProgress({
+                        location: vscode.ProgressLocation.Notification,
+                        title: 'Updating Documentation',
+                        cancellable: true
+                    }, async (progress, token) => {
+                        const updatedDocumentation = await documentationProvider.updateDocumentation(
+                            functionInfo,
+                            functionInfo.existingDocumentation!,
+                            { token: token, onProgress: text => showPartial(createDocumentationEdit(text)) }
+                        );
+
+                        return createDocumentationEdit(updatedDocumentation);
+                    })
+                );
 
-                    // Create a workspace edit to replace existing documentation
-                    const documentationEdit = new vscode.WorkspaceEdit();
-                    
-                    // Find the range of existing documentation
-                    const startLine = functionInfo.startLine - 1;
-                    const endLine = functionInfo.startLine;
-                    const range = new vscode.Range(
-                        new vscode.Position(startLine, 0),
-                        new vscode.Position(endLine, 0)
-                    );
+            } catch (error) {
+                logger.error(`Documentation update error: ${error}`);
+                vscode.window.showErrorMessage(`Failed to update documentation: ${error}`);
+            }
+        }
+    );
+
+    // Register command to document every symbol of the active file
+    let documentFileCommand = vscode.commands.registerTextEditorCommand(
+        'gptDocAssistant.documentFile',
+        async (textEditor) => {
+            // Check if service is initialized before generating
+            if (!openaiService.isInitialized()) {
+                vscode.window.showErrorMessage('The documentation provider is not configured. Run "GPT: Configure Settings" to set it up.');
+                return;
+            }
+
+            const document = textEditor.document;
+            const documentVersion = document.version;
+            const updateExisting = vscode.workspace.getConfiguration('gptDocAssistant')
+                .get<boolean>('documentFile.updateExisting', false);
+
+            try {
+                // Show a cancellable progress notification with one step per symbol
+                // Cancelling aborts the running request and discards everything generated so far
+                const result = await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: 'Documenting File',
+                    cancellable: true
+                }, (progress, token) => documentationWriter.documentFile(
+                    document,
+                    { updateExisting: updateExisting },
+                    progress,
+                    token
+                ));
+
+                if (result.total === 0) {
+                    vscode.window.showInformationMessage('Every symbol in this file is already documented');
+                    return;
+                }
+
+                if (result.cancelled) {
+                    vscode.window.showInformationMessage('Documentation was cancelled. No changes were applied.');
+                    return;
+                }
+
+                // The edit positions refer to the text that was parsed
+                if (document.version !== documentVersion) {
+                    vscode.window.showWarningMessage('The file changed while documentation was generated. No changes were applied.');
+                    return;
+                }
 
-                    // Replace existing documentation
-                    documentationEdit.replace(
-                        textEditor.document.uri, 
-                        range, 
-                        formattedDocumentation
+                // Review all documentation in the Refactor Preview; the accepted changes are
+                // applied as a single undoable edit
+                if (!await vscode.workspace.applyEdit(result.edit, { isRefactoring: true })) {
+                    vscode.window.showInformationMessage('The generated documentation was discarded');
+                    return;
+                }
+
+                const summary = `Generated ${result.generated} and updated ${result.updated} of ${result.total} documentation blocks` +
+                    (result.failed > 0 ? ` (${result.failed} failed, see the output channel)` : '');
+                vscode.window.showInformationMessage(summary);
+            } catch (error) {
+                logger.error(`File documentation error: ${error}`);
+                vscode.window.showErrorMessage(`Failed to document file: ${error}`);
+            }
+        }
+    );
+
+    // Register command to document every file under a folder or matching a glob pattern
+    let documentWorkspaceCommand = vscode.commands.registerCommand(
+        'gptDocAssistant.documentWorkspace',
+        async (folder?: vscode.Uri) => {
+            // Check if service is initialized before generating
+            if (!openaiService.isInitialized()) {
+                vscode.window.showErrorMessage('The documentation provider is not configured. Run "GPT: Configure Settings" to set it up.');
+                return;
+            }
+
+            const bulkConfig = vscode.workspace.getConfiguration('gptDocAssistant.bulk');
+
+            try {
+                // Offer to resume a run that was interrupted
+                let job: BulkJobState | undefined;
+                const pendingJob = bulkDocumentationQueue.getPendingJob();
+                if (pendingJob) {
+                    const files = Object.values(pendingJob.files);
+                    const done = files.filter(file => file.status === 'done').length;
+                    const choice = await vscode.window.showInformationMessage(
+                        `A documentation run for ${pendingJob.include} stopped after ${done} of ${files.length} files.`,
+                        'Resume',
+                        'Start New Run'
                     );
 
-                    // Apply the edit
-                    await vscode.workspace.applyEdit(documentationEdit);
-                });
+                    if (!choice) {
+                        return;
+                    }
+                    job = choice === 'Resume' ? pendingJob : undefined;
+                }
+
+                if (!job) {
+                    // Invoked from the explorer on a folder, or ask for a glob pattern
+                    let include: vscode.GlobPattern;
+                    if (folder) {
+                        include = new vscode.RelativePattern(folder, '**/*');
+                    } else {
+                        const pattern = await vscode.window.showInputBox({
+                            prompt: 'Files to document (glob pattern relative to the workspace)',
+                            value: '**/*'
+                        });
+
+                        if (!pattern) {
+                            return;
+                        }
+                        include = pattern;
+                    }
+
+                    job = await bulkDocumentationQueue.createJob(include, bulkConfig.get<string>('exclude', ''));
+                    if (Object.keys(job.files).length === 0) {
+                        vscode.window.showInformationMessage('No files of a supported language match');
+                        return;
+                    }
+                }
 
+                const runningJob = job;
+                const summary = await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: 'Documenting Workspace',
+                    cancellable: true
+                }, (progress, token) => bulkDocumentationQueue.run(
+                    runningJob,
+                    {
+                        concurrency: bulkConfig.get<number>('concurrency', 4),
+                        preview: bulkConfig.get<boolean>('preview', true)
+                    },
+                    progress,
+                    token
+                ));
+
+                // Write the full summary to the output channel
+                logger.info(`Documentation run for ${runningJob.include} ${summary.cancelled ? 'cancelled' : 'finished'}`);
+                logger.info(`Files changed (${summary.filesChanged.length}): ${summary.filesChanged.join(', ') || 'none'}`);
+                logger.info(`Symbols documented: ${summary.documented}, skipped (already documented): ${summary.skipped}`);
+                summary.errors.forEach(error => logger.error(error));
+
+                const message = `Documented ${summary.documented} symbols in ${summary.filesChanged.length} files; ` +
+                    `${summary.skipped} already documented, ${summary.errors.length} errors` +
+                    (summary.cancelled ? '. Run the command again to resume.' : '.');
+                const action = await vscode.window.showInformationMessage(message, 'Show Summary');
+                if (action) {
+                    logger.show();
+                }
             } catch (error) {
-                logger.error(`Documentation update error: ${error}`);
-                vscode.window.showErrorMessage(`Failed to update documentation: ${error}`);
+                logger.error(`Workspace documentation error: ${error}`);
+                vscode.window.showErrorMessage(`Failed to document workspace: ${error}`);
             }
         }
     );
 
+    // Register command to explain the function at the cursor without changing the document
+    let explainCommand = vscode.commands.registerTextEditorCommand(
+        'gptDocAssistant.explain',
+        async (textEditor, edit, symbol?: DocumentableSymbol) => {
+            // Check if service is initialized before explaining
+            if (!openaiService.isInitialized()) {
+                vscode.window.showErrorMessage('The documentation provider is not configured. Run "GPT: Configure Settings" to set it up.');
+                return;
+            }
+
+            try {
+                const functionInfo = symbol ?? await codeParser.findFunctionAtPosition(
+                    textEditor.document,
+                    textEditor.selection.active
+                );
+
+                if (!functionInfo) {
+                    vscode.window.showInformationMessage('No function found at the current cursor position');
+                    return;
+                }
+
+                const explanation = await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Explaining ${functionInfo.name}`,
+                    cancellable: true
+                }, (progress, token) => functionExplainer.explain(functionInfo, token));
+
+                await functionExplainer.showPanel(textEditor.document, functionInfo, explanation);
+            } catch (error) {
+                if (error instanceof vscode.CancellationError) {
+                    return;
+                }
+
+                logger.error(`Explanation error: ${error}`);
+                vscode.window.showErrorMessage(`Failed to explain function: ${error}`);
+            }
+        }
+    );
+
+    // Register command behind "Insert as documentation" in explanation hovers and panels
+    let insertExplanationCommand = vscode.commands.registerCommand(
+        'gptDocAssistant.insertExplanation',
+        async (uri: string, line: number) => {
+            try {
+                const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(uri));
+                const functionInfo = await codeParser.findFunctionAtPosition(document, new vscode.Position(line, 0));
+
+                if (!functionInfo || functionInfo.startLine !== line) {
+                    vscode.window.showWarningMessage('The function moved since it was explained. Explain it again to insert the explanation.');
+                    return;
+                }
+
+                // Explanations are cached by function body, so this only calls the model when
+                // the function changed since it was explained
+                const version = document.version;
+                const explanation = await functionExplainer.explain(functionInfo);
+                const formattedDocumentation = documentationProvider.formatDocumentation(
+                    explanation,
+                    functionInfo.language,
+                    functionInfo.kind
+                ) + '\n';
+
+                if (document.version !== version) {
+                    vscode.window.showWarningMessage('The file changed while the explanation was generated. Nothing was inserted.');
+                    return;
+                }
+
+                // Replaces existing documentation, like Update Documentation
+                const documentationEdit = new vscode.WorkspaceEdit();
+                documentationWriter.addDocumentationEdit(documentationEdit, document, functionInfo, formattedDocumentation);
+                await vscode.workspace.applyEdit(documentationEdit);
+            } catch (error) {
+                logger.error(`Explanation insertion error: ${error}`);
+                vscode.window.showErrorMessage(`Failed to insert explanation: ${error}`);
+            }
+        }
+    );
+
+    // Register command to show the documentation coverage of the workspace
+    let showCoverageCommand = vscode.commands.registerCommand(
+        'gptDocAssistant.showCoverage',
+        async () => {
+            const report = await scanCoverage();
+            if (!report) {
+                return;
+            }
+
+            if (report.total === 0) {
+                vscode.window.showInformationMessage('No symbols found in files of a supported language');
+                return;
+            }
+
+            logger.info(`Documentation coverage: ${report.documented} of ${report.total} symbols in ${report.files.length} files`);
+            coverageReportPanel.show(report);
+        }
+    );
+
+    // Register command to set up the API key, provider, model and documentation standards
+    let configureSettingsCommand = vscode.commands.registerCommand(
+        'gptDocAssistant.configureSettings',
+        () => setupWizard.run()
+    );
+
     // Add commands to the context for disposal
-    context.subscriptions.push(generateDocCommand, updateDocCommand);
+    context.subscriptions.push(
+        generateDocCommand,
+        updateDocCommand,
+        documentFileCommand,
+        documentWorkspaceCommand,
+        showCoverageCommand,
+        explainCommand,
+        insertExplanationCommand,
+        configureSettingsCommand,
+        openaiService.register(),
+        documentationPreview.register(),
+        codeLensProvider.register(),
+        documentationDiagnostics.register(),
+        coverageStatusBar.register(),
+        inlineCompletionProvider.register(),
+        functionExplainer.register(),
+        setupWizard.register()
+    );
 
     logger.info('GPT Documentation Assistant extension activated');
 }
@@ -0,0 +1,186 @@
+import * as vscode from 'vscode';
+import { CodeParser, DocumentableSymbol } from './codeParser';
+import { DocumentationProvider } from './documentationProvider';
+import { Logger } from './utils/logger';
+import { ResponseCache } from './utils/responseCache';
+
+/**
+ * Explains functions in a hover or a side panel, without changing the document
+ */
+export class FunctionExplainer implements vscode.HoverProvider {
+    public static readonly VIEW_TYPE = 'gptDocAssistant.explanation';
+
+    private logger: Logger;
+    private codeParser: CodeParser;
+    private documentationProvider: DocumentationProvider;
+    private cache: ResponseCache<string>;
+    private panel: vscode.WebviewPanel | undefined;
+
+    constructor(codeParser: CodeParser, documentationProvider: DocumentationProvider) {
+        this.logger = new Logger('FunctionExplainer');
+        this.codeParser = codeParser;
+        this.documentationProvider = documentationProvider;
+        this.cache = new ResponseCache<string>(100);
+    }
+
+    /**
+     * Register the hover provider for all files
+     * @returns Disposable that unregisters the provider and closes the panel
+     */
+    public register(): vscode.Disposable {
+        return vscode.Disposable.from(
+            vscode.languages.registerHoverProvider([{ scheme: 'file' }, { scheme: 'untitled' }], this),
+            { dispose: () => this.panel?.dispose() }
+        );
+    }
+
+    /**
+     * Explain a function, reusing the explanation of an identical body
+     * @param symbol The function
+     * @param token Cancellation token that aborts the request
+     * @returns Markdown explanation
+     */
+    public explain(symbol: DocumentableSymbol, token?: vscode.CancellationToken): Promise<string> {
+        return this.cache.getOrCreate(this.getCacheKey(symbol), () =>
+            this.documentationProvider.explain(symbol, { token: token }));
+    }
+
+    /**
+     * Show the explanation of the function name under the mouse. The model is only called when
+     * `gptDocAssistant.explain.hover` is on; otherwise only explanations generated before are shown.
+     * @param document The document
+     * @param position Position of the mouse
+     * @returns Hover with the explanation and an "Insert as documentation" link, or nothing
+     */
+    public async provideHover(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | undefined> {
+        const wordRange = document.getWordRangeAtPosition(position);
+        if (!wordRange) {
+            return undefined;
+        }
+
+        try {
+            const symbol = await this.codeParser.findFunctionAtPosition(document, position);
+            if (!symbol || symbol.name !== document.getText(wordRange) || position.line !== this.getNameLine(document, symbol)) {
+                return undefined;
+            }
+
+            const autoHover = vscode.workspace
+                .getConfiguration('gptDocAssistant.explain', document)
+                .get<boolean>('hover', false);
+
+            // The request is not aborted when the hover closes, so the explanation is cached for
+            // the next hover
+            const explanation = autoHover ? this.explain(symbol) : this.cache.get(this.getCacheKey(symbol));
+            if (!explanation) {
+                return undefined;
+            }
+
+            const content = new vscode.MarkdownString(await explanation);
+            const args = encodeURIComponent(JSON.stringify([document.uri.toString(), symbol.startLine]));
+            content.appendMarkdown(`\n\n---\n\n[Insert as documentation](command:gptDocAssistant.insertExplanation?${args} "Use this explanation as the documentation of ${symbol.name}")`);
+            content.isTrusted = { enabledCommands: ['gptDocAssistant.insertExplanation'] };
+
+            return new vscode.Hover(content, wordRange);
+        } catch (error) {
+            this.logger.error(`Failed to explain the function at line ${position.line + 1}: ${error}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * Show an explanation in a panel beside the editor, reusing the open panel if there is one
+     * @param document The document containing the function
+     * @param symbol The explained function
+     * @param explanation Markdown explanation
+     */
+    public async showPanel(document: vscode.TextDocument, symbol: DocumentableSymbol, explanation: string): Promise<void> {
+        if (!this.panel) {
+            this.panel = vscode.window.createWebviewPanel(
+                FunctionExplainer.VIEW_TYPE,
+                'Explanation',
+                { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+                { enableScripts: true, localResourceRoots: [] }
+            );
+            this.panel.onDidDispose(() => this.panel = undefined);
+            this.panel.webview.onDidReceiveMessage((message: { uri: string; line: number }) =>
+                vscode.commands.executeCommand('gptDocAssistant.insertExplanation', message.uri, message.line));
+        }
+
+        // Rendered by the built-in Markdown extension, like the Markdown preview
+        const html = await vscode.commands.executeCommand<string>('markdown.api.render', explanation);
+
+        this.panel.title = `Explanation: ${symbol.name}`;
+        this.panel.webview.html = this.renderHtml(html, document.uri.toString(), symbol.startLine, this.createNonce());
+        this.panel.reveal(vscode.ViewColumn.Beside, true);
+    }
+
+    /**
+     * Build the cache key of a function from everything its explanation depends on
+     * @param symbol The function
+     * @returns Hash of the language, kind and body
+     */
+    private getCacheKey(symbol: DocumentableSymbol): string {
+        return ResponseCache.createKey('explain', symbol.language, symbol.kind, symbol.body);
+    }
+
+    /**
+     * Find the line that declares a function's name, below any decorators or annotations
+     * @param document The document
+     * @param symbol The function
+     * @returns Line of the name, or the first line of the function
+     */
+    private getNameLine(document: vscode.TextDocument, symbol: DocumentableSymbol): number {
+        const name = new RegExp(`\\b${symbol.name.replace(/[$]/g, '\\$')}\\b`);
+
+        for (let line = symbol.startLine; line <= symbol.endLine; line++) {
+            if (name.test(document.lineAt(line).text)) {
+                return line;
+            }
+        }
+
+        return symbol.startLine;
+    }
+
+    /**
+     * Render the explanation panel
+     * @param body Explanation rendered as HTML
+     * @param uri Document URI, sent back with the insert request
+     * @param line First line of the function, sent back with the insert request
+     * @param nonce Nonce that allows the panel's script to run
+     * @returns HTML of the webview
+     */
+    private renderHtml(body: string, uri: string, line: number, nonce: string): string {
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <style>
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+        code { font-family: var(--vscode-editor-font-family); }
+        button { color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; padding: 4px 10px; }
+    </style>
+</head>
+<body>
+    ${body}
+    <p><button id="insert">Insert as documentation</button></p>
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        document.getElementById('insert').addEventListener('click', () => {
+            vscode.postMessage(${JSON.stringify({ uri: uri, line: line }).replace(/</g, '\\u003c')});
+        });
+    </script>
+</body>
+</html>`;
+    }
+
+    /**
+     * Create a random nonce for the Content Security Policy
+     * @returns 32 random letters and digits
+     */
+    private createNonce(): string {
+        const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+        return Array.from({ length: 32 }, () => characters.charAt(Math.floor(Math.random() * characters.length))).join('');
+    }
+}
@@ -0,0 +1,283 @@
+import * as vscode from 'vscode';
+import { DocumentableSymbol } from '../codeParser';
+import { DocComment, DocCommentDetector } from './languageSupport';
+
+// Lines that may sit between a doc comment and its symbol: Java/Kotlin/TypeScript annotations
+// (`@Override`, `@Test(timeout = 5)`), C# attributes (`[Fact]`) and Rust/PHP attributes (`#[derive(Debug)]`)
+const annotationPattern = /^\s*(?:@[\w.]+(?:\(.*\))?|\[.*\]|#!?\[.*\])\s*$/;
+
+/**
+ * Find the first line above a symbol that is not an annotation
+ * @param lines The document lines
+ * @param symbolStartLine First line of the symbol declaration
+ * @returns Index of the line above the symbol's annotations (-1 at the top of the file)
+ */
+function skipAnnotations(lines: string[], symbolStartLine: number): number {
+    let line = symbolStartLine - 1;
+    while (line >= 0 && annotationPattern.test(lines[line])) {
+        line--;
+    }
+    return line;
+}
+
+/**
+ * Build a doc comment covering whole lines, from the first non-blank column of the first line
+ * to the end of the last line
+ * @param lines The document lines
+ * @param startLine First line of the documentation
+ * @param endLine Last line of the documentation
+ * @returns The documentation text and range
+ */
+function createDocComment(lines: string[], startLine: number, endLine: number): DocComment {
+    return {
+        text: lines.slice(startLine, endLine + 1).join('\n'),
+        range: new vscode.Range(
+            new vscode.Position(startLine, Math.max(lines[startLine].search(/\S/), 0)),
+            new vscode.Position(endLine, lines[endLine].length)
+        )
+    };
+}
+
+/**
+ * Detects block doc comments written above a symbol: JSDoc, JavaDoc, PHPDoc, KDoc, Doxygen (`/** ... *\/`)
+ */
+export class BlockDocCommentDetector implements DocCommentDetector {
+    /**
+     * Find existing documentation for a symbol, skipping annotations between the comment and the symbol
+     * @param lines The document lines
+     * @param symbol The symbol to find documentation for
+     * @returns Existing documentation or undefined if none is found
+     */
+    public findDocumentation(lines: string[], symbol: DocumentableSymbol): DocComment | undefined {
+        // Look for documentation above the symbol and its annotations
+        let startLine = skipAnnotations(lines, symbol.startLine);
+
+        // Skip empty lines
+        while (startLine >= 0 && lines[startLine].trim() === '') {
+            startLine--;
+        }
+
+        if (startLine < 0) {
+            return undefined;
+        }
+
+        // Check for JSDoc/JavaDoc style (/**...*/)
+        const endLine = startLine;
+        if (lines[startLine].trim().endsWith('*/')) {
+            // Found the end of a doc comment, search for its start
+            while (startLine >= 0) {
+                const line = lines[startLine].trim();
+
+                if (line.startsWith('/**')) {
+                    // Found the start of the doc comment
+                    return createDocComment(lines, startLine, endLine);
+                }
+
+                // A plain block comment (/* ... */) is not documentation
+                if (line.startsWith('/*')) {
+                    return undefined;
+                }
+
+                startLine--;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Find a file header doc comment at the top of the module
+     * @param lines The document lines
+     * @param firstContentLine First non-blank line after any shebang
+     * @returns The header comment or undefined if the file does not start with one
+     */
+    public findModuleDocumentation(lines: string[], firstContentLine: number): DocComment | undefined {
+        if (firstContentLine >= lines.length || !lines[firstContentLine].trim().startsWith('/**')) {
+            return undefined;
+        }
+
+        const docEnd = lines.findIndex((line, index) => index >= firstContentLine && line.includes('*/'));
+        return docEnd === -1 ? undefined : createDocComment(lines, firstContentLine, docEnd);
+    }
+}
+
+/**
+ * Detects runs of line comments above a symbol: C# `///` XML, Rust `///`, Go `//`, Ruby `#`
+ */
+export class LineDocCommentDetector implements DocCommentDetector {
+    private prefix: string;
+    private modulePrefix: string;
+
+    /**
+     * @param prefix Comment prefix of symbol documentation, e.g. `///`
+     * @param modulePrefix Comment prefix of module documentation, e.g. `//!` for Rust
+     */
+    constructor(prefix: string, modulePrefix: string = prefix) {
+        this.prefix = prefix;
+        this.modulePrefix = modulePrefix;
+    }
+
+    /**
+     * Find the comment run directly above a symbol and its annotations
+     * @param lines The document lines
+     * @param symbol The symbol to find documentation for
+     * @returns Existing documentation or undefined if none is found
+     */
+    public findDocumentation(lines: string[], symbol: DocumentableSymbol): DocComment | undefined {
+        const endLine = skipAnnotations(lines, symbol.startLine);
+        let startLine = endLine + 1;
+
+        while (startLine > 0 && this.isDocLine(lines[startLine - 1], this.prefix)) {
+            startLine--;
+        }
+
+        return startLine <= endLine ? createDocComment(lines, startLine, endLine) : undefined;
+    }
+
+    /**
+     * Find the comment run at the top of the module
+     * @param lines The document lines
+     * @param firstContentLine First non-blank line after any shebang
+     * @returns The header comment or undefined if the file does not start with one
+     */
+    public findModuleDocumentation(lines: string[], firstContentLine: number): DocComment | undefined {
+        let endLine = firstContentLine - 1;
+
+        while (endLine + 1 < lines.length && this.isDocLine(lines[endLine + 1], this.modulePrefix)) {
+            endLine++;
+        }
+
+        return endLine >= firstContentLine ? createDocComment(lines, firstContentLine, endLine) : undefined;
+    }
+
+    /**
+     * Check whether a line is a doc comment line with the given prefix
+     * @param line Line text
+     * @param prefix Comment prefix
+     * @returns True for doc comment lines
+     */
+    private isDocLine(line: string, prefix: string): boolean {
+        const trimmed = line.trim();
+
+        // `////` separators and, for `//` docs, `///` lines of another convention are not doc lines
+        return trimmed.startsWith(prefix) && !trimmed.startsWith(prefix + prefix[prefix.length - 1]);
+    }
+}
+
+/**
+ * Tries several doc comment styles in order, for languages where more than one is common
+ * (C# `///` XML comments and `/** *\/` blocks, Doxygen `///` and `/** *\/` in C++)
+ */
+export class CompositeDocCommentDetector implements DocCommentDetector {
+    private detectors: DocCommentDetector[];
+
+    /**
+     * @param detectors Detectors in order of preference
+     */
+    constructor(detectors: DocCommentDetector[]) {
+        this.detectors = detectors;
+    }
+
+    /**
+     * Find existing documentation in the first style that matches
+     * @param lines The document lines
+     * @param symbol The symbol to find documentation for
+     * @returns Existing documentation or undefined if no style matches
+     */
+    public findDocumentation(lines: string[], symbol: DocumentableSymbol): DocComment | undefined {
+        for (const detector of this.detectors) {
+            const documentation = detector.findDocumentation(lines, symbol);
+            if (documentation) {
+                return documentation;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Find module documentation in the first style that matches
+     * @param lines The document lines
+     * @param firstContentLine First non-blank line after any shebang
+     * @returns The header comment or undefined if no style matches
+     */
+    public findModuleDocumentation(lines: string[], firstContentLine: number): DocComment | undefined {
+        for (const detector of this.detectors) {
+            const documentation = detector.findModuleDocumentation(lines, firstContentLine);
+            if (documentation) {
+                return documentation;
+            }
+        }
+
+        return undefined;
+    }
+}
+
+/**
+ * Detects Python docstrings: the string literal that is the first statement of a body or module
+ */
+export class DocstringDetector implements DocCommentDetector {
+    /**
+     * Find the docstring inside a symbol's body
+     * @param lines The document lines
+     * @param symbol The symbol to find documentation for
+     * @returns The docstring or undefined if none is found
+     */
+    public findDocumentation(lines: string[], symbol: DocumentableSymbol): DocComment | undefined {
+        return symbol.bodyStartLine === undefined ? undefined : this.findDocstring(lines, symbol.bodyStartLine);
+    }
+
+    /**
+     * Find the module docstring
+     * @param lines The document lines
+     * @param firstContentLine First non-blank line after any shebang and encoding declaration
+     * @returns The docstring or undefined if none is found
+     */
+    public findModuleDocumentation(lines: string[], firstContentLine: number): DocComment | undefined {
+        return this.findDocstring(lines, firstContentLine);
+    }
+
+    /**
+     * Find the docstring that starts at or after the given line, skipping blank and comment lines.
+     * Only a string literal that is the first statement counts as a docstring.
+     * @param lines The document lines
+     * @param firstLine First line of the body (or of the module)
+     * @returns The docstring lines, or undefined if the first statement is not a string
+     */
+    private findDocstring(lines: string[], firstLine: number): DocComment | undefined {
+        let line = firstLine;
+        while (line < lines.length && (lines[line].trim() === '' || lines[line].trim().startsWith('#'))) {
+            line++;
+        }
+
+        if (line >= lines.length) {
+            return undefined;
+        }
+
+        const start = /^\s*[rRuUbB]{0,2}("""|'''|"|')/.exec(lines[line]);
+        if (!start) {
+            return undefined;
+        }
+
+        const quote = start[1];
+        const afterOpening = lines[line].substring(start[0].length);
+
+        // Single-line docstring: """text""" or "text"
+        if (afterOpening.includes(quote)) {
+            return createDocComment(lines, line, line);
+        }
+
+        // Plain quotes cannot span lines (without a backslash), so this is not a docstring
+        if (quote.length === 1) {
+            return undefined;
+        }
+
+        for (let i = line + 1; i < lines.length; i++) {
+            if (lines[i].includes(quote)) {
+                return createDocComment(lines, line, i);
+            }
+        }
+
+        return createDocComment(lines, line, lines.length - 1);
+    }
+}
@@ -0,0 +1,318 @@
+/**
+ * Documentation as structured data, requested from the model as JSON and rendered into each
+ * language's doc comment style by a `DocRenderer`
+ */
+export interface DocModel {
+    summary: string;
+    description?: string;
+    params: DocParam[];
+    returns?: DocReturns;
+    throws: DocThrows[];
+    examples: string[];
+    deprecated?: string;
+    seeAlso: string[];
+    // Members of an enum or interface, in declaration order
+    members: DocMember[];
+}
+
+export interface DocParam {
+    name: string;
+    type?: string;
+    description: string;
+}
+
+export interface DocReturns {
+    type?: string;
+    description: string;
+}
+
+export interface DocThrows {
+    type: string;
+    description: string;
+}
+
+export interface DocMember {
+    name: string;
+    description: string;
+}
+
+/**
+ * The subset of JSON Schema used to describe and validate the doc model
+ */
+export interface JsonSchema {
+    type: JsonType | JsonType[];
+    description?: string;
+    properties?: { [name: string]: JsonSchema };
+    required?: string[];
+    items?: JsonSchema;
+}
+
+type JsonType = 'object' | 'array' | 'string' | 'null';
+
+const namedDescription = (nameDescription: string): JsonSchema => ({
+    type: 'object',
+    properties: {
+        name: { type: 'string', description: nameDescription },
+        type: { type: 'string', description: 'Type, when the language has type annotations or the docs name types' },
+        description: { type: 'string' }
+    },
+    required: ['name', 'description']
+});
+
+/**
+ * Schema of the JSON object the model answers with. It is sent in the prompt and every response
+ * is validated against it.
+ */
+export const docModelSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        summary: { type: 'string', description: 'One sentence stating what the symbol does or represents' },
+        description: { type: 'string', description: 'Further paragraphs, when the summary is not enough' },
+        params: { type: 'array', items: namedDescription('Exact parameter name from the signature') },
+        returns: {
+            type: ['object', 'null'],
+            description: 'The result; null for functions that return nothing',
+            properties: {
+                type: { type: 'string' },
+                description: { type: 'string' }
+            },
+            required: ['description']
+        },
+        throws: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    type: { type: 'string', description: 'Exception or error type' },
+                    description: { type: 'string', description: 'When it is thrown' }
+                },
+                required: ['type', 'description']
+            }
+        },
+        examples: { type: 'array', description: 'Code only, without Markdown fences', items: { type: 'string' } },
+        deprecated: { type: ['string', 'null'], description: 'Why the symbol is deprecated and what to use instead' },
+        seeAlso: { type: 'array', description: 'Related symbols or URLs', items: { type: 'string' } },
+        members: { type: 'array', description: 'Members of an enum or interface, in declaration order', items: namedDescription('Member name') }
+    },
+    required: ['summary']
+};
+
+/**
+ * Parse and validate a model response into a doc model. The JSON object may be wrapped in
+ * Markdown fences or text, which is ignored.
+ * @param text Response text
+ * @returns The validated doc model, with optional lists defaulted to empty
+ * @throws Error listing every place where the response does not match `docModelSchema`
+ */
+export function parseDocModel(text: string): DocModel {
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start === -1 || end < start) {
+        throw new Error('The response does not contain a JSON object');
+    }
+
+    let value: unknown;
+    try {
+        value = JSON.parse(text.substring(start, end + 1));
+    } catch (error) {
+        throw new Error(`The response is not valid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const errors = validateJson(value, docModelSchema, 'documentation');
+    if (errors.length > 0) {
+        throw new Error(`The response does not match the documentation schema: ${errors.join('; ')}`);
+    }
+
+    return normalizeDocModel(value as RawDocModel);
+}
+
+/**
+ * Parse a response that is still streaming in, by closing the strings, arrays and objects that
+ * are open so far. Entries that are still missing required properties, such as a parameter
+ * whose description has not arrived, are left out.
+ * @param text Response text received so far
+ * @returns The doc model as far as it is known, or undefined when it cannot be read yet
+ */
+export function parsePartialDocModel(text: string): DocModel | undefined {
+    const start = text.indexOf('{');
+    if (start === -1) {
+        return undefined;
+    }
+
+    try {
+        const value = JSON.parse(completeJson(text.substring(start)));
+        if (typeof value.summary !== 'string') {
+            return undefined;
+        }
+
+        dropIncompleteEntries(value);
+        return validateJson(value, docModelSchema, 'documentation').length === 0
+            ? normalizeDocModel(value as RawDocModel)
+            : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Check a value against a schema
+ * @param value Parsed JSON value
+ * @param schema Schema the value must match
+ * @param path Location of the value, used in error messages
+ * @returns Error messages, empty when the value matches
+ */
+export function validateJson(value: unknown, schema: JsonSchema, path: string): string[] {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const type = getJsonType(value);
+
+    if (!types.includes(type as JsonType)) {
+        return [`${path} must be ${types.join(' or ')}, not ${type}`];
+    }
+
+    const errors: string[] = [];
+
+    if (type === 'object' && schema.properties) {
+        const object = value as { [name: string]: unknown };
+
+        for (const name of schema.required ?? []) {
+            if (object[name] === undefined) {
+                errors.push(`${path}.${name} is missing`);
+            }
+        }
+
+        // Absent optional properties are fine; null is only allowed where the schema says so
+        for (const [name, propertySchema] of Object.entries(schema.properties)) {
+            if (object[name] !== undefined) {
+                errors.push(...validateJson(object[name], propertySchema, `${path}.${name}`));
+            }
+        }
+    }
+
+    if (type === 'array' && schema.items) {
+        (value as unknown[]).forEach((item, index) => errors.push(...validateJson(item, schema.items!, `${path}[${index}]`)));
+    }
+
+    return errors;
+}
+
+// A doc model as validated, before defaults are applied
+type RawDocModel = Partial<Omit<DocModel, 'returns' | 'deprecated'>> & {
+    returns?: DocReturns | null;
+    deprecated?: string | null;
+};
+
+/**
+ * Trim every text and replace absent or empty values with their defaults
+ * @param raw Validated doc model
+ * @returns Doc model with every list present
+ */
+function normalizeDocModel(raw: RawDocModel): DocModel {
+    const text = (value: string | null | undefined) => value?.trim() || undefined;
+    const named = <T extends { description: string; type?: string }>(item: T): T => ({
+        ...item,
+        type: text(item.type),
+        description: item.description.trim()
+    });
+
+    return {
+        summary: raw.summary!.trim(),
+        description: text(raw.description),
+        params: (raw.params ?? []).map(param => ({ ...named(param), name: param.name.trim() })),
+        returns: raw.returns && raw.returns.description.trim() ? named(raw.returns) : undefined,
+        throws: (raw.throws ?? []).map(exception => ({ type: exception.type.trim(), description: exception.description.trim() })),
+        examples: (raw.examples ?? []).map(example => example.replace(/^```.*\n|\n?```\s*$/g, '').trimEnd()).filter(example => example),
+        deprecated: text(raw.deprecated),
+        seeAlso: (raw.seeAlso ?? []).map(reference => reference.trim()).filter(reference => reference),
+        members: (raw.members ?? []).map(member => ({ name: member.name.trim(), description: member.description.trim() }))
+    };
+}
+
+/**
+ * Get the JSON type of a value
+ * @param value Parsed JSON value
+ * @returns JSON type name
+ */
+function getJsonType(value: unknown): string {
+    if (value === null) {
+        return 'null';
+    }
+    return Array.isArray(value) ? 'array' : typeof value;
+}
+
+/**
+ * Remove the properties and list entries of a partial doc model that do not match the schema yet
+ * @param value Parsed partial doc model
+ */
+function dropIncompleteEntries(value: { [name: string]: unknown }): void {
+    for (const [name, schema] of Object.entries(docModelSchema.properties!)) {
+        const property = value[name];
+
+        if (Array.isArray(property) && schema.items) {
+            value[name] = property.filter(item => validateJson(item, schema.items!, name).length === 0);
+        } else if (property !== undefined && validateJson(property, schema, name).length > 0) {
+            delete value[name];
+        }
+    }
+}
+
+/**
+ * Complete a truncated JSON text: drop a trailing key that has no value yet, or a separator
+ * without the next element, and close the open string, arrays and objects
+ * @param text Start of a JSON object
+ * @returns Text that parses when the truncation happened between or inside string values
+ */
+function completeJson(text: string): string {
+    const closers: string[] = [];
+    let inString = false;
+    let escaped = false;
+    // Whether the next string is a key: after `{` or after `,` in an object
+    let expectingKey = false;
+    // Start of the last key whose value has not started yet
+    let danglingKey = -1;
+
+    for (let i = 0; i < text.length; i++) {
+        const character = text[i];
+
+        if (inString) {
+            if (escaped) {
+                escaped = false;
+            } else if (character === '\\') {
+                escaped = true;
+            } else if (character === '"') {
+                inString = false;
+            }
+        } else if (character === '"') {
+            inString = true;
+            danglingKey = expectingKey ? i : -1;
+            expectingKey = false;
+        } else if (character === '{') {
+            closers.push('}');
+            expectingKey = true;
+            danglingKey = -1;
+        } else if (character === '[') {
+            closers.push(']');
+            danglingKey = -1;
+        } else if (character === '}' || character === ']') {
+            closers.pop();
+        } else if (character === ',') {
+            expectingKey = closers[closers.length - 1] === '}';
+        } else if (character !== ':' && !/\s/.test(character)) {
+            // A number, `true`, `false` or `null` value
+            danglingKey = -1;
+        }
+    }
+
+    let completed = text;
+    if (danglingKey !== -1) {
+        // The key, complete or not, and its colon
+        completed = completed.substring(0, danglingKey);
+    } else if (inString) {
+        // A dangling escape would swallow the closing quote
+        completed = (escaped ? completed.slice(0, -1) : completed) + '"';
+    }
+
+    // A separator without the next element
+    completed = completed.replace(/,\s*$/, '');
+
+    return completed + closers.reverse().join('');
+}
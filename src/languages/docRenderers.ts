@@ -0,0 +1,378 @@
+import { SymbolKind } from '../codeParser';
+import { DocMember, DocModel, DocParam, DocReturns, DocThrows } from './docModel';
+import { DocRenderer } from './languageSupport';
+
+/**
+ * Tags and example syntax of a tag based doc comment style
+ */
+export interface TagStyle {
+    // Prefix of the first line, e.g. `@brief ` for Doxygen
+    summaryPrefix?: string;
+    param(param: DocParam): string;
+    returns(returns: DocReturns): string;
+    throws(exception: DocThrows): string;
+    example(code: string): string[];
+    deprecated(reason: string): string;
+    see(reference: string): string;
+}
+
+/**
+ * Renders the summary, description and member list every style starts with
+ * @param model Doc model
+ * @param memberLine Formats one enum or interface member
+ * @returns Lines of the introduction, without trailing blank lines
+ */
+function renderIntroduction(model: DocModel, memberLine: (member: DocMember) => string = member => `- ${member.name}: ${member.description}`): string[] {
+    const lines = [model.summary];
+
+    if (model.description) {
+        lines.push('', ...model.description.split('\n'));
+    }
+
+    if (model.members.length > 0) {
+        lines.push('', ...model.members.map(memberLine));
+    }
+
+    return lines;
+}
+
+/**
+ * Join blocks of lines with a blank line between them, skipping empty blocks
+ * @param blocks Blocks of lines
+ * @returns The rendered text
+ */
+function joinBlocks(blocks: string[][]): string {
+    return blocks
+        .filter(block => block.length > 0)
+        .map(block => block.join('\n'))
+        .join('\n\n');
+}
+
+/**
+ * Indent every non-empty line
+ * @param text Text to indent
+ * @param indentation Leading whitespace
+ * @returns Indented lines
+ */
+function indentLines(text: string, indentation: string): string[] {
+    return text.split('\n').map(line => line ? indentation + line : line);
+}
+
+/**
+ * Prefix example code with doctest prompts: `>>>` for statements, `...` for continuation lines
+ * @param code Example code
+ * @returns Doctest lines
+ */
+function doctestLines(code: string): string[] {
+    return code.split('\n').map(line => /^\s/.test(line) ? `... ${line}` : `>>> ${line}`);
+}
+
+/**
+ * Escape text for an XML documentation comment
+ * @param text Plain text
+ * @returns Text with `&`, `<` and `>` escaped
+ */
+function escapeXml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export const jsDocTags: TagStyle = {
+    param: param => `@param ${param.type ? `{${param.type}} ` : ''}${param.name} - ${param.description}`,
+    returns: returns => `@returns ${returns.type ? `{${returns.type}} ` : ''}${returns.description}`,
+    throws: exception => `@throws {${exception.type}} ${exception.description}`,
+    example: code => ['@example', ...code.split('\n')],
+    deprecated: reason => `@deprecated ${reason}`,
+    see: reference => `@see ${reference}`
+};
+
+// Types come from the TypeScript signature, so TSDoc leaves them out
+export const tsDocTags: TagStyle = {
+    param: param => `@param ${param.name} - ${param.description}`,
+    returns: returns => `@returns ${returns.description}`,
+    throws: exception => `@throws {@link ${exception.type}} ${exception.description}`,
+    example: code => ['@example', '```ts', ...code.split('\n'), '```'],
+    deprecated: reason => `@deprecated ${reason}`,
+    see: reference => `@see ${reference}`
+};
+
+export const javaDocTags: TagStyle = {
+    param: param => `@param ${param.name} ${param.description}`,
+    returns: returns => `@return ${returns.description}`,
+    throws: exception => `@throws ${exception.type} ${exception.description}`,
+    example: code => ['<pre>{@code', ...code.split('\n'), '}</pre>'],
+    deprecated: reason => `@deprecated ${reason}`,
+    see: reference => `@see ${reference}`
+};
+
+export const doxygenTags: TagStyle = {
+    summaryPrefix: '@brief ',
+    param: param => `@param ${param.name} ${param.description}`,
+    returns: returns => `@return ${returns.description}`,
+    throws: exception => `@throws ${exception.type} ${exception.description}`,
+    example: code => ['@code', ...code.split('\n'), '@endcode'],
+    deprecated: reason => `@deprecated ${reason}`,
+    see: reference => `@see ${reference}`
+};
+
+export const phpDocTags: TagStyle = {
+    param: param => `@param ${param.type ? `${param.type} ` : ''}$${param.name.replace(/^\$/, '')} ${param.description}`,
+    returns: returns => `@return ${returns.type ? `${returns.type} ` : ''}${returns.description}`,
+    throws: exception => `@throws ${exception.type} ${exception.description}`,
+    example: code => ['```php', ...code.split('\n'), '```'],
+    deprecated: reason => `@deprecated ${reason}`,
+    see: reference => `@see ${reference}`
+};
+
+// KDoc has no @deprecated tag; Kotlin marks deprecation with the @Deprecated annotation
+export const kDocTags: TagStyle = {
+    param: param => `@param ${param.name} ${param.description}`,
+    returns: returns => `@return ${returns.description}`,
+    throws: exception => `@throws ${exception.type} ${exception.description}`,
+    example: code => ['```kotlin', ...code.split('\n'), '```'],
+    deprecated: reason => `**Deprecated:** ${reason}`,
+    see: reference => `@see ${reference}`
+};
+
+export const yardTags: TagStyle = {
+    param: param => `@param ${param.name}${param.type ? ` [${param.type}]` : ''} ${param.description}`,
+    returns: returns => `@return${returns.type ? ` [${returns.type}]` : ''} ${returns.description}`,
+    throws: exception => `@raise [${exception.type}] ${exception.description}`,
+    example: code => ['@example', ...indentLines(code, '  ')],
+    deprecated: reason => `@deprecated ${reason}`,
+    see: reference => `@see ${reference}`
+};
+
+/**
+ * Renders tag based doc comments: JSDoc, TSDoc, JavaDoc, Doxygen, PHPDoc, KDoc and YARD
+ */
+export class TagDocRenderer implements DocRenderer {
+    private style: TagStyle;
+
+    /**
+     * @param style Tags of the doc comment style
+     */
+    constructor(style: TagStyle) {
+        this.style = style;
+    }
+
+    /**
+     * Render the introduction, then one tag per parameter, return value and exception, then
+     * the examples, deprecation and references
+     * @param model Doc model
+     * @returns Comment text without comment markers
+     */
+    public render(model: DocModel): string {
+        const introduction = renderIntroduction(model);
+        introduction[0] = (this.style.summaryPrefix ?? '') + introduction[0];
+
+        const tags = [
+            ...model.params.map(param => this.style.param(param)),
+            ...(model.returns ? [this.style.returns(model.returns)] : []),
+            ...model.throws.map(exception => this.style.throws(exception))
+        ];
+
+        const notes = [
+            ...model.examples.flatMap(example => this.style.example(example)),
+            ...(model.deprecated ? [this.style.deprecated(model.deprecated)] : []),
+            ...model.seeAlso.map(reference => this.style.see(reference))
+        ];
+
+        return joinBlocks([introduction, tags, notes]);
+    }
+}
+
+/**
+ * Renders Google style Python docstrings, with `Args:`, `Returns:` and `Raises:` sections
+ */
+export class GoogleDocstringRenderer implements DocRenderer {
+    /**
+     * Render a docstring body
+     * @param model Doc model
+     * @returns Docstring text without quotes
+     */
+    public render(model: DocModel): string {
+        const section = (title: string, entries: string[]) =>
+            entries.length > 0 ? [`${title}:`, ...entries.flatMap(entry => indentLines(entry, '    '))] : [];
+
+        return joinBlocks([
+            renderIntroduction({ ...model, members: [] }),
+            section('Attributes', model.members.map(member => `${member.name}: ${member.description}`)),
+            section('Args', model.params.map(param => `${param.name}${param.type ? ` (${param.type})` : ''}: ${param.description}`)),
+            section('Returns', model.returns ? [`${model.returns.type ? `${model.returns.type}: ` : ''}${model.returns.description}`] : []),
+            section('Raises', model.throws.map(exception => `${exception.type}: ${exception.description}`)),
+            section('Example', model.examples.map(example => doctestLines(example).join('\n'))),
+            section('Deprecated', model.deprecated ? [model.deprecated] : []),
+            section('See Also', model.seeAlso)
+        ]);
+    }
+}
+
+/**
+ * Renders NumPy style Python docstrings, with underlined section headers
+ */
+export class NumpyDocstringRenderer implements DocRenderer {
+    /**
+     * Render a docstring body
+     * @param model Doc model
+     * @returns Docstring text without quotes
+     */
+    public render(model: DocModel): string {
+        const section = (title: string, entries: string[]) =>
+            entries.length > 0 ? [title, '-'.repeat(title.length), ...entries] : [];
+        const entry = (name: string, description: string) => [name, ...indentLines(description, '    ')].join('\n');
+
+        return joinBlocks([
+            renderIntroduction({ ...model, members: [] }),
+            section('Attributes', model.members.map(member => entry(member.name, member.description))),
+            section('Parameters', model.params.map(param => entry(`${param.name}${param.type ? ` : ${param.type}` : ''}`, param.description))),
+            section('Returns', model.returns ? [entry(model.returns.type ?? 'result', model.returns.description)] : []),
+            section('Raises', model.throws.map(exception => entry(exception.type, exception.description))),
+            section('Warnings', model.deprecated ? [`Deprecated: ${model.deprecated}`] : []),
+            section('See Also', model.seeAlso),
+            section('Examples', model.examples.map(example => doctestLines(example).join('\n')))
+        ]);
+    }
+}
+
+/**
+ * Renders Sphinx (reStructuredText) Python docstrings, with `:param:` field lists
+ */
+export class SphinxDocstringRenderer implements DocRenderer {
+    /**
+     * Render a docstring body
+     * @param model Doc model
+     * @returns Docstring text without quotes
+     */
+    public render(model: DocModel): string {
+        const fields = [
+            ...model.params.flatMap(param => [
+                `:param ${param.name}: ${param.description}`,
+                ...(param.type ? [`:type ${param.name}: ${param.type}`] : [])
+            ]),
+            ...(model.returns ? [`:returns: ${model.returns.description}`] : []),
+            ...(model.returns?.type ? [`:rtype: ${model.returns.type}`] : []),
+            ...model.throws.map(exception => `:raises ${exception.type}: ${exception.description}`)
+        ];
+
+        return joinBlocks([
+            renderIntroduction(model),
+            model.examples.flatMap(example => ['Example::', '', ...indentLines(example, '    ')]),
+            model.deprecated ? ['.. warning::', '', `    Deprecated: ${model.deprecated}`] : [],
+            model.seeAlso.length > 0 ? ['.. seealso::', '', ...model.seeAlso.map(reference => `    ${reference}`)] : [],
+            fields
+        ]);
+    }
+}
+
+/**
+ * Renders Epytext Python docstrings, with `@param name:` fields
+ */
+export class EpytextDocstringRenderer implements DocRenderer {
+    /**
+     * Render a docstring body
+     * @param model Doc model
+     * @returns Docstring text without quotes
+     */
+    public render(model: DocModel): string {
+        const fields = [
+            ...model.params.flatMap(param => [
+                `@param ${param.name}: ${param.description}`,
+                ...(param.type ? [`@type ${param.name}: ${param.type}`] : [])
+            ]),
+            ...(model.returns ? [`@return: ${model.returns.description}`] : []),
+            ...(model.returns?.type ? [`@rtype: ${model.returns.type}`] : []),
+            ...model.throws.map(exception => `@raise ${exception.type}: ${exception.description}`),
+            ...(model.deprecated ? [`@deprecated: ${model.deprecated}`] : []),
+            ...model.seeAlso.map(reference => `@see: ${reference}`)
+        ];
+
+        return joinBlocks([
+            renderIntroduction(model),
+            model.examples.flatMap(example => ['Example:', ...doctestLines(example).map(line => `    ${line}`)]),
+            fields
+        ]);
+    }
+}
+
+/**
+ * Renders C# XML documentation comments
+ */
+export class XmlDocRenderer implements DocRenderer {
+    /**
+     * Render XML documentation elements
+     * @param model Doc model
+     * @returns XML elements without comment markers
+     */
+    public render(model: DocModel): string {
+        const remarks = [
+            ...(model.description ? model.description.split('\n') : []),
+            ...model.members.map(member => `- ${member.name}: ${member.description}`),
+            ...(model.deprecated ? [`Deprecated: ${model.deprecated}`] : [])
+        ];
+
+        return [
+            '<summary>',
+            escapeXml(model.summary),
+            '</summary>',
+            ...(remarks.length > 0 ? ['<remarks>', ...remarks.map(escapeXml), '</remarks>'] : []),
+            ...model.params.map(param => `<param name="${escapeXml(param.name)}">${escapeXml(param.description)}</param>`),
+            ...(model.returns ? [`<returns>${escapeXml(model.returns.description)}</returns>`] : []),
+            ...model.throws.map(exception => `<exception cref="${escapeXml(exception.type)}">${escapeXml(exception.description)}</exception>`),
+            ...model.examples.flatMap(example => ['<example>', '<code>', ...escapeXml(example).split('\n'), '</code>', '</example>']),
+            ...model.seeAlso.map(reference => /^https?:/.test(reference)
+                ? `<seealso href="${escapeXml(reference)}"/>`
+                : `<seealso cref="${escapeXml(reference)}"/>`)
+        ].join('\n');
+    }
+}
+
+/**
+ * Renders rustdoc Markdown, with `# Arguments`, `# Returns`, `# Errors` and `# Examples` sections
+ */
+export class RustdocRenderer implements DocRenderer {
+    /**
+     * Render a rustdoc comment body
+     * @param model Doc model
+     * @returns Markdown without comment markers
+     */
+    public render(model: DocModel): string {
+        const section = (title: string, lines: string[]) => lines.length > 0 ? [`# ${title}`, '', ...lines] : [];
+
+        return joinBlocks([
+            renderIntroduction(model, member => `* \`${member.name}\` - ${member.description}`),
+            model.deprecated ? [`**Deprecated:** ${model.deprecated}`] : [],
+            section('Arguments', model.params.map(param => `* \`${param.name}\` - ${param.description}`)),
+            section('Returns', model.returns ? [model.returns.description] : []),
+            section('Errors', model.throws.map(exception => `* \`${exception.type}\` - ${exception.description}`)),
+            section('Examples', model.examples.flatMap(example => ['```', ...example.split('\n'), '```'])),
+            section('See also', model.seeAlso.map(reference => `* ${reference}`))
+        ]);
+    }
+}
+
+/**
+ * Renders plain text documentation for styles without tags, such as Go doc comments
+ */
+export class PlainDocRenderer implements DocRenderer {
+    /**
+     * Render the introduction followed by plain lists; examples are indented code blocks
+     * @param model Doc model
+     * @param kind Kind of symbol the documentation belongs to
+     * @returns Text without comment markers
+     */
+    public render(model: DocModel, kind: SymbolKind): string {
+        const list = (title: string, entries: string[]) =>
+            entries.length > 0 ? [`${title}:`, ...entries.map(entry => `  - ${entry}`)] : [];
+
+        return joinBlocks([
+            renderIntroduction(model),
+            list(kind === 'class' ? 'Constructor parameters' : 'Parameters', model.params.map(param => `${param.name}: ${param.description}`)),
+            model.returns ? [`Returns: ${model.returns.description}`] : [],
+            list('Errors', model.throws.map(exception => `${exception.type}: ${exception.description}`)),
+            model.examples.flatMap(example => ['Example:', '', ...indentLines(example, '\t')]),
+            list('See also', model.seeAlso),
+            // Go tools recognize a paragraph starting with "Deprecated:"
+            model.deprecated ? [`Deprecated: ${model.deprecated}`] : []
+        ]);
+    }
+}
@@ -0,0 +1,147 @@
+import { SymbolKind } from '../codeParser';
+import { DocFormatter } from './languageSupport';
+
+/**
+ * Remove markdown code fences and chatty preambles the model sometimes wraps around its answer
+ * @param documentation Documentation text
+ * @returns Documentation without code fences
+ */
+function removeCodeFences(documentation: string): string {
+    return documentation
+        .replace(/```.*\n?|Sure, here is the updated documentation:\n/g, '')
+        .trim();
+}
+
+/**
+ * Formats documentation as a `/** ... *\/` block: JSDoc, JavaDoc, PHPDoc, KDoc, Doxygen
+ */
+export class BlockCommentFormatter implements DocFormatter {
+    private moduleTag?: string;
+
+    /**
+     * @param moduleTag Tag that marks a file header, e.g. `@file` for JSDoc
+     */
+    constructor(moduleTag?: string) {
+        this.moduleTag = moduleTag;
+    }
+
+    /**
+     * Format documentation as a block doc comment
+     * @param documentation Documentation text
+     * @param kind Kind of symbol the documentation belongs to
+     * @returns Block comment formatted documentation
+     */
+    public format(documentation: string, kind: SymbolKind): string {
+        // Remove any existing block comment markers
+        const cleanedDoc = removeCodeFences(documentation)
+            .replace(/^\/\*\*|\*\/$/gm, '')
+            .trim();
+
+        const lines = cleanedDoc.split('\n').map(line => line.trim().replace(/^\*\s?/, ''));
+
+        return this.wrap(lines.join('\n'), kind);
+    }
+
+    /**
+     * Wrap rendered documentation in a block doc comment, keeping its indentation. A `*\/`
+     * in the text, e.g. in a glob such as `src/**\/*.ts`, is escaped so it does not end the comment.
+     * @param text Rendered documentation
+     * @param kind Kind of symbol the documentation belongs to
+     * @returns Block comment
+     */
+    public wrap(text: string, kind: SymbolKind): string {
+        if (kind === 'module' && this.moduleTag && !/@(file|fileoverview|module)\b/.test(text)) {
+            text = `${this.moduleTag} ${text}`;
+        }
+
+        // Add block comment formatting
+        const formattedLines = text.replace(/\*\//g, '*\\/').split('\n').map(line => line.trimEnd() ? ` * ${line.trimEnd()}` : ' *');
+
+        return ['/**', ...formattedLines, ' */'].join('\n');
+    }
+}
+
+/**
+ * Formats documentation as a run of line comments: Rust `///`, Go `//`, Ruby `#`
+ */
+export class LineCommentFormatter implements DocFormatter {
+    private prefix: string;
+    private modulePrefix: string;
+
+    /**
+     * @param prefix Comment prefix for symbol documentation
+     * @param modulePrefix Comment prefix for module documentation, e.g. `//!` for Rust
+     */
+    constructor(prefix: string, modulePrefix: string = prefix) {
+        this.prefix = prefix;
+        this.modulePrefix = modulePrefix;
+    }
+
+    /**
+     * Format documentation as line comments
+     * @param documentation Documentation text
+     * @param kind Kind of symbol the documentation belongs to
+     * @returns Line comment formatted documentation
+     */
+    public format(documentation: string, kind: SymbolKind): string {
+        // Drop comment markers the model may already have added (longest first, so `///` wins over `//`)
+        const markers = [...new Set([this.modulePrefix, this.prefix])].sort((a, b) => b.length - a.length);
+
+        const text = removeCodeFences(documentation)
+            .split('\n')
+            .map(line => {
+                const trimmed = line.trim();
+                const marker = markers.find(candidate => trimmed.startsWith(candidate));
+                return marker ? trimmed.substring(marker.length).replace(/^ /, '') : line.trimEnd();
+            })
+            .join('\n');
+
+        return this.wrap(text, kind);
+    }
+
+    /**
+     * Wrap rendered documentation in line comments, keeping its indentation
+     * @param text Rendered documentation
+     * @param kind Kind of symbol the documentation belongs to
+     * @returns Line comments
+     */
+    public wrap(text: string, kind: SymbolKind): string {
+        const prefix = kind === 'module' ? this.modulePrefix : this.prefix;
+
+        return text
+            .split('\n')
+            .map(line => line.trimEnd() ? `${prefix} ${line.trimEnd()}` : prefix)
+            .join('\n');
+    }
+}
+
+/**
+ * Formats documentation as a Python docstring
+ */
+export class DocstringFormatter implements DocFormatter {
+    /**
+     * Format documentation in Python docstring style
+     * @param documentation Documentation text
+     * @returns Python docstring formatted documentation
+     */
+    public format(documentation: string): string {
+        // Drop quotes the model may already have added, then use triple quotes for docstring
+        const cleanedDoc = removeCodeFences(documentation)
+            .replace(/^("""|''')|("""|''')$/g, '')
+            .trim();
+        return this.wrap(cleanedDoc);
+    }
+
+    /**
+     * Wrap rendered documentation in triple quotes. Quotes that would end the docstring are
+     * escaped, and text with backslashes gets a raw docstring so they are not read as escapes.
+     * @param text Rendered documentation
+     * @returns Python docstring
+     */
+    public wrap(text: string): string {
+        const prefix = text.includes('\\') ? 'r' : '';
+        const escaped = text.replace(/"{3,}/g, quotes => quotes.replace(/"/g, '\\"'));
+
+        return `${prefix}"""\n${escaped}\n"""`;
+    }
+}
@@ -0,0 +1,114 @@
+import { BraceGrammar } from '../parsers/braceLanguageParser';
+
+// Java, C#, C and C++. Handles signatures like:
+// public static void main(String[] args) {
+// int add(int a, int b) {
+// public async Task<List<User>> LoadAsync(int id) {
+// private static <T> List<T> of(T... xs) {
+// Constructors and destructors have no return type: public Point(int x) {, ~Point() {
+export const cStyleGrammar: BraceGrammar = {
+    functionPattern: /^\s*(?<modifiers>(?:(?:public|private|protected|internal|static|final|abstract|virtual|override|async|sealed|synchronized|extern|inline|unsafe|default|explicit|constexpr|friend)\s+)*)(?:<(?<typeParameters>[^()]*?)>\s*)?(?:(?<returnType>[A-Za-z0-9_.:*&?]+(?:<[^()]*>)?(?:\[\])*[*&?]?)\s+)?(?<name>~?[A-Za-z_]\w*)\s*\(/,
+    typePattern: /^\s*(?:(?:public|private|protected|internal|static|abstract|final|sealed|partial|export)\s+)*(?<keyword>enum(?:\s+(?:class|struct))?|class|interface|struct|record)\s+(?<name>[A-Za-z0-9_]+)/,
+    typeKinds: {
+        'class': 'class',
+        'struct': 'class',
+        'record': 'class',
+        'interface': 'interface',
+        'enum': 'enum',
+        'enum class': 'enum',
+        'enum struct': 'enum'
+    },
+    parameterStyle: 'typeFirst',
+    throwsClausePattern: /\bthrows\s+([A-Za-z0-9_.,\s]+?)\s*$/,
+    hasThrowStatements: true,
+    asyncModifiers: ['async'],
+    generatorPattern: /\byield\s+(return|break)\b|\bco_yield\b/,
+    decoratorPattern: /^\s*(@\w|\[[^\]]*\]\s*$)/,
+    expressionBodyToken: '=>',
+    lexicalSyntax: { verbatimStrings: true }
+};
+
+// func name(params) results {, func (r *Receiver) Name(params) results {, type Name struct {
+export const goGrammar: BraceGrammar = {
+    functionPattern: /^\s*func\s*(?:\((?<receiver>[^)]*)\)\s*)?(?<name>[A-Za-z_]\w*)\s*(?:\[[^\]]*\])?\s*\(/,
+    hasFunctionKeyword: true,
+    typePattern: /^\s*type\s+(?<name>[A-Za-z_]\w*)(?:\[[^\]]*\])?\s+(?<keyword>struct|interface)\b/,
+    typeKinds: {
+        'struct': 'class',
+        'interface': 'interface'
+    },
+    parameterStyle: 'go',
+    returnTypePattern: /^\s*(\S.*?)\s*$/,
+    hasThrowStatements: false,
+    asyncModifiers: []
+};
+
+// pub async fn name<T>(params) -> Ret where ... {, struct/enum/trait declarations, impl blocks
+export const rustGrammar: BraceGrammar = {
+    functionPattern: /^\s*(?<modifiers>(?:(?:pub(?:\([^)]*\))?|default|const|async|unsafe|extern(?:\s+"[^"]*")?)\s+)*)fn\s+(?<name>[A-Za-z_]\w*)\s*(?:<[^(]*>)?\s*\(/,
+    hasFunctionKeyword: true,
+    typePattern: /^\s*(?:pub(?:\([^)]*\))?\s+)?(?<keyword>struct|enum|trait|union)\s+(?<name>[A-Za-z_]\w*)/,
+    typeKinds: {
+        'struct': 'class',
+        'union': 'class',
+        'trait': 'interface',
+        'enum': 'enum'
+    },
+    containerPattern: /^\s*(?:unsafe\s+)?impl\b(?:\s*<[^{]*?>)?\s+(?:[^{]*?\s+for\s+)?&?(?<name>[A-Za-z_]\w*)/,
+    parameterStyle: 'nameFirst',
+    returnTypePattern: /^\s*->\s*(.+?)\s*(?:\bwhere\b.*)?$/,
+    hasThrowStatements: false,
+    asyncModifiers: ['async'],
+    decoratorPattern: /^\s*#\[/,
+    lexicalSyntax: { rawStrings: true, lifetimes: true }
+};
+
+// suspend fun <T> name(params): Ret {, fun name(params) = expression, class/object/interface declarations
+export const kotlinGrammar: BraceGrammar = {
+    functionPattern: /^\s*(?<modifiers>(?:(?:public|private|protected|internal|override|open|abstract|final|suspend|inline|operator|infix|tailrec|external|actual|expect)\s+)*)fun\s+(?:<[^(]*>\s*)?(?:[\w.<>?, ]+\.)?(?<name>[A-Za-z_]\w*)\s*\(/,
+    hasFunctionKeyword: true,
+    typePattern: /^\s*(?:(?:public|private|protected|internal|open|abstract|sealed|data|inner|final|annotation|value|inline|expect|actual)\s+)*(?<keyword>enum\s+class|interface|class|object)\s+(?<name>[A-Za-z_]\w*)/,
+    typeKinds: {
+        'class': 'class',
+        'object': 'class',
+        'interface': 'interface',
+        'enum class': 'enum'
+    },
+    parameterStyle: 'nameFirst',
+    returnTypePattern: /^\s*:\s*(.+?)\s*$/,
+    hasThrowStatements: true,
+    asyncModifiers: ['suspend'],
+    decoratorPattern: /^\s*@\w/,
+    expressionBodyToken: '='
+};
+
+// public static function name(params): ?Ret {, class/interface/trait/enum declarations
+export const phpGrammar: BraceGrammar = {
+    functionPattern: /^\s*(?<modifiers>(?:(?:public|private|protected|static|abstract|final)\s+)*)function\s+&?(?<name>[A-Za-z_]\w*)\s*\(/,
+    hasFunctionKeyword: true,
+    typePattern: /^\s*(?:(?:abstract|final|readonly)\s+)*(?<keyword>class|interface|trait|enum)\s+(?<name>[A-Za-z_]\w*)/,
+    typeKinds: {
+        'class': 'class',
+        'trait': 'class',
+        'interface': 'interface',
+        'enum': 'enum'
+    },
+    parameterStyle: 'php',
+    returnTypePattern: /^\s*:\s*(.+?)\s*$/,
+    hasThrowStatements: true,
+    asyncModifiers: [],
+    generatorPattern: /\byield\b/,
+    decoratorPattern: /^\s*#\[/,
+    lexicalSyntax: { hashComments: true }
+};
+
+// Best effort for languages without a dedicated grammar: a name followed by a parameter list and a
+// brace body. Calls such as `print(x);` end with a semicolon instead and are never matched.
+export const genericGrammar: BraceGrammar = {
+    functionPattern: /^\s*(?:[A-Za-z_][\w.:<>[\]*&]*\s+)*(?<name>[A-Za-z_]\w*)\s*\(/,
+    typeKinds: {},
+    parameterStyle: 'untyped',
+    hasThrowStatements: true,
+    asyncModifiers: ['async'],
+    lexicalSyntax: { regexLiterals: true, templateStrings: true }
+};
@@ -0,0 +1,326 @@
+import { TypeScriptParser } from '../parsers/typeScriptParser';
+import { PythonParser } from '../parsers/pythonParser';
+import { RubyParser } from '../parsers/rubyParser';
+import { BraceLanguageParser } from '../parsers/braceLanguageParser';
+import { BlockDocCommentDetector, CompositeDocCommentDetector, DocstringDetector, LineDocCommentDetector } from './docComments';
+import { BlockCommentFormatter, DocstringFormatter, LineCommentFormatter } from './formatters';
+import {
+    EpytextDocstringRenderer,
+    GoogleDocstringRenderer,
+    NumpyDocstringRenderer,
+    PlainDocRenderer,
+    RustdocRenderer,
+    SphinxDocstringRenderer,
+    TagDocRenderer,
+    XmlDocRenderer,
+    doxygenTags,
+    javaDocTags,
+    jsDocTags,
+    kDocTags,
+    phpDocTags,
+    tsDocTags,
+    yardTags
+} from './docRenderers';
+import { cStyleGrammar, genericGrammar, goGrammar, kotlinGrammar, phpGrammar, rustGrammar } from './grammars';
+import { DocStyle, LanguageSupport } from './languageSupport';
+
+export class LanguageRegistry {
+    private static defaultRegistry: LanguageRegistry;
+    private languages: Map<string, LanguageSupport> = new Map();
+    private fallback: LanguageSupport;
+
+    /**
+     * @param fallback Support used for languages that are not registered
+     */
+    constructor(fallback: LanguageSupport) {
+        this.fallback = fallback;
+    }
+
+    /**
+     * Get the shared registry with the built-in languages
+     * @returns The default registry
+     */
+    public static getDefault(): LanguageRegistry {
+        if (!LanguageRegistry.defaultRegistry) {
+            LanguageRegistry.defaultRegistry = createBuiltinRegistry();
+        }
+
+        return LanguageRegistry.defaultRegistry;
+    }
+
+    /**
+     * Register support for one or more languages, replacing any existing registration
+     * @param support Parser, doc comment detector, formatter and file extensions of the language
+     */
+    public register(support: LanguageSupport): void {
+        for (const languageId of support.languageIds) {
+            this.languages.set(languageId, support);
+        }
+    }
+
+    /**
+     * Get the support registered for a language
+     * @param languageId VS Code language identifier
+     * @returns The registered support, or the generic fallback for unknown languages
+     */
+    public get(languageId: string): LanguageSupport {
+        return this.languages.get(languageId) ?? this.fallback;
+    }
+
+    /**
+     * Check whether a language has a registered parser
+     * @param languageId VS Code language identifier
+     * @returns True for registered languages
+     */
+    public isSupported(languageId: string): boolean {
+        return this.languages.has(languageId);
+    }
+
+    /**
+     * Get the file extensions of a language
+     * @param languageId VS Code language identifier
+     * @returns File extensions including the leading dot, or an empty array for unknown languages
+     */
+    public getFileExtensions(languageId: string): string[] {
+        return this.languages.get(languageId)?.fileExtensions ?? [];
+    }
+
+    /**
+     * Get all registered language identifiers
+     * @returns Language identifiers
+     */
+    public getLanguageIds(): string[] {
+        return [...this.languages.keys()];
+    }
+}
+
+/**
+ * Create a registry with the built-in languages
+ * @returns Registry with JavaScript, TypeScript, Python, Java, C#, C, C++, Go, Rust, Ruby, PHP and Kotlin
+ */
+function createBuiltinRegistry(): LanguageRegistry {
+    const typeScriptParser = new TypeScriptParser();
+    const cStyleParser = new BraceLanguageParser(cStyleGrammar);
+    const blockComments = new BlockDocCommentDetector();
+    const doxygenComments = new CompositeDocCommentDetector([blockComments, new LineDocCommentDetector('///')]);
+    const blockFormatter = new BlockCommentFormatter();
+    const jsDocFormatter = new BlockCommentFormatter('@file');
+    const pep257 = 'Follow PEP 257 docstring conventions.';
+
+    const registry = new LanguageRegistry({
+        languageIds: [],
+        fileExtensions: [],
+        parser: new BraceLanguageParser(genericGrammar),
+        docComments: new CompositeDocCommentDetector([
+            blockComments,
+            new LineDocCommentDetector('///'),
+            new LineDocCommentDetector('//'),
+            new LineDocCommentDetector('#')
+        ]),
+        formatter: new LineCommentFormatter('//'),
+        styles: [{
+            id: 'plain',
+            label: 'Plain text',
+            renderer: new PlainDocRenderer(),
+            documentationStandards: 'Provide clear, concise documentation explaining the function\'s purpose, parameters, and return value.'
+        }]
+    });
+
+    const jsDocStyle = (documentationStandards: string): DocStyle => ({
+        id: 'jsdoc',
+        label: 'JSDoc',
+        renderer: new TagDocRenderer(jsDocTags),
+        documentationStandards: documentationStandards,
+        pattern: /@param\s+\{/
+    });
+
+    registry.register({
+        languageIds: ['javascript', 'javascriptreact'],
+        fileExtensions: ['.js', '.jsx', '.mjs', '.cjs'],
+        parser: typeScriptParser,
+        docComments: blockComments,
+        formatter: jsDocFormatter,
+        styles: [jsDocStyle('Use JSDoc format. Include @param, @returns, and @throws tags.')]
+    });
+
+    registry.register({
+        languageIds: ['typescript', 'typescriptreact'],
+        fileExtensions: ['.ts', '.tsx', '.mts', '.cts'],
+        parser: typeScriptParser,
+        docComments: blockComments,
+        formatter: jsDocFormatter,
+        styles: [
+            jsDocStyle('Use TypeScript-specific JSDoc. Include type information and detailed parameter descriptions.'),
+            {
+                id: 'tsdoc',
+                label: 'TSDoc',
+                renderer: new TagDocRenderer(tsDocTags),
+                documentationStandards: 'Use TSDoc. Types come from the signature, so describe what parameters and results mean rather than their types.',
+                pattern: /@param\s+[\w$]+\s+-\s/
+            }
+        ]
+    });
+
+    registry.register({
+        languageIds: ['python'],
+        fileExtensions: ['.py', '.pyi'],
+        parser: new PythonParser(),
+        docComments: new DocstringDetector(),
+        formatter: new DocstringFormatter(),
+        styles: [
+            {
+                id: 'google',
+                label: 'Google',
+                renderer: new GoogleDocstringRenderer(),
+                documentationStandards: `${pep257} Use Google docstring style with Args:, Returns: and Raises: sections.`,
+                pattern: /^\s*(?:Args|Arguments|Returns|Raises|Yields):\s*$/m
+            },
+            {
+                id: 'numpy',
+                label: 'NumPy',
+                renderer: new NumpyDocstringRenderer(),
+                documentationStandards: `${pep257} Use NumPy docstring style with underlined Parameters, Returns and Raises sections.`,
+                pattern: /^\s*(?:Parameters|Returns|Raises|Yields)\s*\n\s*-{3,}\s*$/m
+            },
+            {
+                id: 'sphinx',
+                label: 'Sphinx',
+                renderer: new SphinxDocstringRenderer(),
+                documentationStandards: `${pep257} Use Sphinx reStructuredText fields: :param:, :type:, :returns:, :rtype: and :raises:.`,
+                pattern: /^\s*:(?:param|returns?|raises?|rtype)\b[^:\n]*:/m
+            },
+            {
+                id: 'epytext',
+                label: 'Epytext',
+                renderer: new EpytextDocstringRenderer(),
+                documentationStandards: `${pep257} Use Epytext fields: @param, @type, @return, @rtype and @raise.`,
+                pattern: /^\s*@(?:param|type|return|rtype|raise)\b[^:\n]*:/m
+            }
+        ]
+    });
+
+    registry.register({
+        languageIds: ['java'],
+        fileExtensions: ['.java'],
+        parser: cStyleParser,
+        docComments: blockComments,
+        formatter: blockFormatter,
+        styles: [{
+            id: 'javadoc',
+            label: 'Javadoc',
+            renderer: new TagDocRenderer(javaDocTags),
+            documentationStandards: 'Use JavaDoc format. Include @param, @return, and @throws tags.'
+        }]
+    });
+
+    registry.register({
+        languageIds: ['csharp'],
+        fileExtensions: ['.cs'],
+        parser: cStyleParser,
+        docComments: new CompositeDocCommentDetector([new LineDocCommentDetector('///'), blockComments]),
+        formatter: new LineCommentFormatter('///'),
+        styles: [{
+            id: 'xml',
+            label: 'XML documentation comments',
+            renderer: new XmlDocRenderer(),
+            documentationStandards: 'Use XML documentation comments. Include <summary>, <param>, <returns>, and <exception> tags.'
+        }]
+    });
+
+    const doxygenStyle = (documentationStandards: string): DocStyle => ({
+        id: 'doxygen',
+        label: 'Doxygen',
+        renderer: new TagDocRenderer(doxygenTags),
+        documentationStandards: documentationStandards
+    });
+
+    registry.register({
+        languageIds: ['cpp'],
+        fileExtensions: ['.cpp', '.cc', '.cxx', '.h', '.hpp'],
+        parser: cStyleParser,
+        docComments: doxygenComments,
+        formatter: blockFormatter,
+        styles: [doxygenStyle('Use Doxygen format. Include @brief, @param, @return, and @throws tags.')]
+    });
+
+    registry.register({
+        languageIds: ['c'],
+        fileExtensions: ['.c', '.h'],
+        parser: cStyleParser,
+        docComments: doxygenComments,
+        formatter: blockFormatter,
+        styles: [doxygenStyle('Use Doxygen format. Include @brief, @param, and @return tags.')]
+    });
+
+    registry.register({
+        languageIds: ['go'],
+        fileExtensions: ['.go'],
+        parser: new BraceLanguageParser(goGrammar),
+        docComments: new LineDocCommentDetector('//'),
+        formatter: new LineCommentFormatter('//'),
+        styles: [{
+            id: 'godoc',
+            label: 'Go doc comments',
+            renderer: new PlainDocRenderer(),
+            documentationStandards: 'Follow Go doc comment conventions: complete sentences that begin with the name of the symbol, no tags.'
+        }]
+    });
+
+    registry.register({
+        languageIds: ['rust'],
+        fileExtensions: ['.rs'],
+        parser: new BraceLanguageParser(rustGrammar),
+        docComments: new LineDocCommentDetector('///', '//!'),
+        formatter: new LineCommentFormatter('///', '//!'),
+        styles: [{
+            id: 'rustdoc',
+            label: 'rustdoc',
+            renderer: new RustdocRenderer(),
+            documentationStandards: 'Use rustdoc Markdown. Add # Arguments, # Returns, # Errors, # Panics, and # Examples sections where relevant.'
+        }]
+    });
+
+    registry.register({
+        languageIds: ['ruby'],
+        fileExtensions: ['.rb', '.rake'],
+        parser: new RubyParser(),
+        docComments: new LineDocCommentDetector('#'),
+        formatter: new LineCommentFormatter('#'),
+        styles: [{
+            id: 'yard',
+            label: 'YARD',
+            renderer: new TagDocRenderer(yardTags),
+            documentationStandards: 'Use YARD format. Include @param [Type] name, @return [Type], @raise [Error], and @example tags.'
+        }]
+    });
+
+    registry.register({
+        languageIds: ['php'],
+        fileExtensions: ['.php'],
+        parser: new BraceLanguageParser(phpGrammar),
+        docComments: blockComments,
+        formatter: blockFormatter,
+        styles: [{
+            id: 'phpdoc',
+            label: 'PHPDoc',
+            renderer: new TagDocRenderer(phpDocTags),
+            documentationStandards: 'Use PHPDoc format. Include @param Type $name, @return Type, and @throws tags.'
+        }]
+    });
+
+    registry.register({
+        languageIds: ['kotlin'],
+        fileExtensions: ['.kt', '.kts'],
+        parser: new BraceLanguageParser(kotlinGrammar),
+        docComments: blockComments,
+        formatter: blockFormatter,
+        styles: [{
+            id: 'kdoc',
+            label: 'KDoc',
+            renderer: new TagDocRenderer(kDocTags),
+            documentationStandards: 'Use KDoc format. Include @param, @return, @throws, and @property tags; use Markdown in descriptions.'
+        }]
+    });
+
+    return registry;
+}
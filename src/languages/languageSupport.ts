@@ -0,0 +1,69 @@
+import * as vscode from 'vscode';
+import { DocumentableSymbol, SymbolKind } from '../codeParser';
+import { DocModel } from './docModel';
+
+/**
+ * Finds the documentable symbols of a document
+ */
+export interface SymbolParser {
+    findAllSymbols(document: vscode.TextDocument): DocumentableSymbol[];
+}
+
+/**
+ * Documentation found in a document, with the exact range it occupies
+ */
+export interface DocComment {
+    text: string;
+    range: vscode.Range;
+}
+
+/**
+ * Finds documentation that is already attached to a symbol or to the module
+ */
+export interface DocCommentDetector {
+    findDocumentation(lines: string[], symbol: DocumentableSymbol): DocComment | undefined;
+    findModuleDocumentation(lines: string[], firstContentLine: number): DocComment | undefined;
+}
+
+/**
+ * Wraps documentation text in the language's doc comment syntax. `format` first cleans up free
+ * text written by the model; `wrap` takes rendered text as it is.
+ */
+export interface DocFormatter {
+    format(documentation: string, kind: SymbolKind): string;
+    wrap(text: string, kind: SymbolKind): string;
+}
+
+/**
+ * Turns a doc model into the text of one doc comment style, without comment markers
+ */
+export interface DocRenderer {
+    render(model: DocModel, kind: SymbolKind): string;
+}
+
+/**
+ * A doc comment style of a language, such as Google or NumPy docstrings for Python
+ */
+export interface DocStyle {
+    // Value of `gptDocAssistant.documentationStyle`
+    id: string;
+    label: string;
+    renderer: DocRenderer;
+    // Sent to the model unless the user configured their own standards for the language
+    documentationStandards: string;
+    // Matches documentation written in this style; used to detect the style a project uses
+    pattern?: RegExp;
+}
+
+/**
+ * Everything the extension needs to know about one language, registered as a single unit
+ */
+export interface LanguageSupport {
+    languageIds: string[];
+    fileExtensions: string[];
+    parser: SymbolParser;
+    docComments: DocCommentDetector;
+    formatter: DocFormatter;
+    // Doc comment styles of the language; the first one is the default
+    styles: DocStyle[];
+}
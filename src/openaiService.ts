@@ -1,93 +1,166 @@
 import * as dotenv from 'dotenv'; // New import
-import { OpenAI } from 'openai';
 import * as vscode from 'vscode';
 import { Logger } from './utils/logger';
+import { DocumentableSymbol, SymbolKind } from './codeParser';
+import { DocModel, docModelSchema, parseDocModel } from './languages/docModel';
+import { CompletionRequest, LLMProvider, TruncatedResponseError } from './providers/llmProvider';
+import { createProvider } from './providers/providerFactory';
 
 // Load environment variables - New line
 dotenv.config();
 
+export interface GenerationOptions {
+    // Aborts the HTTP request when cancellation is requested
+    token?: vscode.CancellationToken;
+    // Called with the text received so far while the response streams in
+    onProgress?: (text: string) => void;
+}
+
+/**
+ * A kind of request, configured under `gptDocAssistant.<operation>`. "review" is the request
+ * that corrects documentation after it failed validation.
+ */
+export type Operation = 'generate' | 'update' | 'explain' | 'review';
+
+export interface OperationSettings {
+    model: string;
+    temperature: number;
+    maxTokens: number;
+    // Seconds before the request is aborted; 0 for no limit
+    timeout: number;
+    systemPrompt: string;
+}
+
+// Used for settings of an operation that are not configured
+const operationDefaults: { [key in Operation]: Omit<OperationSettings, 'model'> } = {
+    generate: {
+        temperature: 0.7, // Balance between creativity and determinism
+        maxTokens: 2000,
+        timeout: 120,
+        systemPrompt: 'You are a professional developer assistant specialized in writing high-quality code documentation. Create clear, concise, and informative documentation that follows the specified standards and best practices. You answer with a single JSON object.'
+    },
+    update: {
+        temperature: 0.5, // Lower temperature for more deterministic output when updating
+        maxTokens: 2000,
+        timeout: 120,
+        systemPrompt: 'You are a professional developer assistant specialized in updating code documentation. Update the existing documentation to reflect code changes while keeping its original wording where possible. You answer with a single JSON object.'
+    },
+    explain: {
+        temperature: 0.3, // Explanations should stick to what the code does
+        maxTokens: 1000,
+        timeout: 120,
+        systemPrompt: 'You are a professional developer assistant who explains unfamiliar code to other developers clearly and accurately.'
+    },
+    review: {
+        temperature: 0.3, // A repair should change as little as possible
+        maxTokens: 2000,
+        timeout: 120,
+        systemPrompt: 'You are a professional developer assistant specialized in correcting code documentation so that it matches the code exactly. You answer with a single JSON object.'
+    }
+};
+
+/**
+ * Writes the prompts for documentation and explanations and sends them to the provider selected
+ * with `gptDocAssistant.provider`
+ */
 export class OpenAIService {
-    private openai: OpenAI | null = null;
+    private provider: LLMProvider | null;
     private logger: Logger;
 
-    constructor() {
+    /**
+     * @param provider Provider requests are sent to until `initialize` selects the configured one
+     */
+    constructor(provider: LLMProvider | null = null) {
         this.logger = new Logger('OpenAIService');
+        this.provider = provider;
     }
 
     /**
-     * Initialize the OpenAI client with the API key
-     * @param apiKey OpenAI API key
+     * Initialize the provider selected with `gptDocAssistant.provider` from its settings, with
+     * environment variables as fallback for API keys
+     * @param apiKey API key to use instead of the configured one
      * @returns Boolean indicating whether initialization was successful
      */
-    public initialize(apiKey?: string): boolean { // Changed to optional parameter
-        try {
-            // Try to use provided key or environment variable
-            const key = apiKey || process.env.OPENAI_API_KEY;
-            
-            // Added check for key existence
-            if (!key) {
-                this.logger.error('No API key provided');
-                return false;
-            }
+    public initialize(apiKey?: string): boolean {
+        const providerId = vscode.workspace.getConfiguration('gptDocAssistant').get<string>('provider', 'openai');
 
-            this.openai = new OpenAI({
-                apiKey: key
-            });
-            this.logger.info('OpenAI client initialized');
+        try {
+            this.provider = createProvider(providerId, apiKey);
+            this.logger.info(`${this.provider.label} client initialized`);
             return true;
         } catch (error) {
-            this.logger.error(`Failed to initialize OpenAI client: ${error}`);
+            this.provider = null;
+            this.logger.error(`Failed to initialize the ${providerId} client: ${error}`);
             return false;
         }
     }
 
+    /**
+     * Initialize the provider again whenever the provider or its credentials change, e.g. when
+     * another workspace selects a different provider
+     * @returns Disposable that stops watching the settings
+     */
+    public register(): vscode.Disposable {
+        return vscode.workspace.onDidChangeConfiguration(event => {
+            const sections = ['provider', 'openaiApiKey', 'azureOpenai', 'anthropic', 'openaiCompatible'];
+            if (sections.some(section => event.affectsConfiguration(`gptDocAssistant.${section}`))) {
+                this.initialize();
+            }
+        });
+    }
+
+    /**
+     * List the chat models of the selected provider. Listing models is also how an API key is
+     * tested before it is saved.
+     * @param apiKey Key to use instead of the one the provider was initialized with
+     * @returns Model identifiers, sorted; empty when the provider cannot list them
+     */
+    public async listModels(apiKey?: string): Promise<string[]> {
+        const providerId = vscode.workspace.getConfiguration('gptDocAssistant').get<string>('provider', 'openai');
+        const provider = apiKey ? createProvider(providerId, apiKey) : this.provider;
+        if (!provider) {
+            throw new Error('LLM provider not initialized');
+        }
+
+        return provider.listModels();
+    }
+
     /**
      * Generate documentation for the given code using the GPT model
      * @param code The code to document
      * @param language The programming language
      * @param context Additional context about the codebase
      * @param documentationStandards Documentation standards to follow
-     * @returns Generated documentation string
+     * @param symbol Parsed symbol the code belongs to, used to state its signature as facts
+     * @param options Cancellation token and streaming callback; the callback receives the JSON received so far
+     * @returns Generated documentation, validated against the doc model schema
      */
     public async generateDocumentation(
         code: string, 
         language: string, 
         context: string = '', 
-        documentationStandards: string = ''
-    ): Promise<string> {
-        if (!this.openai) {
-            throw new Error('OpenAI client not initialized');
+        documentationStandards: string = '',
+        symbol?: DocumentableSymbol,
+        options: GenerationOptions = {}
+    ): Promise<DocModel> {
+        if (!this.provider) {
+            throw new Error('LLM provider not initialized');
         }
 
         try {
             // Construct the prompt
-            let prompt = this.constructPrompt(code, language, context, documentationStandards);
+            let prompt = this.constructPrompt(code, language, context, documentationStandards, symbol);
             
-            // Call the OpenAI API
-            const response = await this.openai.chat.completions.create({
-                model: 'gpt-4', // Use the appropriate model
-                messages: [
-                    {
-                        role: 'system',
-                        content: 'You are a professional developer assistant specialized in writing high-quality code documentation. Create clear, concise, and informative documentation that follows the specified standards and best practices.'
-                    },
-                    {
-                        role: 'user',
-                        content: prompt
-                    }
-                ],
-                temperature: 0.7, // Balance between creativity and determinism
-                max_tokens: 1000, // Limit response size
-            });
-
-            // Extract and return the generated documentation
-            if (response.choices && response.choices.length > 0 && response.choices[0].message) {
-                return response.choices[0].message.content || '';
-            } else {
-                throw new Error('No response from OpenAI API');
-            }
+            // Call the model
+            const response = await this.streamCompletion('generate', prompt, options);
+
+            return parseDocModel(response);
         } catch (error) {
-            this.logger.error(`Error calling OpenAI API: ${error}`);
+            if (error instanceof vscode.CancellationError) {
+                throw error;
+            }
+
+            this.logger.error(`Error calling the model: ${error}`);
             throw new Error(`Failed to generate documentation: ${error}`);
         }
     }
@@ -98,22 +171,29 @@ export class OpenAIService {
      * @param existingDocumentation Existing documentation
      * @param language The programming language
      * @param context Additional context about the codebase
-     * @returns Updated documentation string
+     * @param documentationStandards Documentation standards to follow
+     * @param symbol Parsed symbol the code belongs to, used to state its signature as facts
+     * @param options Cancellation token and streaming callback; the callback receives the JSON received so far
+     * @returns Updated documentation, validated against the doc model schema
      */
     public async updateDocumentation(
         code: string, 
         existingDocumentation: string, 
         language: string, 
-        context: string = ''
-    ): Promise<string> {
-        if (!this.openai) {
-            throw new Error('OpenAI client not initialized');
+        context: string = '',
+        documentationStandards: string = '',
+        symbol?: DocumentableSymbol,
+        options: GenerationOptions = {}
+    ): Promise<DocModel> {
+        if (!this.provider) {
+            throw new Error('LLM provider not initialized');
         }
 
         try {
             // Construct the prompt for updating documentation
+            const kind = symbol?.kind ?? 'function';
             const prompt = `
-            I have the following ${language} code:
+            I have the following ${language} ${this.getSymbolLabel(kind)}:
             \`\`\`${language}
             ${code}
             \`\`\`
@@ -125,54 +205,268 @@ export class OpenAIService {
 
             ${context ? `Additional context about the codebase:\n${context}\n` : ''}
 
-            Please update the documentation to accurately reflect the current code while maintaining the same style and format. Only make changes if necessary based on code modifications.
+            ${documentationStandards ? `The documentation should follow these standards:\n${documentationStandards}\n` : ''}
+
+            ${symbol ? this.describeSignatureFacts(symbol) : ''}
+
+            Please update the documentation to accurately reflect the current code, keeping the existing wording where it is still accurate. Only make changes if necessary based on code modifications.
+            ${kind === 'enum' ? 'Keep one entry per enum member in "members", and add entries for members that are new.' : ''}
+
+            ${this.describeResponseFormat()}
             `;
 
-            // Call the OpenAI API
-            const response = await this.openai.chat.completions.create({
-                model: 'gpt-4', // Use the appropriate model
-                messages: [
-                    {
-                        role: 'system',
-                        content: 'You are a professional developer assistant specialized in updating code documentation. Update the existing documentation to reflect code changes while maintaining the original style and format.'
-                    },
-                    {
-                        role: 'user',
-                        content: prompt
-                    }
-                ],
-                temperature: 0.5, // Lower temperature for more deterministic output when updating
-                max_tokens: 1000, // Limit response size
-            });
-
-            // Extract and return the updated documentation
-            if (response.choices && response.choices.length > 0 && response.choices[0].message) {
-                return response.choices[0].message.content || '';
-            } else {
-                throw new Error('No response from OpenAI API');
-            }
+            // Call the model
+            const response = await this.streamCompletion('update', prompt, options);
+
+            return parseDocModel(response);
         } catch (error) {
-            this.logger.error(`Error calling OpenAI API for update: ${error}`);
+            if (error instanceof vscode.CancellationError) {
+                throw error;
+            }
+
+            this.logger.error(`Error calling the model for update: ${error}`);
             throw new Error(`Failed to update documentation: ${error}`);
         }
     }
 
+    /**
+     * Ask for documentation to be corrected after it failed validation against the signature
+     * @param code The documented code
+     * @param language The programming language
+     * @param documentation The documentation that failed validation
+     * @param problems What is wrong with it
+     * @param symbol Parsed symbol the code belongs to, used to state its signature as facts
+     * @param options Cancellation token and streaming callback; the callback receives the JSON received so far
+     * @returns Corrected documentation, validated against the doc model schema
+     */
+    public async repairDocumentation(
+        code: string,
+        language: string,
+        documentation: DocModel,
+        problems: string[],
+        symbol?: DocumentableSymbol,
+        options: GenerationOptions = {}
+    ): Promise<DocModel> {
+        if (!this.provider) {
+            throw new Error('LLM provider not initialized');
+        }
+
+        try {
+            const prompt = `
+            You documented the following ${language} ${this.getSymbolLabel(symbol?.kind ?? 'function')}:
+            \`\`\`${language}
+            ${code}
+            \`\`\`
+
+            Your documentation was:
+            ${JSON.stringify(documentation)}
+
+            It does not match the code:
+            ${problems.map(problem => `- ${problem}`).join('\n            ')}
+
+            ${symbol ? this.describeSignatureFacts(symbol) : ''}
+
+            Fix only these problems and keep everything else as it is.
+            ${this.describeResponseFormat()}
+            `;
+
+            // Call the model
+            const response = await this.streamCompletion('review', prompt, options);
+
+            return parseDocModel(response);
+        } catch (error) {
+            if (error instanceof vscode.CancellationError) {
+                throw error;
+            }
+
+            this.logger.error(`Error calling the model for repair: ${error}`);
+            throw new Error(`Failed to repair documentation: ${error}`);
+        }
+    }
+
+    /**
+     * Explain what the given code does, for a reader who does not know it yet
+     * @param code The code to explain
+     * @param language The programming language
+     * @param context Additional context about the codebase
+     * @param symbol Parsed symbol the code belongs to, used to state its signature as facts
+     * @param options Cancellation token and streaming callback
+     * @returns Markdown explanation
+     */
+    public async explainCode(
+        code: string,
+        language: string,
+        context: string = '',
+        symbol?: DocumentableSymbol,
+        options: GenerationOptions = {}
+    ): Promise<string> {
+        if (!this.provider) {
+            throw new Error('LLM provider not initialized');
+        }
+
+        try {
+            const prompt = `
+            Explain the following ${language} ${this.getSymbolLabel(symbol?.kind ?? 'function')}:
+            \`\`\`${language}
+            ${code}
+            \`\`\`
+
+            ${context ? `Additional context about the codebase:\n${context}\n` : ''}
+
+            ${symbol ? this.describeSignatureFacts(symbol) : ''}
+
+            Start with a one-sentence summary of what it does. Then describe its inputs, its result,
+            its side effects and any errors it raises, and point out anything surprising.
+            Write short Markdown paragraphs or lists, without headings and without repeating the code.
+            `;
+
+            // Call the model
+            return await this.streamCompletion('explain', prompt, options);
+        } catch (error) {
+            if (error instanceof vscode.CancellationError) {
+                throw error;
+            }
+
+            this.logger.error(`Error calling the model for explanation: ${error}`);
+            throw new Error(`Failed to explain code: ${error}`);
+        }
+    }
+
+    /**
+     * Get the settings of an operation, read from the configuration on every request so changes
+     * apply without a reload
+     * @param operation The operation
+     * @returns The configured settings, with `gptDocAssistant.model` and the built-in defaults
+     * for what is not configured
+     */
+    public getOperationSettings(operation: Operation): OperationSettings {
+        const config = vscode.workspace.getConfiguration(`gptDocAssistant.${operation}`);
+        const defaults = operationDefaults[operation];
+
+        return {
+            model: config.get<string>('model') ||
+                vscode.workspace.getConfiguration('gptDocAssistant').get<string>('model', 'gpt-4'),
+            temperature: config.get<number>('temperature', defaults.temperature),
+            maxTokens: config.get<number>('maxTokens', defaults.maxTokens),
+            timeout: config.get<number>('timeout', defaults.timeout),
+            systemPrompt: config.get<string>('systemPrompt') || defaults.systemPrompt
+        };
+    }
+
+    /**
+     * Request a chat completion as a stream, reporting the text as it arrives. Cancelling the
+     * token aborts the HTTP request, and so does the operation's timeout.
+     * @param operation The operation, whose settings configure the request
+     * @param prompt The user message
+     * @param options Cancellation token and streaming callback
+     * @returns The complete response text
+     * @throws Error when the operation's timeout passes before the response is complete, or when
+     * the response is cut off at the operation's token limit
+     */
+    private async streamCompletion(
+        operation: Operation,
+        prompt: string,
+        options: GenerationOptions
+    ): Promise<string> {
+        if (options.token?.isCancellationRequested) {
+            throw new vscode.CancellationError();
+        }
+
+        const settings = this.getOperationSettings(operation);
+        const request: CompletionRequest = {
+            model: settings.model,
+            messages: [
+                { role: 'system', content: settings.systemPrompt },
+                { role: 'user', content: prompt }
+            ],
+            temperature: settings.temperature,
+            maxTokens: settings.maxTokens
+        };
+        this.traceRequest(request);
+
+        const controller = new AbortController();
+        const cancellation = options.token?.onCancellationRequested(() => controller.abort());
+        let timedOut = false;
+        const timer = settings.timeout > 0
+            ? setTimeout(() => {
+                timedOut = true;
+                controller.abort();
+            }, settings.timeout * 1000)
+            : undefined;
+
+        try {
+            const text = await this.provider!.streamCompletion(
+                request,
+                received => options.onProgress?.(received),
+                controller.signal
+            );
+
+            if (!text) {
+                throw new Error(`No response from ${this.provider!.label}`);
+            }
+
+            return text;
+        } catch (error) {
+            // Providers report an aborted request as their own error type
+            if (timedOut) {
+                throw new Error(`${this.provider!.label} did not respond within ${settings.timeout} seconds; raise gptDocAssistant.${operation}.timeout`);
+            }
+            if (controller.signal.aborted) {
+                throw new vscode.CancellationError();
+            }
+            if (error instanceof TruncatedResponseError) {
+                throw new Error(`${error.message}; raise gptDocAssistant.${operation}.maxTokens`);
+            }
+            throw error;
+        } finally {
+            clearTimeout(timer);
+            cancellation?.dispose();
+        }
+    }
+
+    /**
+     * Write a request to the output channel exactly as it is sent, when
+     * `gptDocAssistant.trace.prompts` is on
+     * @param request The chat completion request
+     */
+    private traceRequest(request: CompletionRequest): void {
+        const trace = vscode.workspace
+            .getConfiguration('gptDocAssistant.trace')
+            .get<boolean>('prompts', false);
+
+        if (!trace) {
+            return;
+        }
+
+        const messages = request.messages
+            .map(message => `--- ${message.role} ---\n${message.content}`)
+            .join('\n');
+
+        this.logger.info(
+            `Request to ${request.model} on ${this.provider!.label} (temperature ${request.temperature}, max_tokens ${request.maxTokens}):\n${messages}`
+        );
+    }
+
     /**
      * Construct a prompt for the GPT model based on the code and context
      * @param code The code to document
      * @param language The programming language
      * @param context Additional context about the codebase
      * @param documentationStandards Documentation standards to follow
+     * @param symbol Parsed symbol the code belongs to
      * @returns Constructed prompt string
      */
     private constructPrompt(
         code: string,
         language: string,
         context: string,
-        documentationStandards: string
+        documentationStandards: string,
+        symbol?: DocumentableSymbol
     ): string {
+        const kind = symbol?.kind ?? 'function';
+
         return `
-        I need documentation for the following ${language} code:
+        I need documentation for the following ${language} ${this.getSymbolLabel(kind)}:
         \`\`\`${language}
         ${code}
         \`\`\`
@@ -181,24 +475,166 @@ export class OpenAIService {
 
         ${documentationStandards ? `Please follow these documentation standards:\n${documentationStandards}\n` : ''}
 
-        Generate comprehensive documentation that explains:
+        ${symbol ? this.describeSignatureFacts(symbol) : ''}
+
+        ${this.getSymbolInstructions(kind)}
+
+        Be concise but thorough, and make sure the documentation is helpful for other developers.
+        ${this.describeResponseFormat()}
+        `;
+    }
+
+    /**
+     * Ask for the documentation as a doc model. The extension renders the doc comment itself,
+     * so the model never writes comment syntax into the source file.
+     * @returns Response format instructions, including the JSON Schema
+     */
+    private describeResponseFormat(): string {
+        return `Respond with only a JSON object that matches this JSON Schema, without Markdown fences or any other text:
+        ${JSON.stringify(docModelSchema)}
+        Write plain text in every field: no comment markers, no tags such as @param, and no type annotations in descriptions.
+        Leave out fields that do not apply; use null for "returns" when nothing is returned.`;
+    }
+
+    /**
+     * State the parsed signature of a symbol as facts the documentation must match,
+     * so parameter and return entries mirror the real declaration instead of a guess
+     * @param symbol Parsed symbol
+     * @returns Fact list, or an empty string when nothing was extracted
+     */
+    private describeSignatureFacts(symbol: DocumentableSymbol): string {
+        const facts: string[] = [];
+
+        facts.push(`- Name: ${symbol.name}${symbol.className ? ` (member of ${symbol.className})` : ''}`);
+
+        if (symbol.typeParameters && symbol.typeParameters.length > 0) {
+            facts.push(`- Type parameters: ${symbol.typeParameters.join(', ')}`);
+        }
+
+        if (symbol.decorators && symbol.decorators.length > 0) {
+            facts.push(`- Decorators: ${symbol.decorators.join(', ')}`);
+        }
+
+        if (symbol.parameters) {
+            if (symbol.parameters.length === 0) {
+                facts.push('- Parameters: none');
+            } else {
+                facts.push('- Parameters (in order):');
+                for (const parameter of symbol.parameters) {
+                    const details = [
+                        parameter.type ? `type ${parameter.type}` : '',
+                        parameter.defaultValue !== undefined ? `default ${parameter.defaultValue}` : '',
+                        parameter.optional && parameter.defaultValue === undefined ? 'optional' : '',
+                        parameter.rest ? 'variadic' : ''
+                    ].filter(detail => detail !== '');
+
+                    facts.push(`  - ${parameter.name}${details.length > 0 ? ` (${details.join(', ')})` : ''}`);
+                }
+            }
+        }
+
+        if (symbol.returnType) {
+            facts.push(`- Declared return type: ${symbol.returnType}`);
+        }
+
+        if (symbol.isAsync) {
+            facts.push('- The function is asynchronous');
+        }
+
+        if (symbol.isGenerator) {
+            facts.push('- The function is a generator (it yields values)');
+        }
+
+        if (symbol.throws && symbol.throws.length > 0) {
+            facts.push(`- Throws: ${symbol.throws.join(', ')}`);
+        }
+
+        if (facts.length === 1) {
+            return '';
+        }
+
+        return `Facts extracted from the signature. The documentation must match them exactly:
+        document every listed parameter by its exact name, in this order, and do not invent parameters that are not listed.
+        ${facts.join('\n        ')}`;
+    }
+
+    /**
+     * Describe a symbol kind in prompt wording
+     * @param kind Kind of symbol being documented
+     * @returns Human-readable label for the symbol kind
+     */
+    private getSymbolLabel(kind: SymbolKind): string {
+        const labels: { [key in SymbolKind]: string } = {
+            'function': 'code',
+            'class': 'class',
+            'interface': 'interface',
+            'enum': 'enum',
+            'typeAlias': 'type alias',
+            'module': 'module (the whole file is shown)'
+        };
+
+        return labels[kind];
+    }
+
+    /**
+     * Get the documentation checklist for a symbol kind
+     * @param kind Kind of symbol being documented
+     * @returns Instructions describing what the documentation must cover
+     */
+    private getSymbolInstructions(kind: SymbolKind): string {
+        switch (kind) {
+            case 'class':
+                return `Generate documentation for the class declaration (not for its individual methods) that explains:
+        1. The responsibility of the class and when to use it
+        2. A summary of the constructor and its parameters
+        3. The most important public members
+        4. Example usage (if helpful)`;
+
+            case 'interface':
+                return `Generate documentation for the interface that explains:
+        1. What the interface represents and who implements or consumes it
+        2. Each member, as an entry of "members", in declaration order`;
+
+            case 'enum':
+                return `Generate documentation for the enum that explains:
+        1. What the enum represents (a one or two sentence summary)
+        2. Each member, as an entry of "members", in declaration order`;
+
+            case 'typeAlias':
+                return `Generate documentation for the type alias that explains:
+        1. What the type represents
+        2. The meaning of each variant or field it is built from`;
+
+            case 'module':
+                return `Generate a file header comment that explains:
+        1. The purpose of the module
+        2. Its main exports or entry points
+        3. Notable dependencies or usage notes (if any)
+        Do not document individual functions.`;
+
+            default:
+                return `Generate comprehensive documentation that explains:
         1. What the code does (purpose and functionality)
         2. Parameters and their types (if applicable)
         3. Return values and their types (if applicable)
         4. Any exceptions or errors that might be thrown
-        5. Example usage (if helpful)
-
-        The documentation should be in the appropriate format for ${language} (e.g., JSDoc for JavaScript/TypeScript, docstrings for Python, etc.).
-        Be concise but thorough, and make sure the documentation is helpful for other developers.
-        Return only the documentation, without any additional text or explanation.
-        `;
+        5. Example usage (if helpful)`;
+        }
     }
 
     /**
-     * Check if the OpenAI service is properly initialized
+     * Check if the provider is properly initialized
      * @returns Boolean indicating whether the service is initialized
      */
     public isInitialized(): boolean {
-        return this.openai !== null;
+        return this.provider !== null;
+    }
+
+    /**
+     * Get the name of the provider requests are sent to
+     * @returns Provider name, or undefined before initialization
+     */
+    public getProviderLabel(): string | undefined {
+        return this.provider?.label;
     }
 }
\ No newline at end of file
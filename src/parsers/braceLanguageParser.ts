@@ -0,0 +1,467 @@
+import * as vscode from 'vscode';
+import { DocumentableSymbol, SymbolKind } from '../codeParser';
+import { SymbolParser } from '../languages/languageSupport';
+import { ParameterStyle, SignatureParser } from './signatureParser';
+import { CLikeLexer, LexicalSyntax } from './cLikeLexer';
+
+/**
+ * Declaration syntax of a language whose bodies are delimited by braces
+ */
+export interface BraceGrammar {
+    // Start of a function declaration up to and including the `(` of its parameter list.
+    // Named groups: `name` (required), `modifiers`, `typeParameters`, `returnType`, `receiver`
+    functionPattern: RegExp;
+    // Function declarations start with a keyword such as `fn`, so any name (e.g. `new`) is a declaration
+    hasFunctionKeyword?: boolean;
+    // Type declaration; named groups: `keyword`, `name`
+    typePattern?: RegExp;
+    // Symbol kind for each type keyword (whitespace collapsed, e.g. `enum class`)
+    typeKinds: { [keyword: string]: SymbolKind };
+    // Block that only names the owner of the functions inside it, e.g. a Rust `impl`; named group: `name`
+    containerPattern?: RegExp;
+    parameterStyle: ParameterStyle;
+    // Return type written after the parameter list; group 1 is the type
+    returnTypePattern?: RegExp;
+    // Exceptions declared after the parameter list, e.g. a Java `throws` clause; group 1 lists them
+    throwsClausePattern?: RegExp;
+    hasThrowStatements: boolean;
+    asyncModifiers: string[];
+    generatorPattern?: RegExp;
+    // Lines above a declaration that are decorators, annotations or attributes
+    decoratorPattern?: RegExp;
+    // Token that introduces an expression body, e.g. `=` in Kotlin or `=>` in C#
+    expressionBodyToken?: string;
+    lexicalSyntax?: LexicalSyntax;
+}
+
+interface DeclarationHeader {
+    text: string;
+    endLine: number;
+    terminator: string | null;
+    terminatorColumn: number;
+}
+
+interface SymbolBody {
+    body: string;
+    startLine: number;
+    endLine: number;
+}
+
+interface SymbolContainer {
+    name: string;
+    startLine: number;
+    endLine: number;
+}
+
+// Statements that look like `type name(...) {` but are not declarations
+const controlKeywords = ['if', 'else', 'for', 'foreach', 'while', 'do', 'switch', 'try', 'catch', 'return', 'using',
+    'lock', 'fixed', 'checked', 'unchecked', 'synchronized', 'await', 'new', 'throw', 'yield', 'sizeof', 'delete',
+    'this', 'super', 'base'];
+
+// Maximum number of lines a declaration header may span
+const maxHeaderLines = 20;
+
+export class BraceLanguageParser implements SymbolParser {
+    private grammar: BraceGrammar;
+    private signatureParser: SignatureParser;
+    private lexer: CLikeLexer;
+
+    constructor(grammar: BraceGrammar) {
+        this.grammar = grammar;
+        this.signatureParser = new SignatureParser();
+        this.lexer = new CLikeLexer(grammar.lexicalSyntax);
+    }
+
+    /**
+     * Find all functions and type declarations in the document. Declarations and braces are
+     * matched against the code only, with strings, comments and other literals blanked out.
+     * @param document The text document
+     * @returns Information about each function, class, interface and enum, in source order
+     */
+    public findAllSymbols(document: vscode.TextDocument): DocumentableSymbol[] {
+        const text = document.getText();
+        const lines = text.split('\n');
+        const code = this.lexer.maskNonCode(text).split('\n');
+        const language = document.languageId;
+        const symbols: DocumentableSymbol[] = [];
+        const containers: SymbolContainer[] = [];
+
+        for (let i = 0; i < lines.length; i++) {
+            const lineText = code[i];
+
+            const functionMatch = this.grammar.functionPattern.exec(lineText);
+            if (functionMatch && this.isDeclaration(functionMatch)) {
+                const symbol = this.createFunctionSymbol(lines, code, i, functionMatch, language);
+                if (symbol) {
+                    symbols.push(symbol);
+                }
+                continue;
+            }
+
+            const typeMatch = this.grammar.typePattern?.exec(lineText);
+            if (typeMatch) {
+                const symbol = this.createTypeSymbol(lines, code, i, typeMatch, language);
+                if (symbol) {
+                    symbols.push(symbol);
+                }
+                continue;
+            }
+
+            const containerMatch = this.grammar.containerPattern?.exec(lineText);
+            if (containerMatch?.groups) {
+                const header = this.readHeader(lines, code, i, containerMatch.index + containerMatch[0].length);
+                if (header.terminator === '{') {
+                    const { startLine, endLine } = this.findBody(lines, code, i, header);
+                    containers.push({ name: containerMatch.groups.name, startLine: startLine, endLine: endLine });
+                }
+            }
+        }
+
+        this.resolveOwners(symbols, containers);
+
+        return symbols;
+    }
+
+    /**
+     * Check that a function pattern match is a declaration and not a control statement
+     * such as `if (ready) {` or `synchronized (lock) {`
+     * @param match Function pattern match
+     * @returns True for declarations
+     */
+    private isDeclaration(match: RegExpExecArray): boolean {
+        if (this.grammar.hasFunctionKeyword) {
+            return true;
+        }
+
+        const groups = match.groups ?? {};
+        return !controlKeywords.includes(groups.name) && !controlKeywords.includes(groups.returnType);
+    }
+
+    /**
+     * Build the symbol for a function declaration
+     * @param lines The document lines
+     * @param code The document lines with literals and comments blanked out
+     * @param line Line of the declaration
+     * @param match Function pattern match
+     * @param language Language identifier of the document
+     * @returns The function symbol, or null for declarations without a body (prototypes, abstract methods)
+     */
+    private createFunctionSymbol(
+        lines: string[],
+        code: string[],
+        line: number,
+        match: RegExpExecArray,
+        language: string
+    ): DocumentableSymbol | null {
+        const groups = match.groups ?? {};
+        const openParen = match.index + match[0].length - 1;
+        const header = this.readHeader(lines, code, line, openParen);
+
+        const hasBlockBody = header.terminator === '{';
+        const hasExpressionBody = header.terminator !== null && header.terminator === this.grammar.expressionBodyToken;
+        if (!hasBlockBody && !hasExpressionBody) {
+            return null;
+        }
+
+        const { body, startLine, endLine } = hasBlockBody
+            ? this.findBody(lines, code, line, header)
+            : this.findExpressionBody(lines, line, header.endLine);
+
+        const parameterList = this.signatureParser.extractParameterList(header.text.substring(openParen));
+        const afterParameters = this.collapseWhitespace(header.text.substring(openParen + parameterList.length + 2));
+        const modifiers = (groups.modifiers ?? '').trim().split(/\s+/).filter(modifier => modifier !== '');
+        const returnTypeMatch = this.grammar.returnTypePattern?.exec(afterParameters);
+
+        // Declared exceptions (e.g. Java `throws` clause) followed by those thrown in the body
+        const throwsClause = this.grammar.throwsClausePattern?.exec(afterParameters);
+        const declaredExceptions = throwsClause
+            ? throwsClause[1].split(',').map(exception => exception.trim()).filter(exception => exception !== '')
+            : [];
+        // Exceptions and generator statements are only searched in code, not in comments or strings
+        const ownBody = code.slice(line, endLine + 1).join('\n').substring(header.text.length);
+        const thrownExceptions = this.grammar.hasThrowStatements
+            ? this.signatureParser.findThrownExceptions(ownBody, 'throw')
+            : [];
+
+        return {
+            kind: 'function',
+            name: groups.name,
+            signature: this.collapseWhitespace(header.text),
+            body: body,
+            startLine: startLine,
+            endLine: endLine,
+            language: language,
+            className: groups.receiver ? this.getReceiverTypeName(groups.receiver) : undefined,
+            modifiers: modifiers,
+            parameters: this.signatureParser.parseParameters(parameterList, this.grammar.parameterStyle),
+            typeParameters: groups.typeParameters ? this.signatureParser.splitTopLevel(groups.typeParameters) : undefined,
+            returnType: groups.returnType ?? (returnTypeMatch ? returnTypeMatch[1] : undefined),
+            isAsync: modifiers.some(modifier => this.grammar.asyncModifiers.includes(modifier)),
+            isGenerator: this.grammar.generatorPattern?.test(ownBody) ?? false,
+            decorators: this.grammar.decoratorPattern
+                ? this.findPrecedingLines(lines, startLine, this.grammar.decoratorPattern)
+                : [],
+            throws: [...new Set([...declaredExceptions, ...thrownExceptions])]
+        };
+    }
+
+    /**
+     * Build the symbol for a type declaration
+     * @param lines The document lines
+     * @param code The document lines with literals and comments blanked out
+     * @param line Line of the declaration
+     * @param match Type pattern match
+     * @param language Language identifier of the document
+     * @returns The type symbol, or null when the match is a variable declaration such as `struct point p;`
+     */
+    private createTypeSymbol(
+        lines: string[],
+        code: string[],
+        line: number,
+        match: RegExpExecArray,
+        language: string
+    ): DocumentableSymbol | null {
+        const groups = match.groups ?? {};
+        const nameEnd = match.index + match[0].length;
+        const header = this.readHeader(lines, code, line, nameEnd);
+        const kind = this.grammar.typeKinds[groups.keyword.replace(/\s+/g, ' ')] ?? 'class';
+
+        // Only unit and tuple declarations (`struct Unit;`, `struct Pair(i32, i32);`) end with a semicolon
+        if (header.terminator === ';' && !/^\s*([(<].*)?$/.test(header.text.substring(nameEnd))) {
+            return null;
+        }
+
+        // Declarations such as `struct Unit;` or `data class Point(val x: Int)` have no body
+        const { body, startLine, endLine } = header.terminator === '{'
+            ? this.findBody(lines, code, line, header)
+            : { body: lines.slice(line, header.endLine + 1).join('\n'), startLine: line, endLine: header.endLine };
+
+        return {
+            kind: kind,
+            name: groups.name,
+            signature: this.collapseWhitespace(header.text),
+            body: body,
+            startLine: startLine,
+            endLine: endLine,
+            language: language,
+            members: kind === 'enum' ? this.findEnumMembers(body) : undefined
+        };
+    }
+
+    /**
+     * Read a declaration header from the given column up to the token that ends it:
+     * `{` (block body), `;` (no body) or the grammar's expression body token.
+     * Parentheses and brackets are balanced, so parameter lists may span several lines,
+     * and the opening brace may sit on a line of its own (Allman style).
+     * @param lines The document lines
+     * @param code The document lines with literals and comments blanked out
+     * @param line Line of the declaration
+     * @param column Column to start scanning at
+     * @returns Header text from the start of the line up to (excluding) the terminator
+     */
+    private readHeader(lines: string[], code: string[], line: number, column: number): DeclarationHeader {
+        const expressionToken = this.grammar.expressionBodyToken;
+        let depth = 0;
+
+        const headerText = (endLine: number, endColumn: number) =>
+            [...lines.slice(line, endLine), lines[endLine].substring(0, endColumn)].join('\n');
+
+        for (let l = line; l < code.length && l < line + maxHeaderLines; l++) {
+            const text = code[l];
+
+            for (let c = l === line ? column : 0; c < text.length; c++) {
+                const char = text[c];
+
+                if (char === '(' || char === '[') {
+                    depth++;
+                } else if (char === ')' || char === ']') {
+                    depth--;
+                } else if (depth === 0 && (char === '{' || char === ';')) {
+                    return { text: headerText(l, c), endLine: l, terminator: char, terminatorColumn: c };
+                } else if (depth === 0 && expressionToken && this.isExpressionToken(text, c, expressionToken)) {
+                    return { text: headerText(l, c), endLine: l, terminator: expressionToken, terminatorColumn: c };
+                }
+            }
+
+            if (depth <= 0 && !this.continuesHeader(code[l + 1])) {
+                return { text: lines.slice(line, l + 1).join('\n'), endLine: l, terminator: null, terminatorColumn: -1 };
+            }
+        }
+
+        const lastLine = Math.min(lines.length, line + maxHeaderLines) - 1;
+        return {
+            text: lines.slice(line, lastLine + 1).join('\n'),
+            endLine: lastLine,
+            terminator: null,
+            terminatorColumn: -1
+        };
+    }
+
+    /**
+     * Check whether the expression body token starts at the given column
+     * @param text Line text
+     * @param column Column to check
+     * @param token Expression body token
+     * @returns True when the token stands on its own (`=` is not part of `==`, `=>`, `<=`, ...)
+     */
+    private isExpressionToken(text: string, column: number, token: string): boolean {
+        if (!text.startsWith(token, column)) {
+            return false;
+        }
+
+        const before = text[column - 1] ?? '';
+        const after = text[column + token.length] ?? '';
+        return !'=<>!'.includes(before || ' ') && !'=>'.includes(after || ' ');
+    }
+
+    /**
+     * Check whether the next line continues a declaration header, e.g. a brace on its own line
+     * @param nextLine Text of the following line
+     * @returns True when the header continues on the next line
+     */
+    private continuesHeader(nextLine: string | undefined): boolean {
+        return nextLine !== undefined &&
+            /^(\{|=|:|->|\)|,|throws\b|where\b|const\b|noexcept\b|override\b|final\b)/.test(nextLine.trim());
+    }
+
+    /**
+     * Find the last line of an expression body: the lines indented deeper than the declaration
+     * @param lines The document lines
+     * @param startLine The line where the declaration starts
+     * @param headerEndLine The line holding the expression body token
+     * @returns Object containing the declaration text, start line, and end line
+     */
+    private findExpressionBody(lines: string[], startLine: number, headerEndLine: number): SymbolBody {
+        const indent = lines[startLine].search(/\S/);
+        let endLine = headerEndLine;
+
+        while (endLine + 1 < lines.length && lines[endLine + 1].trim() !== '' &&
+               lines[endLine + 1].search(/\S/) > indent) {
+            endLine++;
+        }
+
+        return { body: lines.slice(startLine, endLine + 1).join('\n'), startLine: startLine, endLine: endLine };
+    }
+
+    /**
+     * Find the boundaries and content of a body by matching the opening brace of its header
+     * with its closing brace. Braces in strings, characters, templates, regular expressions
+     * and comments have already been blanked out of the code, so they are never counted.
+     * @param lines The document lines
+     * @param code The document lines with literals and comments blanked out
+     * @param startLine The line where the declaration starts
+     * @param header The declaration header, ending at the opening brace
+     * @returns Object containing the exact declaration text, start line, and end line
+     */
+    private findBody(lines: string[], code: string[], startLine: number, header: DeclarationHeader): SymbolBody {
+        let depth = 0;
+
+        for (let l = header.endLine; l < code.length; l++) {
+            const text = code[l];
+
+            for (let c = l === header.endLine ? header.terminatorColumn : 0; c < text.length; c++) {
+                if (text[c] === '{') {
+                    depth++;
+                } else if (text[c] === '}') {
+                    depth--;
+                    if (depth === 0) {
+                        return { body: lines.slice(startLine, l + 1).join('\n'), startLine: startLine, endLine: l };
+                    }
+                }
+            }
+        }
+
+        // Unbalanced braces: the body runs to the end of the document
+        return { body: lines.slice(startLine).join('\n'), startLine: startLine, endLine: lines.length - 1 };
+    }
+
+    /**
+     * Attach each function to its owner and list it as a member: the innermost enclosing type or
+     * container (e.g. a Rust `impl` block), or the type named by a Go method receiver
+     * @param symbols Symbols in source order
+     * @param containers Blocks that only name the owner of their functions
+     */
+    private resolveOwners(symbols: DocumentableSymbol[], containers: SymbolContainer[]): void {
+        const types = symbols.filter(symbol => symbol.kind !== 'function');
+        const owners: SymbolContainer[] = [...types, ...containers].sort((a, b) => a.startLine - b.startLine);
+
+        for (const symbol of symbols.filter(candidate => candidate.kind === 'function')) {
+            const enclosing = owners
+                .filter(owner => owner.startLine < symbol.startLine && symbol.endLine <= owner.endLine)
+                .pop();
+
+            symbol.className = symbol.className ?? enclosing?.name;
+            if (!symbol.className) {
+                continue;
+            }
+
+            const owner = types.find(type => type === enclosing) ?? types.find(type => type.name === symbol.className);
+            if (owner) {
+                owner.members = [...(owner.members ?? []), symbol.signature];
+            }
+        }
+    }
+
+    /**
+     * Extract the type name from a Go method receiver such as `s *Server[T]`
+     * @param receiver Receiver declaration
+     * @returns The receiver type name
+     */
+    private getReceiverTypeName(receiver: string): string {
+        const type = receiver.trim().split(/\s+/).pop() ?? receiver;
+        return type.replace(/^\*/, '').replace(/\[.*$/, '');
+    }
+
+    /**
+     * Collect the contiguous lines directly above a declaration that match a pattern,
+     * such as annotations (`@Override`) or attributes (`[HttpGet]`, `#[test]`)
+     * @param lines The document lines
+     * @param declarationLine The line of the declaration
+     * @param pattern Pattern a preceding line must match
+     * @returns Matching lines (trimmed) in source order
+     */
+    private findPrecedingLines(lines: string[], declarationLine: number, pattern: RegExp): string[] {
+        const matches: string[] = [];
+
+        for (let i = declarationLine - 1; i >= 0 && pattern.test(lines[i]); i--) {
+            matches.unshift(lines[i].trim());
+        }
+
+        return matches;
+    }
+
+    /**
+     * Extract the member declarations of an enum
+     * @param body Enum declaration text including braces
+     * @returns Enum member declarations, e.g. `RED`, `GREEN = 2` or `Move(i32)`
+     */
+    private findEnumMembers(body: string): string[] {
+        const open = body.indexOf('{');
+        const close = body.lastIndexOf('}');
+        if (open === -1 || close <= open) {
+            return [];
+        }
+
+        return body.substring(open + 1, close)
+            .split(/[,;]/)
+            .map(member => member
+                .replace(/\/\/.*$|\/\*[\s\S]*?\*\//gm, '')
+                .replace(/^\s*(?:@\w+(?:\([^)]*\))?|#?\[[^\]]*\])\s*/g, '')
+                .replace(/^\s*case\s+/, '')
+                .trim())
+            .filter(member => /^[A-Za-z_]\w*\s*(\(.*\)|\{.*\})?\s*(=.*)?$/.test(member));
+    }
+
+    /**
+     * Collapse a multi-line declaration onto a single line
+     * @param text Declaration text
+     * @returns Text with runs of whitespace replaced by single spaces
+     */
+    private collapseWhitespace(text: string): string {
+        return text
+            .replace(/\s+/g, ' ')
+            .replace(/([([]) /g, '$1')
+            .replace(/ ([)\]])/g, '$1')
+            .trim();
+    }
+}
@@ -0,0 +1,277 @@
+/**
+ * Literal and comment syntax that differs between C-like languages
+ */
+export interface LexicalSyntax {
+    // `#` starts a line comment (PHP), except for `#[` attributes
+    hashComments?: boolean;
+    // `/.../` regular expression literals (JavaScript-like languages)
+    regexLiterals?: boolean;
+    // Backtick strings with `${...}` interpolation; otherwise backticks delimit raw text (Go, Kotlin)
+    templateStrings?: boolean;
+    // Rust raw strings such as `r"..."` and `r#"..."#`
+    rawStrings?: boolean;
+    // C# verbatim strings such as `@"..."`, where `""` escapes a quote
+    verbatimStrings?: boolean;
+    // A single quote not closed after one character is a Rust lifetime (`'a`), not a string
+    lifetimes?: boolean;
+}
+
+// Keywords after which a `/` starts a regular expression rather than a division
+const regexPrecedingKeywords = ['return', 'typeof', 'case', 'do', 'else', 'in', 'of', 'new', 'delete', 'void', 'throw'];
+
+/**
+ * Tokenizer for C-like languages that separates code from strings, characters, template text,
+ * regular expression literals and comments, so that brackets inside them are never counted
+ */
+export class CLikeLexer {
+    private syntax: LexicalSyntax;
+
+    /**
+     * @param syntax Literal and comment syntax of the language
+     */
+    constructor(syntax: LexicalSyntax = {}) {
+        this.syntax = syntax;
+    }
+
+    /**
+     * Blank out everything that is not code. Literals and comments are replaced by spaces
+     * (line breaks are kept), so offsets, line numbers and columns stay the same as in the source.
+     * Code inside template interpolations (`${...}`) is kept.
+     * @param text Source text
+     * @returns Text of the same length containing only code
+     */
+    public maskNonCode(text: string): string {
+        const output = text.split('');
+        const blank = (from: number, to: number) => {
+            for (let i = from; i < Math.min(to, text.length); i++) {
+                if (output[i] !== '\n') {
+                    output[i] = ' ';
+                }
+            }
+        };
+
+        // Brace depth inside each open template interpolation, innermost last
+        const interpolations: number[] = [];
+        let i = 0;
+
+        while (i < text.length) {
+            const char = text[i];
+            const next = text[i + 1];
+
+            if (interpolations.length > 0 && (char === '{' || char === '}')) {
+                const depth = interpolations.length - 1;
+
+                if (char === '{') {
+                    interpolations[depth]++;
+                } else if (interpolations[depth] > 0) {
+                    interpolations[depth]--;
+                } else {
+                    // End of `${...}`: the template text continues
+                    interpolations.pop();
+                    i = this.skipTemplateText(text, i + 1, blank, interpolations);
+                    continue;
+                }
+
+                i++;
+                continue;
+            }
+
+            let end = -1;
+
+            if (char === '/' && next === '/') {
+                end = this.findLineEnd(text, i);
+            } else if (char === '/' && next === '*') {
+                const close = text.indexOf('*/', i + 2);
+                end = close === -1 ? text.length : close + 2;
+            } else if (char === '#' && this.syntax.hashComments && next !== '[') {
+                end = this.findLineEnd(text, i);
+            } else if (text.startsWith('"""', i)) {
+                // Java text blocks and Kotlin raw strings
+                const close = text.indexOf('"""', i + 3);
+                end = close === -1 ? text.length : close + 3;
+            } else if (this.syntax.verbatimStrings && /^(?:\$@|@\$?)"/.test(text.substring(i, i + 3))) {
+                end = this.findVerbatimStringEnd(text, text.indexOf('"', i) + 1);
+            } else if (this.syntax.rawStrings && this.isRawStringStart(text, i)) {
+                const match = /^b?r(#*)"/.exec(text.substring(i))!;
+                const close = text.indexOf(`"${match[1]}`, i + match[0].length);
+                end = close === -1 ? text.length : close + match[1].length + 1;
+            } else if (char === '"') {
+                end = this.findQuoteEnd(text, i + 1, '"');
+            } else if (char === '\'' && this.syntax.lifetimes) {
+                // A character literal such as 'x' or '\n'; otherwise a lifetime such as 'a
+                const literal = /^'(?:\\.[^'\n]*|[^\\'\n])'/.exec(text.substring(i, i + 12));
+                end = literal ? i + literal[0].length : -1;
+            } else if (char === '\'') {
+                end = this.findQuoteEnd(text, i + 1, '\'');
+            } else if (char === '`') {
+                if (this.syntax.templateStrings) {
+                    blank(i, i + 1);
+                    i = this.skipTemplateText(text, i + 1, blank, interpolations);
+                    continue;
+                }
+                end = this.findQuoteEnd(text, i + 1, '`');
+            } else if (char === '/' && this.syntax.regexLiterals && this.isRegexStart(output, i)) {
+                end = this.findRegexEnd(text, i + 1);
+            }
+
+            if (end === -1) {
+                i++;
+            } else {
+                blank(i, end);
+                i = end;
+            }
+        }
+
+        return output.join('');
+    }
+
+    /**
+     * Blank template text up to the closing backtick or the next `${`
+     * @param text Source text
+     * @param start Index of the first template character
+     * @param blank Callback that blanks a range of the output
+     * @param interpolations Open interpolation depths; a new entry is pushed for `${`
+     * @returns Index to continue scanning at
+     */
+    private skipTemplateText(
+        text: string,
+        start: number,
+        blank: (from: number, to: number) => void,
+        interpolations: number[]
+    ): number {
+        for (let i = start; i < text.length; i++) {
+            if (text[i] === '\\') {
+                i++;
+            } else if (text[i] === '`') {
+                blank(start, i + 1);
+                return i + 1;
+            } else if (text.startsWith('${', i)) {
+                blank(start, i);
+                interpolations.push(0);
+                return i + 2;
+            }
+        }
+
+        blank(start, text.length);
+        return text.length;
+    }
+
+    /**
+     * Find the index after the closing quote of a string, honoring backslash escapes.
+     * Strings other than backtick strings end at the end of the line if they are not closed.
+     * @param text Source text
+     * @param start Index of the first character after the opening quote
+     * @param quote Quote character
+     * @returns Index after the closing quote
+     */
+    private findQuoteEnd(text: string, start: number, quote: string): number {
+        for (let i = start; i < text.length; i++) {
+            if (text[i] === '\\') {
+                i++;
+            } else if (text[i] === quote) {
+                return i + 1;
+            } else if (text[i] === '\n' && quote !== '`') {
+                return i;
+            }
+        }
+
+        return text.length;
+    }
+
+    /**
+     * Find the index after the closing quote of a C# verbatim string, where `""` is an escaped quote
+     * @param text Source text
+     * @param start Index of the first character after the opening quote
+     * @returns Index after the closing quote
+     */
+    private findVerbatimStringEnd(text: string, start: number): number {
+        for (let i = start; i < text.length; i++) {
+            if (text[i] === '"') {
+                if (text[i + 1] !== '"') {
+                    return i + 1;
+                }
+                i++;
+            }
+        }
+
+        return text.length;
+    }
+
+    /**
+     * Check whether a Rust raw string (`r"..."`, `r#"..."#`, `br"..."`) starts at the index
+     * @param text Source text
+     * @param index Index to check
+     * @returns True when a raw string starts here and is not part of an identifier
+     */
+    private isRawStringStart(text: string, index: number): boolean {
+        return /^b?r#*"/.test(text.substring(index, index + 8)) && !/[\w$]/.test(text[index - 1] ?? '');
+    }
+
+    /**
+     * Decide whether a `/` starts a regular expression literal, based on the preceding code
+     * @param code Output scanned so far, with literals and comments already blanked
+     * @param index Index of the slash
+     * @returns True when the slash cannot be a division operator
+     */
+    private isRegexStart(code: string[], index: number): boolean {
+        let i = index - 1;
+        while (i >= 0 && /\s/.test(code[i])) {
+            i--;
+        }
+
+        if (i < 0 || '(,=:[!&|?{};+-*%~^<>'.includes(code[i])) {
+            return true;
+        }
+
+        // A keyword such as `return /x/`
+        let wordStart = i;
+        while (wordStart > 0 && /\w/.test(code[wordStart - 1])) {
+            wordStart--;
+        }
+
+        return regexPrecedingKeywords.includes(code.slice(wordStart, i + 1).join(''));
+    }
+
+    /**
+     * Find the index after a regular expression literal, including its flags
+     * @param text Source text
+     * @param start Index of the first character after the opening slash
+     * @returns Index after the literal
+     */
+    private findRegexEnd(text: string, start: number): number {
+        let inClass = false;
+
+        for (let i = start; i < text.length; i++) {
+            const char = text[i];
+
+            if (char === '\\') {
+                i++;
+            } else if (char === '\n') {
+                return i;
+            } else if (char === '[') {
+                inClass = true;
+            } else if (char === ']') {
+                inClass = false;
+            } else if (char === '/' && !inClass) {
+                let end = i + 1;
+                while (end < text.length && /[a-z]/i.test(text[end])) {
+                    end++;
+                }
+                return end;
+            }
+        }
+
+        return text.length;
+    }
+
+    /**
+     * Find the end of the line containing the index
+     * @param text Source text
+     * @param index Index on the line
+     * @returns Index of the line break, or the text length on the last line
+     */
+    private findLineEnd(text: string, index: number): number {
+        const end = text.indexOf('\n', index);
+        return end === -1 ? text.length : end;
+    }
+}
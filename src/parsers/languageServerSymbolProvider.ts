@@ -0,0 +1,125 @@
+import * as vscode from 'vscode';
+import { Logger } from '../utils/logger';
+import { ResponseCache } from '../utils/responseCache';
+
+export interface LanguageServerSymbol {
+    name: string;
+    kind: vscode.SymbolKind;
+    range: vscode.Range;
+    selectionRange: vscode.Range;
+    containerName?: string;
+    containerKind?: vscode.SymbolKind;
+}
+
+// How long to wait for a language server that is still starting up before falling back to heuristics
+const symbolProviderTimeout = 2000;
+
+// Number of documents whose symbols are kept
+const maxCachedDocuments = 20;
+
+export class LanguageServerSymbolProvider {
+    private logger: Logger;
+    private cache: ResponseCache<LanguageServerSymbol[] | undefined>;
+
+    constructor() {
+        this.logger = new Logger('LanguageServerSymbolProvider');
+        this.cache = new ResponseCache<LanguageServerSymbol[] | undefined>(maxCachedDocuments);
+    }
+
+    /**
+     * Get the symbols of a document from the language server. Code lenses, diagnostics and
+     * commands ask for the same version of a document in turn, so answers are cached per
+     * document version; a missing answer is not, so a server that is still starting up is asked again.
+     * @param document The text document
+     * @returns Flattened symbols in source order, or undefined when no provider answers in time
+     */
+    public async getSymbols(document: vscode.TextDocument): Promise<LanguageServerSymbol[] | undefined> {
+        const key = ResponseCache.createKey(document.uri.toString(), String(document.version));
+        const symbols = await this.cache.getOrCreate(key, () => this.requestSymbols(document));
+
+        if (!symbols) {
+            this.cache.delete(key);
+        }
+
+        return symbols;
+    }
+
+    /**
+     * Ask the language server for the symbols of a document through `vscode.executeDocumentSymbolProvider`
+     * @param document The text document
+     * @returns Flattened symbols in source order, or undefined when no provider answers in time
+     */
+    private async requestSymbols(document: vscode.TextDocument): Promise<LanguageServerSymbol[] | undefined> {
+        let timer: NodeJS.Timeout | undefined;
+
+        try {
+            const timeout = new Promise<undefined>(resolve => {
+                timer = setTimeout(() => resolve(undefined), symbolProviderTimeout);
+            });
+
+            const result = await Promise.race([
+                vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined>(
+                    'vscode.executeDocumentSymbolProvider',
+                    document.uri
+                ),
+                timeout
+            ]);
+
+            if (!result || result.length === 0) {
+                return undefined;
+            }
+
+            const symbols = this.flatten(result);
+            this.logger.info(`Language server returned ${symbols.length} symbols for ${document.languageId}`);
+            return symbols;
+        } catch (error) {
+            this.logger.warning(`Document symbol provider unavailable: ${error}`);
+            return undefined;
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    /**
+     * Flatten hierarchical document symbols (or flat symbol information) into one list,
+     * recording the enclosing symbol of each entry
+     * @param result Result of the document symbol provider
+     * @returns Symbols ordered by their start position
+     */
+    private flatten(result: (vscode.DocumentSymbol | vscode.SymbolInformation)[]): LanguageServerSymbol[] {
+        const symbols: LanguageServerSymbol[] = [];
+
+        const visit = (symbol: vscode.DocumentSymbol, parent?: vscode.DocumentSymbol) => {
+            symbols.push({
+                name: symbol.name,
+                kind: symbol.kind,
+                range: symbol.range,
+                selectionRange: symbol.selectionRange,
+                containerName: parent?.name,
+                containerKind: parent?.kind
+            });
+
+            for (const child of symbol.children ?? []) {
+                visit(child, symbol);
+            }
+        };
+
+        for (const symbol of result) {
+            if ('location' in symbol) {
+                // Older providers return flat SymbolInformation without a separate name range
+                symbols.push({
+                    name: symbol.name,
+                    kind: symbol.kind,
+                    range: symbol.location.range,
+                    selectionRange: symbol.location.range,
+                    containerName: symbol.containerName || undefined
+                });
+            } else {
+                visit(symbol);
+            }
+        }
+
+        return symbols.sort((a, b) => a.range.start.line - b.range.start.line ||
+            a.range.start.character - b.range.start.character);
+    }
+}
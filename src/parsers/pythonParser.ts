@@ -0,0 +1,327 @@
+import * as vscode from 'vscode';
+import { DocumentableSymbol } from '../codeParser';
+import { SymbolParser } from '../languages/languageSupport';
+import { SignatureParser } from './signatureParser';
+
+interface PythonDefinition {
+    symbol: DocumentableSymbol;
+    indent: number;
+    defLine: number;
+    headerEndLine: number;
+}
+
+export class PythonParser implements SymbolParser {
+    private signatureParser: SignatureParser;
+
+    constructor() {
+        this.signatureParser = new SignatureParser();
+    }
+
+    /**
+     * Parse the document and collect every function, method, nested function and class.
+     * Handles `async def`, decorators, and signatures spanning several lines.
+     * @param document The text document
+     * @returns Information about each definition, in source order
+     */
+    public findAllSymbols(document: vscode.TextDocument): DocumentableSymbol[] {
+        const lines = document.getText().split('\n');
+        const continuation = this.findContinuationLines(lines);
+        const definitions: PythonDefinition[] = [];
+
+        // Definition line: [async] def name / class Name
+        const definitionPattern = /^(\s*)(async\s+)?(def|class)\s+([A-Za-z_][A-Za-z0-9_]*)/;
+
+        let decorators: string[] = [];
+        let decoratorStartLine = -1;
+
+        for (let i = 0; i < lines.length; i++) {
+            if (continuation[i]) {
+                continue;
+            }
+
+            const trimmed = lines[i].trim();
+            if (trimmed === '' || trimmed.startsWith('#')) {
+                continue;
+            }
+
+            const statementEnd = this.findStatementEnd(continuation, i);
+
+            if (trimmed.startsWith('@')) {
+                if (decorators.length === 0) {
+                    decoratorStartLine = i;
+                }
+                decorators.push(this.collapseWhitespace(lines.slice(i, statementEnd + 1).join(' ')));
+                i = statementEnd;
+                continue;
+            }
+
+            const match = definitionPattern.exec(lines[i]);
+            if (match) {
+                definitions.push(this.createDefinition(
+                    lines,
+                    continuation,
+                    i,
+                    statementEnd,
+                    match,
+                    decorators,
+                    decorators.length > 0 ? decoratorStartLine : i,
+                    document.languageId
+                ));
+            }
+
+            decorators = [];
+            i = statementEnd;
+        }
+
+        this.resolveNesting(definitions, lines);
+
+        return definitions.map(definition => definition.symbol);
+    }
+
+    /**
+     * Build the definition record for a `def` or `class` statement
+     * @param lines The document lines
+     * @param continuation Flags marking lines that continue a previous statement
+     * @param defLine Line of the `def`/`class` keyword
+     * @param headerEndLine Last line of the (possibly multi-line) header
+     * @param match Definition pattern match
+     * @param decorators Decorators applied to the definition
+     * @param startLine First line of the definition, including decorators
+     * @param language Language identifier of the document
+     * @returns The definition with its symbol information
+     */
+    private createDefinition(
+        lines: string[],
+        continuation: boolean[],
+        defLine: number,
+        headerEndLine: number,
+        match: RegExpExecArray,
+        decorators: string[],
+        startLine: number,
+        language: string
+    ): PythonDefinition {
+        const indent = match[1].length;
+        const isClass = match[3] === 'class';
+        const header = this.collapseWhitespace(lines.slice(defLine, headerEndLine + 1).join(' '));
+        const colon = this.findHeaderColon(header);
+        const signature = colon === -1 ? header : header.substring(0, colon + 1);
+
+        // A one-line definition such as `def f(x): return x` has no separate body lines
+        const isOneLiner = colon !== -1 && !/^\s*(#.*)?$/.test(header.substring(colon + 1));
+
+        let endLine = headerEndLine;
+        if (!isOneLiner) {
+            for (let j = headerEndLine + 1; j < lines.length; j++) {
+                const trimmed = lines[j].trim();
+
+                if (continuation[j]) {
+                    endLine = j;
+                    continue;
+                }
+
+                // Blank lines and comments never end a block
+                if (trimmed === '' || trimmed.startsWith('#')) {
+                    continue;
+                }
+
+                if (lines[j].search(/\S/) <= indent) {
+                    break;
+                }
+
+                endLine = j;
+            }
+        }
+
+        const returnMatch = /\)\s*->\s*(.+?)\s*:$/.exec(signature);
+        const bodyStartLine = isOneLiner ? undefined : headerEndLine + 1;
+
+        return {
+            indent: indent,
+            defLine: defLine,
+            headerEndLine: headerEndLine,
+            symbol: {
+                kind: isClass ? 'class' : 'function',
+                name: match[4],
+                signature: signature,
+                body: lines.slice(defLine, endLine + 1).join('\n'),
+                startLine: startLine,
+                endLine: endLine,
+                bodyStartLine: bodyStartLine,
+                language: language,
+                modifiers: match[2] ? ['async'] : [],
+                decorators: decorators,
+                isAsync: !!match[2],
+                parameters: isClass
+                    ? undefined
+                    : this.signatureParser.parsePythonParameters(this.signatureParser.extractParameterList(signature)),
+                returnType: returnMatch ? returnMatch[1] : undefined
+            }
+        };
+    }
+
+    /**
+     * Link each definition to its enclosing definition: methods get their class name and
+     * lose the implicit `self`/`cls` parameter, classes list their methods, and generator and
+     * raise detection only looks at a function's own statements (not nested functions).
+     * @param definitions Definitions in source order
+     * @param lines The document lines
+     */
+    private resolveNesting(definitions: PythonDefinition[], lines: string[]): void {
+        for (const definition of definitions) {
+            const parent = definitions
+                .filter(candidate => candidate.defLine < definition.defLine &&
+                    definition.defLine <= candidate.symbol.endLine &&
+                    candidate.indent < definition.indent)
+                .pop();
+
+            const symbol = definition.symbol;
+
+            if (parent && parent.symbol.kind === 'class') {
+                if (symbol.kind === 'function') {
+                    symbol.className = parent.symbol.name;
+
+                    // Instance and class methods receive the implicit first argument
+                    const isStatic = (symbol.decorators ?? []).some(decorator => decorator.startsWith('@staticmethod'));
+                    if (!isStatic && symbol.parameters && symbol.parameters.length > 0 &&
+                        !symbol.parameters[0].name.startsWith('*')) {
+                        symbol.parameters = symbol.parameters.slice(1);
+                    }
+                }
+
+                parent.symbol.members = [...(parent.symbol.members ?? []), symbol.signature];
+            }
+
+            if (symbol.kind === 'function') {
+                const ownLines = lines
+                    .slice(definition.headerEndLine + 1, symbol.endLine + 1)
+                    .filter((_, offset) => {
+                        const line = definition.headerEndLine + 1 + offset;
+                        return !definitions.some(nested => nested !== definition &&
+                            nested.defLine > definition.defLine &&
+                            nested.symbol.startLine <= line && line <= nested.symbol.endLine);
+                    })
+                    .map(line => line.replace(/#.*$/, ''));
+                const ownBody = ownLines.join('\n');
+
+                symbol.isGenerator = /\byield\b/.test(ownBody);
+                symbol.throws = this.signatureParser.findThrownExceptions(ownBody, 'raise');
+            } else if (!symbol.members) {
+                symbol.members = [];
+            }
+        }
+    }
+
+    /**
+     * Mark the lines that continue a previous statement: lines inside a multi-line string,
+     * inside open brackets, or following a backslash line continuation
+     * @param lines The document lines
+     * @returns One flag per line
+     */
+    private findContinuationLines(lines: string[]): boolean[] {
+        const continuation: boolean[] = [];
+        let depth = 0;
+        let stringQuote: string | null = null;
+        let backslash = false;
+
+        for (const line of lines) {
+            continuation.push(depth > 0 || stringQuote !== null || backslash);
+            backslash = false;
+
+            for (let i = 0; i < line.length; i++) {
+                const char = line[i];
+
+                if (stringQuote) {
+                    if (char === '\\') {
+                        i++;
+                    } else if (line.startsWith(stringQuote, i)) {
+                        i += stringQuote.length - 1;
+                        stringQuote = null;
+                    }
+                    continue;
+                }
+
+                if (char === '#') {
+                    break;
+                } else if (line.startsWith('"""', i) || line.startsWith('\'\'\'', i)) {
+                    stringQuote = line.substring(i, i + 3);
+                    i += 2;
+                } else if (char === '"' || char === '\'') {
+                    stringQuote = char;
+                } else if ('([{'.includes(char)) {
+                    depth++;
+                } else if (')]}'.includes(char)) {
+                    depth = Math.max(0, depth - 1);
+                } else if (char === '\\' && i === line.trimEnd().length - 1) {
+                    backslash = true;
+                }
+            }
+
+            // Unterminated single-quoted strings end with the line
+            if (stringQuote && stringQuote.length === 1 && !backslash) {
+                stringQuote = null;
+            }
+        }
+
+        return continuation;
+    }
+
+    /**
+     * Find the last line of the statement starting at the given line
+     * @param continuation Flags marking lines that continue a previous statement
+     * @param line First line of the statement
+     * @returns Last line of the statement
+     */
+    private findStatementEnd(continuation: boolean[], line: number): number {
+        let end = line;
+        while (end + 1 < continuation.length && continuation[end + 1]) {
+            end++;
+        }
+        return end;
+    }
+
+    /**
+     * Find the colon that ends a `def`/`class` header, ignoring colons in annotations,
+     * default values, subscripts, lambdas and strings
+     * @param header Header text collapsed onto one line
+     * @returns Index of the colon, or -1 if the header is incomplete
+     */
+    private findHeaderColon(header: string): number {
+        let depth = 0;
+        let quote: string | null = null;
+
+        for (let i = 0; i < header.length; i++) {
+            const char = header[i];
+
+            if (quote) {
+                if (char === '\\') {
+                    i++;
+                } else if (char === quote) {
+                    quote = null;
+                }
+            } else if (char === '"' || char === '\'') {
+                quote = char;
+            } else if ('([{'.includes(char)) {
+                depth++;
+            } else if (')]}'.includes(char)) {
+                depth--;
+            } else if (char === ':' && depth === 0) {
+                return i;
+            }
+        }
+
+        return -1;
+    }
+
+    /**
+     * Collapse a multi-line statement onto a single line
+     * @param text Statement text
+     * @returns Text with runs of whitespace replaced by single spaces
+     */
+    private collapseWhitespace(text: string): string {
+        return text
+            .replace(/\s+/g, ' ')
+            .replace(/([([{]) /g, '$1')
+            .replace(/ ([)\]}])/g, '$1')
+            .trim();
+    }
+}
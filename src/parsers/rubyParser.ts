@@ -0,0 +1,161 @@
+import * as vscode from 'vscode';
+import { DocumentableSymbol } from '../codeParser';
+import { SymbolParser } from '../languages/languageSupport';
+import { SignatureParser } from './signatureParser';
+
+export class RubyParser implements SymbolParser {
+    private signatureParser: SignatureParser;
+
+    constructor() {
+        this.signatureParser = new SignatureParser();
+    }
+
+    /**
+     * Parse the document and collect every method, class and module.
+     * Blocks are matched by counting the keywords that are closed by `end`.
+     * @param document The text document
+     * @returns Information about each definition, in source order
+     */
+    public findAllSymbols(document: vscode.TextDocument): DocumentableSymbol[] {
+        const lines = document.getText().split('\n');
+        const language = document.languageId;
+        const symbols: DocumentableSymbol[] = [];
+
+        // `[private] def [self.]name[(params)]`, including operator and predicate/bang methods
+        const methodPattern = /^\s*(?:(private|protected|public|module_function)\s+)?def\s+(?:(self|[A-Z]\w*)\.)?([A-Za-z_]\w*[?!=]?|\[\]=?|[+\-*/%<>=!~^&|]+)\s*(.*)$/;
+
+        // `class Name < Base` or `module Name`; `class << self` opens no new owner
+        const typePattern = /^\s*(class|module)\s+([A-Z][\w:]*)/;
+
+        for (let i = 0; i < lines.length; i++) {
+            const methodMatch = methodPattern.exec(lines[i]);
+            const typeMatch = methodMatch ? null : typePattern.exec(lines[i]);
+
+            if (methodMatch) {
+                const rest = methodMatch[4];
+
+                // Endless methods (`def square(x) = x * x`) have no `end`
+                const isEndless = /^(\([^)]*\))?\s*=[^=~>]/.test(rest);
+                const endLine = isEndless ? i : this.findEnd(lines, i);
+                const body = lines.slice(i, endLine + 1).join('\n');
+                const parameterList = rest.startsWith('(')
+                    ? this.signatureParser.extractParameterList(rest)
+                    : rest.replace(/[;#].*$/, '').trim();
+
+                const modifiers = methodMatch[1] ? [methodMatch[1]] : [];
+                if (methodMatch[2]) {
+                    modifiers.push('static');
+                }
+
+                symbols.push({
+                    kind: 'function',
+                    name: methodMatch[3],
+                    signature: lines[i].trim(),
+                    body: body,
+                    startLine: i,
+                    endLine: endLine,
+                    language: language,
+                    modifiers: modifiers,
+                    parameters: isEndless && !rest.startsWith('(')
+                        ? []
+                        : this.signatureParser.parseRubyParameters(parameterList),
+                    throws: this.signatureParser.findThrownExceptions(body.substring(lines[i].length), 'raise')
+                });
+            } else if (typeMatch) {
+                const endLine = this.findEnd(lines, i);
+
+                symbols.push({
+                    kind: 'class',
+                    name: typeMatch[2],
+                    signature: lines[i].trim(),
+                    body: lines.slice(i, endLine + 1).join('\n'),
+                    startLine: i,
+                    endLine: endLine,
+                    language: language,
+                    modifiers: typeMatch[1] === 'module' ? ['module'] : [],
+                    members: []
+                });
+            }
+        }
+
+        // Attach each method to its innermost enclosing class or module
+        for (const symbol of symbols.filter(candidate => candidate.kind === 'function')) {
+            const owner = symbols
+                .filter(candidate => candidate.kind === 'class' &&
+                    candidate.startLine < symbol.startLine && symbol.endLine <= candidate.endLine)
+                .pop();
+
+            if (owner) {
+                symbol.className = owner.name;
+                owner.members = [...(owner.members ?? []), symbol.signature];
+            }
+        }
+
+        return symbols;
+    }
+
+    /**
+     * Find the `end` that closes the block opened on the given line
+     * @param lines The document lines
+     * @param startLine Line of the `def`, `class` or `module` keyword
+     * @returns Line of the matching `end`, or the last line if the block is not closed
+     */
+    private findEnd(lines: string[], startLine: number): number {
+        let depth = 0;
+        let inBlockComment = false;
+
+        for (let i = startLine; i < lines.length; i++) {
+            // `=begin` ... `=end` block comments
+            if (inBlockComment || lines[i].startsWith('=begin')) {
+                inBlockComment = !lines[i].startsWith('=end');
+                continue;
+            }
+
+            const code = this.stripStringsAndComments(lines[i]);
+            depth += this.countOpeners(code) - (code.match(/(?<![.:])\bend\b/g) ?? []).length;
+
+            if (depth <= 0) {
+                return i;
+            }
+        }
+
+        return lines.length - 1;
+    }
+
+    /**
+     * Count the keywords on a line that open a block closed by `end`
+     * @param code Line text without strings and comments
+     * @returns Number of blocks opened
+     */
+    private countOpeners(code: string): number {
+        let openers = 0;
+
+        // Keywords at the start of a statement; modifier forms such as `return if x` do not open blocks
+        const statement = /^\s*(def|class|module|if|unless|while|until|case|begin|for)\b/.exec(code);
+        const isEndlessMethod = /^\s*def\s+[^(=\s]*\s*(\([^)]*\))?\s*=[^=~>]/.test(code);
+        if (statement && !isEndlessMethod) {
+            openers++;
+        }
+
+        // Conditional expressions assigned or passed as values: `x = if cond`
+        openers += (code.match(/(?:=|\(|\|\||&&)\s*(if|unless|case|begin|while|until)\b/g) ?? []).length;
+
+        // `do` blocks; `while x do` already opened its block
+        if (!statement || !['while', 'until', 'for'].includes(statement[1])) {
+            openers += (code.match(/\bdo\b/g) ?? []).length;
+        }
+
+        return openers;
+    }
+
+    /**
+     * Remove string literals and comments so keywords inside them are not counted
+     * @param line Line text
+     * @returns Code on the line
+     */
+    private stripStringsAndComments(line: string): string {
+        return line
+            .replace(/"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'/g, '""')
+            .replace(/#.*$/, '');
+    }
+}
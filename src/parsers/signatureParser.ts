@@ -0,0 +1,357 @@
+import { ParameterInfo } from '../codeParser';
+
+export type ParameterStyle = 'typeFirst' | 'nameFirst' | 'go' | 'php' | 'ruby' | 'untyped';
+
+export class SignatureParser {
+    /**
+     * Parse a parameter list written in the given style
+     * @param parameterList Parameter list without the surrounding parentheses
+     * @param style How the language declares parameters
+     * @returns Structured parameters
+     */
+    public parseParameters(parameterList: string, style: ParameterStyle): ParameterInfo[] {
+        switch (style) {
+            case 'typeFirst':
+                return this.parseCStyleParameters(parameterList);
+            case 'nameFirst':
+                return this.parseNameFirstParameters(parameterList);
+            case 'go':
+                return this.parseGoParameters(parameterList);
+            case 'php':
+                return this.parsePhpParameters(parameterList);
+            case 'ruby':
+                return this.parseRubyParameters(parameterList);
+            default:
+                return this.parseUntypedParameters(parameterList);
+        }
+    }
+
+    /**
+     * Split a parameter list on the commas that are not nested in brackets, generics or strings
+     * @param text Parameter list without the surrounding parentheses
+     * @returns Trimmed, non-empty parameter declarations
+     */
+    public splitTopLevel(text: string): string[] {
+        const parts: string[] = [];
+        let depth = 0;
+        let quote: string | null = null;
+        let current = '';
+
+        for (let i = 0; i < text.length; i++) {
+            const char = text[i];
+
+            if (quote) {
+                current += char;
+                if (char === '\\') {
+                    current += text[++i] ?? '';
+                } else if (char === quote) {
+                    quote = null;
+                }
+                continue;
+            }
+
+            // Rust lifetimes such as `&'a str` are not character literals
+            if ((char === '"' || char === '\'' || char === '`') && !this.isLifetime(text, i)) {
+                quote = char;
+            } else if ('([{<'.includes(char)) {
+                depth++;
+            } else if (')]}>'.includes(char) && depth > 0 && text[i - 1] !== '=') {
+                // `=>` in a default value is not a closing generic bracket
+                depth--;
+            } else if (char === ',' && depth === 0) {
+                parts.push(current.trim());
+                current = '';
+                continue;
+            }
+
+            current += char;
+        }
+
+        parts.push(current.trim());
+        return parts.filter(part => part !== '');
+    }
+
+    /**
+     * Extract the text between the first opening parenthesis and its matching closing one.
+     * Parentheses in string defaults such as `sep=")"` are not counted.
+     * @param signature Function signature
+     * @returns Parameter list text, or an empty string if the signature has no parentheses
+     */
+    public extractParameterList(signature: string): string {
+        const open = signature.indexOf('(');
+        if (open === -1) {
+            return '';
+        }
+
+        let depth = 0;
+        let quote: string | null = null;
+        for (let i = open; i < signature.length; i++) {
+            const char = signature[i];
+
+            if (quote) {
+                if (char === '\\') {
+                    i++;
+                } else if (char === quote) {
+                    quote = null;
+                }
+            } else if ((char === '"' || char === '\'' || char === '`') && !this.isLifetime(signature, i)) {
+                quote = char;
+            } else if (char === '(') {
+                depth++;
+            } else if (char === ')') {
+                depth--;
+                if (depth === 0) {
+                    return signature.substring(open + 1, i);
+                }
+            }
+        }
+
+        return signature.substring(open + 1);
+    }
+
+    /**
+     * Parse a Python parameter list such as `a, b: int = 2, *args, **kwargs`
+     * @param parameterList Parameter list without the surrounding parentheses
+     * @returns Structured parameters; the bare `*` and `/` markers are skipped
+     */
+    public parsePythonParameters(parameterList: string): ParameterInfo[] {
+        return this.splitTopLevel(parameterList)
+            .filter(parameter => parameter !== '*' && parameter !== '/')
+            .map(parameter => {
+                const rest = parameter.startsWith('*');
+                const [declaration, defaultValue] = this.splitDefault(parameter.replace(/^\*{1,2}/, ''));
+                const colon = declaration.indexOf(':');
+                const name = (colon === -1 ? declaration : declaration.substring(0, colon)).trim();
+                const type = colon === -1 ? undefined : declaration.substring(colon + 1).trim();
+
+                return {
+                    name: parameter.startsWith('**') ? `**${name}` : rest ? `*${name}` : name,
+                    type: type || undefined,
+                    defaultValue: defaultValue,
+                    optional: defaultValue !== undefined || rest,
+                    rest: rest
+                };
+            });
+    }
+
+    /**
+     * Parse a C-style parameter list (Java, C#, C, C++, ...) such as `final String name, int... values`
+     * @param parameterList Parameter list without the surrounding parentheses
+     * @returns Structured parameters with the declared type separated from the name
+     */
+    public parseCStyleParameters(parameterList: string): ParameterInfo[] {
+        return this.splitTopLevel(parameterList)
+            .filter(parameter => parameter !== 'void')
+            .map(parameter => {
+                if (parameter === '...') {
+                    return { name: '...', optional: true, rest: true };
+                }
+
+                const [declaration, defaultValue] = this.splitDefault(parameter);
+
+                // Annotations/attributes and modifiers that are not part of the type
+                const cleaned = declaration
+                    .replace(/@\w+(\([^)]*\))?\s*/g, '')
+                    .replace(/^(\[[^\]]*\]\s*)+/, '')
+                    .replace(/^(?:(?:final|ref|out|in|this|scoped|readonly)\s+)+/, '');
+                const rest = /^params\s/.test(cleaned) || cleaned.includes('...');
+                const withoutParams = cleaned.replace(/^params\s+/, '');
+
+                // The name is the last identifier, e.g. `const char *name` or `int values[]`
+                const match = /([A-Za-z_$][A-Za-z0-9_$]*)\s*(\[\s*\])*\s*$/.exec(withoutParams);
+                const name = match ? match[1] : withoutParams;
+                const type = match
+                    ? (withoutParams.substring(0, match.index) + (match[2] ?? '')).replace(/\.\.\./, '[]').trim()
+                    : undefined;
+
+                return {
+                    name: name,
+                    type: type || undefined,
+                    defaultValue: defaultValue,
+                    optional: defaultValue !== undefined || rest,
+                    rest: rest
+                };
+            });
+    }
+
+    /**
+     * Parse a parameter list written as `name: Type = default` (Kotlin, Rust, Swift, ...).
+     * Rust `self` receivers are skipped.
+     * @param parameterList Parameter list without the surrounding parentheses
+     * @returns Structured parameters
+     */
+    public parseNameFirstParameters(parameterList: string): ParameterInfo[] {
+        return this.splitTopLevel(parameterList)
+            .map(parameter => parameter.replace(/@\w+(\([^)]*\))?\s*|#\[[^\]]*\]\s*/g, '').trim())
+            .filter(parameter => !/^(&\s*('\w+\s+)?)?(mut\s+)?self\b/.test(parameter))
+            .map(parameter => {
+                const [declaration, defaultValue] = this.splitDefault(parameter);
+                const rest = /^vararg\s/.test(declaration);
+                const cleaned = declaration.replace(/^(?:(?:vararg|val|var|mut|noinline|crossinline)\s+)+/, '');
+                const colon = cleaned.indexOf(':');
+                const name = (colon === -1 ? cleaned : cleaned.substring(0, colon)).trim();
+                const type = colon === -1 ? undefined : cleaned.substring(colon + 1).trim();
+
+                return {
+                    name: name,
+                    type: type || undefined,
+                    defaultValue: defaultValue,
+                    optional: defaultValue !== undefined || rest,
+                    rest: rest
+                };
+            });
+    }
+
+    /**
+     * Parse a Go parameter list, where consecutive names may share a type: `a, b int, opts ...Option`
+     * @param parameterList Parameter list without the surrounding parentheses
+     * @returns Structured parameters; unnamed parameters use their type as the name
+     */
+    public parseGoParameters(parameterList: string): ParameterInfo[] {
+        const parameters: ParameterInfo[] = [];
+        let sharedType: string | undefined;
+
+        // Walk backwards so a bare name picks up the type declared after it
+        for (const parameter of this.splitTopLevel(parameterList).reverse()) {
+            const match = /^([A-Za-z_]\w*)\s+(.+)$/.exec(parameter);
+            const name = match ? match[1] : parameter;
+            const type = match ? match[2].trim() : sharedType;
+            sharedType = type;
+
+            const rest = type?.startsWith('...') ?? false;
+            parameters.unshift({
+                name: name,
+                type: type,
+                optional: rest,
+                rest: rest
+            });
+        }
+
+        return parameters;
+    }
+
+    /**
+     * Parse a PHP parameter list such as `?int $limit = 10, string ...$names`
+     * @param parameterList Parameter list without the surrounding parentheses
+     * @returns Structured parameters, named with their `$` sigil
+     */
+    public parsePhpParameters(parameterList: string): ParameterInfo[] {
+        return this.splitTopLevel(parameterList).map(parameter => {
+            const [declaration, defaultValue] = this.splitDefault(parameter);
+
+            // Attributes and constructor promotion modifiers are not part of the type
+            const cleaned = declaration
+                .replace(/#\[[^\]]*\]\s*/g, '')
+                .replace(/^(?:(?:public|private|protected|readonly)\s+)+/, '');
+            const match = /^(.*?)\s*&?\s*(\.\.\.)?\s*(\$\w+)$/.exec(cleaned);
+            const rest = !!match?.[2];
+
+            return {
+                name: match ? match[3] : cleaned,
+                type: match && match[1] ? match[1] : undefined,
+                defaultValue: defaultValue,
+                optional: defaultValue !== undefined || rest,
+                rest: rest
+            };
+        });
+    }
+
+    /**
+     * Parse a Ruby parameter list such as `a, b = 1, *rest, key:, opt: 2, **options, &block`
+     * @param parameterList Parameter list without the surrounding parentheses
+     * @returns Structured parameters; splat and block parameters keep their sigils
+     */
+    public parseRubyParameters(parameterList: string): ParameterInfo[] {
+        return this.splitTopLevel(parameterList).map(parameter => {
+            // Keyword arguments: `key:` (required) or `key: default`
+            const keyword = /^([A-Za-z_]\w*):\s*(.*)$/.exec(parameter);
+            if (keyword) {
+                return {
+                    name: keyword[1],
+                    defaultValue: keyword[2] || undefined,
+                    optional: keyword[2] !== '',
+                    rest: false
+                };
+            }
+
+            const [name, defaultValue] = this.splitDefault(parameter);
+            const rest = /^\*{1,2}\w/.test(name);
+
+            return {
+                name: name,
+                defaultValue: defaultValue,
+                optional: defaultValue !== undefined || rest || name.startsWith('&'),
+                rest: rest
+            };
+        });
+    }
+
+    /**
+     * Parse a parameter list from a language without type information
+     * @param parameterList Parameter list without the surrounding parentheses
+     * @returns Parameters with names and default values only
+     */
+    public parseUntypedParameters(parameterList: string): ParameterInfo[] {
+        return this.splitTopLevel(parameterList).map(parameter => {
+            const [name, defaultValue] = this.splitDefault(parameter);
+            const rest = name.startsWith('...') || name.startsWith('*');
+
+            return {
+                name: name.trim(),
+                defaultValue: defaultValue,
+                optional: defaultValue !== undefined || rest,
+                rest: rest
+            };
+        });
+    }
+
+    /**
+     * Find the exception types thrown directly by a function body, e.g. `throw new Error()` or `raise ValueError`
+     * @param body Function body
+     * @param keyword Statement keyword: `throw` for C-like languages, `raise` for Python and Ruby
+     * @returns Distinct exception type names in order of appearance
+     */
+    public findThrownExceptions(body: string, keyword: 'throw' | 'raise'): string[] {
+        const pattern = keyword === 'raise'
+            ? /\braise\s+([A-Za-z_][A-Za-z0-9_.:]*)/g
+            : /\bthrow\s+(?:new\s+)?([A-Za-z_$\\][A-Za-z0-9_$.\\]*)/g;
+
+        const exceptions: string[] = [];
+        for (const match of body.matchAll(pattern)) {
+            if (!exceptions.includes(match[1])) {
+                exceptions.push(match[1]);
+            }
+        }
+
+        return exceptions;
+    }
+
+    /**
+     * Check whether the quote at the given index starts a Rust lifetime (`'a`) rather than a literal
+     * @param text Parameter list text
+     * @param index Index of the single quote
+     * @returns True when the quote follows `&`, `<`, `+` or `,` and is not closed after the identifier
+     */
+    private isLifetime(text: string, index: number): boolean {
+        const before = text.substring(0, index).trimEnd();
+        return /[&<+,]$/.test(before) && /^'[A-Za-z_]\w*(?!['\w])/.test(text.substring(index));
+    }
+
+    /**
+     * Split a parameter declaration into its declaration and default value
+     * @param parameter Parameter declaration
+     * @returns Tuple of the declaration and the default value (if any)
+     */
+    private splitDefault(parameter: string): [string, string | undefined] {
+        // The first `=` that is not part of `==`, `=>`, `<=`, `>=` or `!=`
+        const match = /(?<![=<>!])=(?![=>])/.exec(parameter);
+        if (!match) {
+            return [parameter.trim(), undefined];
+        }
+
+        return [
+            parameter.substring(0, match.index).trim(),
+            parameter.substring(match.index + 1).trim()
+        ];
+    }
+}
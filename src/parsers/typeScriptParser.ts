@@ -0,0 +1,465 @@
+import * as ts from 'typescript';
+import * as vscode from 'vscode';
+import { DocumentableSymbol, ParameterInfo, SymbolKind } from '../codeParser';
+import { DocComment, SymbolParser } from '../languages/languageSupport';
+
+type FunctionLikeNode =
+    | ts.FunctionDeclaration
+    | ts.MethodDeclaration
+    | ts.ConstructorDeclaration
+    | ts.AccessorDeclaration
+    | ts.ArrowFunction
+    | ts.FunctionExpression;
+
+type TypeLikeNode =
+    | ts.ClassLikeDeclaration
+    | ts.InterfaceDeclaration
+    | ts.EnumDeclaration
+    | ts.TypeAliasDeclaration;
+
+export class TypeScriptParser implements SymbolParser {
+    /**
+     * Parse the document and collect every documentable symbol: functions, methods,
+     * accessors, classes, interfaces, enums and type aliases
+     * @param document The text document
+     * @returns Information about each symbol, in source order
+     */
+    public findAllSymbols(document: vscode.TextDocument): DocumentableSymbol[] {
+        const text = document.getText();
+        const sourceFile = ts.createSourceFile(
+            'document',
+            text,
+            ts.ScriptTarget.Latest,
+            true,
+            this.getScriptKind(document.languageId)
+        );
+
+        const symbols: DocumentableSymbol[] = [];
+
+        const visit = (node: ts.Node): void => {
+            const functionNode = this.asDocumentableFunction(node);
+            if (functionNode) {
+                symbols.push(this.createFunctionSymbol(functionNode, sourceFile, document.languageId));
+            }
+
+            const typeNode = this.asDocumentableType(node);
+            if (typeNode) {
+                symbols.push(this.createTypeSymbol(typeNode, sourceFile, document.languageId));
+            }
+
+            ts.forEachChild(node, visit);
+        };
+        visit(sourceFile);
+
+        return symbols;
+    }
+
+    /**
+     * Map a VS Code language identifier to the matching TypeScript script kind
+     * @param languageId VS Code language identifier
+     * @returns Script kind used when parsing the source
+     */
+    private getScriptKind(languageId: string): ts.ScriptKind {
+        switch (languageId) {
+            case 'typescript':
+                return ts.ScriptKind.TS;
+            case 'typescriptreact':
+                return ts.ScriptKind.TSX;
+            case 'javascriptreact':
+                return ts.ScriptKind.JSX;
+            default:
+                return ts.ScriptKind.JS;
+        }
+    }
+
+    /**
+     * Check whether a node is a function that can carry its own doc comment.
+     * Anonymous callbacks such as `items.map(x => x * 2)` are ignored; arrow functions
+     * and function expressions only count when they are assigned to a name.
+     * @param node Syntax tree node
+     * @returns The function node or undefined if the node is not documentable
+     */
+    private asDocumentableFunction(node: ts.Node): FunctionLikeNode | undefined {
+        if (ts.isFunctionDeclaration(node) ||
+            ts.isMethodDeclaration(node) ||
+            ts.isConstructorDeclaration(node) ||
+            ts.isGetAccessorDeclaration(node) ||
+            ts.isSetAccessorDeclaration(node)) {
+            return node;
+        }
+
+        if ((ts.isArrowFunction(node) || ts.isFunctionExpression(node)) && node.parent &&
+            (ts.isVariableDeclaration(node.parent) ||
+             ts.isPropertyDeclaration(node.parent) ||
+             ts.isPropertyAssignment(node.parent)) &&
+            node.parent.initializer === node) {
+            return node;
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Check whether a node is a class, interface, enum or type alias declaration
+     * @param node Syntax tree node
+     * @returns The declaration node or undefined if the node is not a type declaration
+     */
+    private asDocumentableType(node: ts.Node): TypeLikeNode | undefined {
+        if (ts.isClassDeclaration(node) ||
+            ts.isInterfaceDeclaration(node) ||
+            ts.isEnumDeclaration(node) ||
+            ts.isTypeAliasDeclaration(node)) {
+            return node;
+        }
+
+        // Class expressions are only documentable when assigned to a name
+        if (ts.isClassExpression(node) && node.parent && ts.isVariableDeclaration(node.parent)) {
+            return node;
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Build the symbol information for a function node
+     * @param node Function node
+     * @param sourceFile Parsed source file
+     * @param language Language identifier of the document
+     * @returns Information about the function
+     */
+    private createFunctionSymbol(
+        node: FunctionLikeNode,
+        sourceFile: ts.SourceFile,
+        language: string
+    ): DocumentableSymbol {
+        // The declaration that owns the doc comment: for `const fn = () => {}` this is
+        // the whole variable statement rather than the arrow function itself
+        const declaration = this.getDeclarationNode(node);
+        const bodyStart = node.body ? node.body.getStart(sourceFile) : declaration.getEnd();
+        const modifiers = [
+            ...this.getModifierNames(declaration),
+            ...(declaration !== node ? this.getModifierNames(node) : [])
+        ];
+
+        return {
+            ...this.createBaseSymbol('function', declaration, sourceFile, language),
+            name: this.getFunctionName(node),
+            signature: this.getSignatureText(declaration, bodyStart, sourceFile),
+            className: this.getEnclosingClassName(node),
+            modifiers: modifiers,
+            typeParameters: node.typeParameters?.map(parameter => parameter.getText(sourceFile)) ?? [],
+            parameters: node.parameters.map(parameter => this.createParameterInfo(parameter, sourceFile)),
+            returnType: node.type?.getText(sourceFile),
+            isAsync: modifiers.includes('async'),
+            isGenerator: !!node.asteriskToken,
+            decorators: this.getDecoratorTexts(node, sourceFile),
+            throws: node.body ? this.findThrownExceptions(node.body, sourceFile) : []
+        };
+    }
+
+    /**
+     * Describe a function parameter
+     * @param parameter Parameter declaration node
+     * @param sourceFile Parsed source file
+     * @returns Structured parameter information
+     */
+    private createParameterInfo(parameter: ts.ParameterDeclaration, sourceFile: ts.SourceFile): ParameterInfo {
+        return {
+            // Destructured parameters keep their binding pattern, e.g. `{ id, name }`
+            name: this.collapseWhitespace(parameter.name.getText(sourceFile)),
+            type: parameter.type ? this.collapseWhitespace(parameter.type.getText(sourceFile)) : undefined,
+            defaultValue: parameter.initializer ? this.collapseWhitespace(parameter.initializer.getText(sourceFile)) : undefined,
+            optional: !!parameter.questionToken || !!parameter.initializer || !!parameter.dotDotDotToken,
+            rest: !!parameter.dotDotDotToken
+        };
+    }
+
+    /**
+     * Collect the decorators applied to a function (methods only; TypeScript has no function decorators)
+     * @param node Function node
+     * @param sourceFile Parsed source file
+     * @returns Decorator texts such as `@Get(':id')`
+     */
+    private getDecoratorTexts(node: FunctionLikeNode, sourceFile: ts.SourceFile): string[] {
+        const decorated = ts.isArrowFunction(node) || ts.isFunctionExpression(node) ? node.parent : node;
+        if (!ts.canHaveDecorators(decorated)) {
+            return [];
+        }
+
+        return (ts.getDecorators(decorated) ?? []).map(decorator => decorator.getText(sourceFile));
+    }
+
+    /**
+     * Find the exceptions thrown directly by a function body. Throws inside nested
+     * functions are ignored because they do not propagate out of this function.
+     * @param body Function body node
+     * @param sourceFile Parsed source file
+     * @returns Distinct thrown types (or expressions when the type cannot be named)
+     */
+    private findThrownExceptions(body: ts.Node, sourceFile: ts.SourceFile): string[] {
+        const exceptions: string[] = [];
+
+        const visit = (node: ts.Node): void => {
+            if (ts.isFunctionLike(node)) {
+                return;
+            }
+
+            if (ts.isThrowStatement(node) && node.expression) {
+                const expression = node.expression;
+                const thrown = ts.isNewExpression(expression) || ts.isCallExpression(expression)
+                    ? expression.expression.getText(sourceFile)
+                    : expression.getText(sourceFile);
+
+                if (!exceptions.includes(thrown)) {
+                    exceptions.push(thrown);
+                }
+            }
+
+            ts.forEachChild(node, visit);
+        };
+        ts.forEachChild(body, visit);
+
+        return exceptions;
+    }
+
+    /**
+     * Build the symbol information for a class, interface, enum or type alias
+     * @param node Type declaration node
+     * @param sourceFile Parsed source file
+     * @param language Language identifier of the document
+     * @returns Information about the type declaration
+     */
+    private createTypeSymbol(
+        node: TypeLikeNode,
+        sourceFile: ts.SourceFile,
+        language: string
+    ): DocumentableSymbol {
+        const declaration = ts.isClassExpression(node) ? this.getDeclarationNode(node) : node;
+        const openBrace = node.getChildren(sourceFile)
+            .find(child => child.kind === ts.SyntaxKind.OpenBraceToken);
+        const signatureEnd = openBrace ? openBrace.getStart(sourceFile) : declaration.getEnd();
+
+        let kind: SymbolKind;
+        let members: string[];
+
+        if (ts.isInterfaceDeclaration(node)) {
+            kind = 'interface';
+            members = node.members.map(member => this.collapseWhitespace(member.getText(sourceFile)));
+        } else if (ts.isEnumDeclaration(node)) {
+            kind = 'enum';
+            members = node.members.map(member => this.collapseWhitespace(member.getText(sourceFile)));
+        } else if (ts.isTypeAliasDeclaration(node)) {
+            kind = 'typeAlias';
+            members = [];
+        } else {
+            kind = 'class';
+            members = node.members.map(member => this.getMemberSignature(member, sourceFile));
+        }
+
+        const name = node.name
+            ? node.name.text
+            : ts.isVariableDeclaration(node.parent) ? node.parent.name.getText(sourceFile) : 'default';
+
+        return {
+            ...this.createBaseSymbol(kind, declaration, sourceFile, language),
+            name: name,
+            signature: this.getSignatureText(declaration, signatureEnd, sourceFile),
+            modifiers: this.getModifierNames(declaration),
+            typeParameters: ts.isEnumDeclaration(node)
+                ? []
+                : node.typeParameters?.map(parameter => parameter.getText(sourceFile)) ?? [],
+            members: members
+        };
+    }
+
+    /**
+     * Build the location and documentation fields shared by every symbol kind
+     * @param kind Symbol kind
+     * @param declaration Declaration node owning the doc comment
+     * @param sourceFile Parsed source file
+     * @param language Language identifier of the document
+     * @returns Symbol information without the kind-specific fields
+     */
+    private createBaseSymbol(
+        kind: SymbolKind,
+        declaration: ts.Node,
+        sourceFile: ts.SourceFile,
+        language: string
+    ): DocumentableSymbol {
+        const start = declaration.getStart(sourceFile);
+        const end = declaration.getEnd();
+        const startPosition = sourceFile.getLineAndCharacterOfPosition(start);
+        const endPosition = sourceFile.getLineAndCharacterOfPosition(end);
+        const documentation = this.getLeadingDocComment(declaration, sourceFile);
+
+        return {
+            kind: kind,
+            name: '',
+            signature: '',
+            body: sourceFile.text.substring(start, end),
+            startLine: startPosition.line,
+            endLine: endPosition.line,
+            language: language,
+            existingDocumentation: documentation?.text,
+            documentationRange: documentation?.range,
+            range: new vscode.Range(
+                startPosition.line, startPosition.character,
+                endPosition.line, endPosition.character
+            )
+        };
+    }
+
+    /**
+     * Find the node a doc comment would be attached to
+     * @param node Function or class expression node
+     * @returns The enclosing declaration statement, or the node itself
+     */
+    private getDeclarationNode(node: FunctionLikeNode | ts.ClassExpression): ts.Node {
+        if (ts.isArrowFunction(node) || ts.isFunctionExpression(node) || ts.isClassExpression(node)) {
+            const parent = node.parent;
+            if (ts.isVariableDeclaration(parent)) {
+                // VariableDeclaration -> VariableDeclarationList -> VariableStatement
+                const statement = parent.parent?.parent;
+                if (statement && ts.isVariableStatement(statement) &&
+                    statement.declarationList.declarations.length === 1) {
+                    return statement;
+                }
+            }
+            return parent;
+        }
+        return node;
+    }
+
+    /**
+     * Resolve the name of a function node
+     * @param node Function node
+     * @returns Function name, `constructor` for constructors or `default` for anonymous default exports
+     */
+    private getFunctionName(node: FunctionLikeNode): string {
+        if (ts.isConstructorDeclaration(node)) {
+            return 'constructor';
+        }
+
+        const nameNode = ts.isArrowFunction(node) || (ts.isFunctionExpression(node) && !node.name)
+            ? (node.parent as ts.VariableDeclaration | ts.PropertyDeclaration | ts.PropertyAssignment).name
+            : node.name;
+
+        if (!nameNode) {
+            return 'default';
+        }
+
+        return ts.isIdentifier(nameNode) || ts.isPrivateIdentifier(nameNode) || ts.isStringLiteral(nameNode)
+            ? nameNode.text
+            : nameNode.getText();
+    }
+
+    /**
+     * Summarize a class member as its declaration without the body
+     * @param member Class member node
+     * @param sourceFile Parsed source file
+     * @returns Single-line member signature
+     */
+    private getMemberSignature(member: ts.ClassElement, sourceFile: ts.SourceFile): string {
+        const body = ts.isFunctionLike(member) ? (member as ts.FunctionLikeDeclaration).body : undefined;
+        const end = body ? body.getStart(sourceFile) : member.getEnd();
+        return this.getSignatureText(member, end, sourceFile);
+    }
+
+    /**
+     * Extract the signature text, from the first modifier or decorator up to the given offset
+     * @param declaration Declaration node
+     * @param end Offset where the signature ends (usually the start of the body)
+     * @param sourceFile Parsed source file
+     * @returns Signature text with whitespace collapsed onto a single line
+     */
+    private getSignatureText(declaration: ts.Node, end: number, sourceFile: ts.SourceFile): string {
+        return this.collapseWhitespace(
+            sourceFile.text.substring(declaration.getStart(sourceFile), end)
+        );
+    }
+
+    /**
+     * Collapse a multi-line declaration onto a single line
+     * @param text Declaration text
+     * @returns Text with runs of whitespace replaced by single spaces
+     */
+    private collapseWhitespace(text: string): string {
+        return text
+            .replace(/\s+/g, ' ')
+            .replace(/([(<[]) /g, '$1')
+            .replace(/ ([)>\]])/g, '$1')
+            .trim();
+    }
+
+    /**
+     * Collect the modifier keywords of a node (export, async, static, private, ...)
+     * @param node Syntax tree node
+     * @returns Modifier keywords in source order
+     */
+    private getModifierNames(node: ts.Node): string[] {
+        if (!ts.canHaveModifiers(node)) {
+            return [];
+        }
+
+        return (ts.getModifiers(node) ?? []).map(modifier => ts.tokenToString(modifier.kind) ?? '');
+    }
+
+    /**
+     * Find the name of the class a function is declared in
+     * @param node Function node
+     * @returns Class name or undefined for functions outside a class
+     */
+    private getEnclosingClassName(node: ts.Node): string | undefined {
+        let current = node.parent;
+
+        while (current) {
+            if (ts.isClassDeclaration(current) || ts.isClassExpression(current)) {
+                if (current.name) {
+                    return current.name.text;
+                }
+                // Anonymous class expression assigned to a variable: const Foo = class { ... }
+                if (ts.isVariableDeclaration(current.parent) && ts.isIdentifier(current.parent.name)) {
+                    return current.parent.name.text;
+                }
+                return 'default';
+            }
+
+            // Functions nested in another function's body belong to that function, not the class
+            if (ts.isFunctionLike(current)) {
+                return undefined;
+            }
+
+            current = current.parent;
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Find the JSDoc comment immediately preceding a declaration
+     * @param declaration Declaration node
+     * @param sourceFile Parsed source file
+     * @returns The doc comment and its range, or undefined if none is present
+     */
+    private getLeadingDocComment(declaration: ts.Node, sourceFile: ts.SourceFile): DocComment | undefined {
+        const comments = ts.getLeadingCommentRanges(sourceFile.text, declaration.getFullStart()) ?? [];
+        const last = comments[comments.length - 1];
+
+        if (!last || last.kind !== ts.SyntaxKind.MultiLineCommentTrivia) {
+            return undefined;
+        }
+
+        const commentText = sourceFile.text.substring(last.pos, last.end);
+        if (!commentText.startsWith('/**')) {
+            return undefined;
+        }
+
+        const start = sourceFile.getLineAndCharacterOfPosition(last.pos);
+        const end = sourceFile.getLineAndCharacterOfPosition(last.end);
+
+        return {
+            text: commentText,
+            range: new vscode.Range(start.line, start.character, end.line, end.character)
+        };
+    }
+}
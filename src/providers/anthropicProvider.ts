@@ -0,0 +1,144 @@
+import { CompletionRequest, LLMProvider, TruncatedResponseError } from './llmProvider';
+
+// Version of the Messages API the requests are written for
+const anthropicVersion = '2023-06-01';
+
+// Highest temperature the Messages API accepts; OpenAI accepts up to 2
+const maxTemperature = 1;
+
+// The fields of the streamed events that are read
+interface StreamEvent {
+    type?: string;
+    error?: { message?: string };
+    delta?: { type?: string; text?: string; stop_reason?: string };
+}
+
+/**
+ * Chat completions through the Anthropic Messages API, called with `fetch`
+ */
+export class AnthropicProvider implements LLMProvider {
+    public readonly id = 'anthropic';
+    public readonly label = 'Anthropic';
+    private apiKey: string;
+    private baseUrl: string;
+
+    /**
+     * @param apiKey Anthropic API key
+     * @param baseUrl API URL without the version path, e.g. `https://api.anthropic.com`
+     */
+    constructor(apiKey: string, baseUrl: string) {
+        this.apiKey = apiKey;
+        this.baseUrl = baseUrl.replace(/\/+$/, '');
+    }
+
+    /**
+     * List the models the API key has access to
+     * @returns Model identifiers, sorted
+     */
+    public async listModels(): Promise<string[]> {
+        const response = await this.send('GET', '/v1/models?limit=1000');
+        const models = await response.json() as { data: { id: string }[] };
+
+        return models.data.map(model => model.id).sort();
+    }
+
+    /**
+     * Request a message as a stream of server-sent events. System messages become the request's
+     * system prompt, as the Messages API takes no system role, and temperatures above 1 are
+     * sent as 1.
+     * @param request The request
+     * @param onText Called with the text received so far
+     * @param signal Aborts the HTTP request
+     * @returns The complete response text
+     * @throws TruncatedResponseError when the response stopped at the token limit
+     */
+    public async streamCompletion(request: CompletionRequest, onText: (text: string) => void, signal: AbortSignal): Promise<string> {
+        const response = await this.send('POST', '/v1/messages', {
+            model: request.model,
+            system: request.messages.filter(message => message.role === 'system').map(message => message.content).join('\n\n'),
+            messages: request.messages.filter(message => message.role !== 'system'),
+            temperature: Math.min(request.temperature, maxTemperature),
+            max_tokens: request.maxTokens,
+            stream: true
+        }, signal);
+
+        const reader = response.body!.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        let text = '';
+
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) {
+                return text;
+            }
+
+            // Events are separated by lines; the last line may still be incomplete
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop()!;
+
+            for (const line of lines) {
+                // Keep-alive lines carry no data
+                if (!line.startsWith('data:') || !line.substring(5).trim()) {
+                    continue;
+                }
+
+                const event = this.parseEvent(line);
+                if (event.type === 'error') {
+                    throw new Error(`Anthropic API error: ${event.error?.message ?? line}`);
+                }
+                if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+                    text += event.delta.text;
+                    onText(text);
+                }
+                if (event.type === 'message_delta' && event.delta?.stop_reason === 'max_tokens') {
+                    throw new TruncatedResponseError(request.maxTokens);
+                }
+            }
+        }
+    }
+
+    /**
+     * Parse the data of a server-sent event
+     * @param line A `data:` line
+     * @returns The event
+     * @throws Error when the data is not JSON
+     */
+    private parseEvent(line: string): StreamEvent {
+        try {
+            return JSON.parse(line.substring(5));
+        } catch {
+            throw new Error(`Anthropic API error: unexpected event data ${line}`);
+        }
+    }
+
+    /**
+     * Send an authenticated request
+     * @param method HTTP method
+     * @param path Path below the base URL
+     * @param body JSON body
+     * @param signal Aborts the request
+     * @returns The response
+     * @throws Error with the API's error message when the status is not OK
+     */
+    private async send(method: string, path: string, body?: unknown, signal?: AbortSignal): Promise<Response> {
+        const response = await fetch(this.baseUrl + path, {
+            method: method,
+            headers: {
+                'x-api-key': this.apiKey,
+                'anthropic-version': anthropicVersion,
+                'content-type': 'application/json'
+            },
+            body: body === undefined ? undefined : JSON.stringify(body),
+            signal: signal
+        });
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => undefined) as { error?: { message?: string } } | undefined;
+            throw new Error(`Anthropic API error ${response.status}: ${error?.error?.message ?? response.statusText}`);
+        }
+
+        return response;
+    }
+}
@@ -0,0 +1,25 @@
+import { AzureOpenAI } from 'openai';
+import { OpenAIProvider } from './openAIProvider';
+
+/**
+ * Chat completions through Azure OpenAI. Requests name a deployment of the resource instead of
+ * a model.
+ */
+export class AzureOpenAIProvider extends OpenAIProvider {
+    /**
+     * @param client Client configured with the resource endpoint, API key and API version
+     */
+    constructor(client: AzureOpenAI) {
+        super('azureOpenai', 'Azure OpenAI', client);
+    }
+
+    /**
+     * Test the credentials. Deployments cannot be listed with an API key, so no model is offered
+     * and the deployment name has to be entered.
+     * @returns An empty list
+     */
+    public async listModels(): Promise<string[]> {
+        await this.client.models.list();
+        return [];
+    }
+}
@@ -0,0 +1,61 @@
+/**
+ * One message of a chat completion request
+ */
+export interface ChatMessage {
+    role: 'system' | 'user';
+    content: string;
+}
+
+/**
+ * A chat completion request, independent of the service that answers it
+ */
+export interface CompletionRequest {
+    model: string;
+    messages: ChatMessage[];
+    temperature: number;
+    maxTokens: number;
+}
+
+/**
+ * Thrown by providers when a response stopped at the request's token limit, as a cut-off
+ * response cannot be used
+ */
+export class TruncatedResponseError extends Error {
+    public readonly maxTokens: number;
+
+    /**
+     * @param maxTokens The token limit of the request
+     */
+    constructor(maxTokens: number) {
+        super(`The response was cut off at the limit of ${maxTokens} tokens`);
+        this.name = 'TruncatedResponseError';
+        this.maxTokens = maxTokens;
+    }
+}
+
+/**
+ * A service that answers chat completion requests: OpenAI, Azure OpenAI, Anthropic or any
+ * OpenAI-compatible server such as Ollama
+ */
+export interface LLMProvider {
+    // Value of `gptDocAssistant.provider`
+    readonly id: string;
+    // Name shown in messages
+    readonly label: string;
+
+    /**
+     * List the chat models that can be used. Listing models is also how credentials are tested.
+     * @returns Model identifiers, sorted; empty when the service cannot list them
+     */
+    listModels(): Promise<string[]>;
+
+    /**
+     * Request a completion as a stream
+     * @param request The request
+     * @param onText Called with the text received so far
+     * @param signal Aborts the HTTP request
+     * @returns The complete response text
+     * @throws TruncatedResponseError when the response reached `request.maxTokens`
+     */
+    streamCompletion(request: CompletionRequest, onText: (text: string) => void, signal: AbortSignal): Promise<string>;
+}
@@ -0,0 +1,77 @@
+import { OpenAI } from 'openai';
+import { CompletionRequest, LLMProvider, TruncatedResponseError } from './llmProvider';
+
+// Reasoning models (o1, o3-mini, ...) reject `max_tokens` and any temperature but the default
+const reasoningModelPattern = /^o\d/;
+
+/**
+ * Chat completions through the OpenAI client: the OpenAI API itself, or any server with an
+ * OpenAI-compatible API such as Ollama, llama.cpp or LM Studio
+ */
+export class OpenAIProvider implements LLMProvider {
+    public readonly id: string;
+    public readonly label: string;
+    protected client: OpenAI;
+
+    /**
+     * @param id Provider identifier
+     * @param label Name shown in messages
+     * @param client Client configured with the credentials and base URL
+     */
+    constructor(id: string, label: string, client: OpenAI) {
+        this.id = id;
+        this.label = label;
+        this.client = client;
+    }
+
+    /**
+     * List the models of the server. The OpenAI API also lists embedding, audio and image models,
+     * which are left out; other servers only serve the models they list.
+     * @returns Model identifiers, sorted
+     */
+    public async listModels(): Promise<string[]> {
+        const models: string[] = [];
+        for await (const model of this.client.models.list()) {
+            // Chat models: gpt-4o, gpt-4-turbo, o1, o3-mini, ...
+            if (this.id !== 'openai' || /^(?:gpt-|o\d)/.test(model.id)) {
+                models.push(model.id);
+            }
+        }
+
+        return models.sort();
+    }
+
+    /**
+     * Request a chat completion as a stream. Reasoning models get the token limit as
+     * `max_completion_tokens` and no temperature.
+     * @param request The request
+     * @param onText Called with the text received so far
+     * @param signal Aborts the HTTP request
+     * @returns The complete response text
+     * @throws TruncatedResponseError when the response stopped at the token limit
+     */
+    public async streamCompletion(request: CompletionRequest, onText: (text: string) => void, signal: AbortSignal): Promise<string> {
+        const stream = await this.client.chat.completions.create({
+            model: request.model,
+            messages: request.messages,
+            ...(reasoningModelPattern.test(request.model)
+                ? { max_completion_tokens: request.maxTokens }
+                : { temperature: request.temperature, max_tokens: request.maxTokens }),
+            stream: true
+        }, { signal: signal });
+
+        let text = '';
+        for await (const chunk of stream) {
+            const delta = chunk.choices[0]?.delta?.content;
+            if (delta) {
+                text += delta;
+                onText(text);
+            }
+            if (chunk.choices[0]?.finish_reason === 'length') {
+                throw new TruncatedResponseError(request.maxTokens);
+            }
+        }
+
+        return text;
+    }
+}
@@ -0,0 +1,118 @@
+import { AzureOpenAI, OpenAI } from 'openai';
+import * as vscode from 'vscode';
+import { AnthropicProvider } from './anthropicProvider';
+import { AzureOpenAIProvider } from './azureOpenAIProvider';
+import { LLMProvider } from './llmProvider';
+import { OpenAIProvider } from './openAIProvider';
+
+/**
+ * A selectable provider and where its credentials come from
+ */
+export interface ProviderDescription {
+    id: string;
+    label: string;
+    detail: string;
+    // Setting below `gptDocAssistant` that holds the API key
+    apiKeySetting: string;
+    // Environment variable used when the setting is empty
+    apiKeyVariable?: string;
+    apiKeyRequired: boolean;
+    // Setting below `gptDocAssistant` with the endpoint or base URL, for providers that have one
+    urlSetting?: string;
+    urlPrompt?: string;
+}
+
+export const providerDescriptions: ProviderDescription[] = [
+    {
+        id: 'openai',
+        label: 'OpenAI',
+        detail: 'api.openai.com, authenticated with an API key',
+        apiKeySetting: 'openaiApiKey',
+        apiKeyVariable: 'OPENAI_API_KEY',
+        apiKeyRequired: true
+    },
+    {
+        id: 'azureOpenai',
+        label: 'Azure OpenAI',
+        detail: 'A deployment of an Azure OpenAI resource, authenticated with the resource key',
+        apiKeySetting: 'azureOpenai.apiKey',
+        apiKeyVariable: 'AZURE_OPENAI_API_KEY',
+        apiKeyRequired: true,
+        urlSetting: 'azureOpenai.endpoint',
+        urlPrompt: 'Endpoint of the Azure OpenAI resource, e.g. https://my-resource.openai.azure.com'
+    },
+    {
+        id: 'anthropic',
+        label: 'Anthropic',
+        detail: 'Claude models through api.anthropic.com, authenticated with an API key',
+        apiKeySetting: 'anthropic.apiKey',
+        apiKeyVariable: 'ANTHROPIC_API_KEY',
+        apiKeyRequired: true
+    },
+    {
+        id: 'openaiCompatible',
+        label: 'OpenAI-compatible server',
+        detail: 'Ollama, llama.cpp, LM Studio or any server with an OpenAI-compatible API at a base URL',
+        apiKeySetting: 'openaiCompatible.apiKey',
+        apiKeyRequired: false,
+        urlSetting: 'openaiCompatible.baseUrl',
+        urlPrompt: 'Base URL of the OpenAI-compatible API, e.g. http://localhost:11434/v1 for Ollama or http://localhost:8080/v1 for llama.cpp'
+    }
+];
+
+/**
+ * Describe a provider
+ * @param id Provider identifier
+ * @returns The description, or undefined for an unknown provider
+ */
+export function getProviderDescription(id: string): ProviderDescription | undefined {
+    return providerDescriptions.find(description => description.id === id);
+}
+
+/**
+ * Create a provider from its settings in `gptDocAssistant`, which may differ per workspace
+ * @param id Provider identifier, as in `gptDocAssistant.provider`
+ * @param apiKey Key to use instead of the configured one, e.g. to test a key before saving it
+ * @returns The provider
+ * @throws Error naming the setting that is missing
+ */
+export function createProvider(id: string, apiKey?: string): LLMProvider {
+    const description = getProviderDescription(id);
+    if (!description) {
+        throw new Error(`Unknown provider "${id}"`);
+    }
+
+    const config = vscode.workspace.getConfiguration('gptDocAssistant');
+    const key = apiKey ||
+        config.get<string>(description.apiKeySetting) ||
+        (description.apiKeyVariable ? process.env[description.apiKeyVariable] : undefined);
+
+    if (!key && description.apiKeyRequired) {
+        throw new Error(`No API key provided for ${description.label}; set gptDocAssistant.${description.apiKeySetting}`);
+    }
+
+    switch (id) {
+        case 'azureOpenai': {
+            const endpoint = config.get<string>('azureOpenai.endpoint') || process.env.AZURE_OPENAI_ENDPOINT;
+            if (!endpoint) {
+                throw new Error('No endpoint provided for Azure OpenAI; set gptDocAssistant.azureOpenai.endpoint');
+            }
+
+            return new AzureOpenAIProvider(new AzureOpenAI({
+                endpoint: endpoint,
+                apiKey: key,
+                apiVersion: config.get<string>('azureOpenai.apiVersion', '2024-10-21')
+            }));
+        }
+        case 'anthropic':
+            return new AnthropicProvider(key!, config.get<string>('anthropic.baseUrl', 'https://api.anthropic.com'));
+        case 'openaiCompatible':
+            return new OpenAIProvider(id, description.label, new OpenAI({
+                // Local servers usually ignore the key, but the client requires one
+                apiKey: key || 'none',
+                baseURL: config.get<string>('openaiCompatible.baseUrl', 'http://localhost:11434/v1')
+            }));
+        default:
+            return new OpenAIProvider(id, description.label, new OpenAI({ apiKey: key }));
+    }
+}
@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import { LanguageRegistry } from './languages/languageRegistry';
 
 export class RAGSystem {
     private projectContextCache: Map<string, string> = new Map();
@@ -8,9 +9,10 @@ export class RAGSystem {
     /**
      * Extract context from project files
      * @param language Programming language
+     * @param maxLength Maximum length of the aggregated context
      * @returns Aggregated context string
      */
-    public async extractProjectContext(language: string): Promise<string> {
+    public async extractProjectContext(language: string, maxLength: number = 2000): Promise<string> {
         // Clear previous cache
         this.projectContextCache.clear();
 
@@ -27,7 +29,7 @@ export class RAGSystem {
             await this.searchFiles(workspaceRoot, language);
 
             // Aggregate context
-            return this.aggregateContext();
+            return this.aggregateContext(maxLength);
         } catch (error) {
             console.error('Error extracting project context:', error);
             return '';
@@ -69,17 +71,7 @@ export class RAGSystem {
      * @returns Array of file extensions
      */
     private getLanguageFileExtensions(language: string): string[] {
-        const extensionMap: { [key: string]: string[] } = {
-            'javascript': ['.js', '.jsx'],
-            'typescript': ['.ts', '.tsx'],
-            'python': ['.py'],
-            'java': ['.java'],
-            'csharp': ['.cs'],
-            'cpp': ['.cpp', '.h', '.hpp'],
-            'c': ['.c', '.h']
-        };
-
-        return extensionMap[language] || [];
+        return LanguageRegistry.getDefault().getFileExtensions(language);
     }
 
     /**
@@ -146,10 +138,10 @@ export class RAGSystem {
 
     /**
      * Aggregate cached context into a single string
+     * @param maxContextLength Limit of the total context length
      * @returns Aggregated context
      */
-    private aggregateContext(): string {
-        const maxContextLength = 2000; // Limit total context length
+    private aggregateContext(maxContextLength: number): string {
         let aggregatedContext = '';
 
         for (const [filePath, context] of this.projectContextCache) {
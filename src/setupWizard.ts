@@ -0,0 +1,595 @@
+import * as vscode from 'vscode';
+import { CodeParser, DocumentableSymbol } from './codeParser';
+import { DocumentationPlacement } from './documentationPlacement';
+import { DocumentationProvider } from './documentationProvider';
+import { OpenAIService } from './openaiService';
+import { ProviderDescription, getProviderDescription, providerDescriptions } from './providers/providerFactory';
+import { DocModel, parsePartialDocModel } from './languages/docModel';
+import { LanguageRegistry } from './languages/languageRegistry';
+import { DocStyle } from './languages/languageSupport';
+import { Logger } from './utils/logger';
+import { SettingsManager } from './utils/settings';
+
+// Offered when the OpenAI models of the key cannot be listed
+const fallbackModels = ['gpt-4o', 'gpt-4o-mini', 'gpt-4-turbo', 'gpt-4', 'gpt-3.5-turbo'];
+
+// Wait for typing to pause before generating a new example
+const exampleDelay = 1000;
+
+// Longest function, in lines, picked as the example for documentation standards
+const maxExampleLines = 40;
+
+interface SetupStep extends vscode.QuickPickItem {
+    run: () => Promise<unknown>;
+}
+
+interface DocumentationExample {
+    document: vscode.TextDocument;
+    symbol: DocumentableSymbol;
+    style: DocStyle;
+}
+
+/**
+ * Guided setup of the provider and its connection, the model and documentation standards, so
+ * nothing has to be edited in the settings JSON by hand
+ */
+export class SetupWizard implements vscode.TextDocumentContentProvider {
+    public static readonly SCHEME = 'gptdoc-example';
+
+    private logger: Logger;
+    private settingsManager: SettingsManager;
+    private openaiService: OpenAIService;
+    private codeParser: CodeParser;
+    private documentationProvider: DocumentationProvider;
+    private documentationPlacement: DocumentationPlacement;
+    private languageRegistry: LanguageRegistry;
+    private contents: Map<string, string> = new Map();
+    private changeEmitter: vscode.EventEmitter<vscode.Uri>;
+
+    public readonly onDidChange: vscode.Event<vscode.Uri>;
+
+    constructor(
+        settingsManager: SettingsManager,
+        openaiService: OpenAIService,
+        codeParser: CodeParser,
+        documentationProvider: DocumentationProvider,
+        documentationPlacement: DocumentationPlacement = new DocumentationPlacement(),
+        languageRegistry: LanguageRegistry = LanguageRegistry.getDefault()
+    ) {
+        this.logger = new Logger('SetupWizard');
+        this.settingsManager = settingsManager;
+        this.openaiService = openaiService;
+        this.codeParser = codeParser;
+        this.documentationProvider = documentationProvider;
+        this.documentationPlacement = documentationPlacement;
+        this.languageRegistry = languageRegistry;
+        this.changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+        this.onDidChange = this.changeEmitter.event;
+    }
+
+    /**
+     * Register the provider of the example shown while documentation standards are edited
+     * @returns Disposable that unregisters the provider
+     */
+    public register(): vscode.Disposable {
+        return vscode.Disposable.from(
+            vscode.workspace.registerTextDocumentContentProvider(SetupWizard.SCHEME, this),
+            this.changeEmitter
+        );
+    }
+
+    /**
+     * Provide the contents of an example document
+     * @param uri Example URI
+     * @returns The example function with documentation following the edited standards
+     */
+    public provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.contents.get(uri.toString()) ?? '';
+    }
+
+    /**
+     * Run the setup. Without a working provider it starts by choosing one and connecting to it;
+     * then a menu of all settings stays open until it is dismissed.
+     */
+    public async run(): Promise<void> {
+        if (!this.openaiService.isInitialized() && !await this.selectProvider()) {
+            return;
+        }
+
+        for (;;) {
+            const step = await vscode.window.showQuickPick(this.createSteps(), {
+                title: 'GPT Documentation Assistant Setup',
+                placeHolder: 'Choose what to configure'
+            });
+
+            if (!step) {
+                return;
+            }
+
+            try {
+                await step.run();
+            } catch (error) {
+                this.logger.error(`Setup step "${step.label}" failed: ${error}`);
+                vscode.window.showErrorMessage(`Failed to save the setting: ${error}`);
+            }
+        }
+    }
+
+    /**
+     * Create the menu entries, showing the current value of each setting
+     * @returns Setup steps
+     */
+    private createSteps(): SetupStep[] {
+        const customizedLanguages = this.settingsManager.getCustomizedLanguages();
+        const provider = this.getProvider();
+
+        return [
+            {
+                label: '$(server) Provider',
+                description: provider.label,
+                detail: 'The service that generates documentation: OpenAI, Azure OpenAI, Anthropic or a local OpenAI-compatible server',
+                run: () => this.selectProvider()
+            },
+            {
+                label: '$(key) Connection',
+                description: this.openaiService.isInitialized() ? 'Configured' : 'Not set',
+                detail: `Enter the ${provider.urlSetting ? 'URL and ' : ''}API key of ${provider.label}; they are tested before they are saved`,
+                run: () => this.configureConnection(provider)
+            },
+            {
+                label: '$(hubot) Model',
+                description: this.settingsManager.getModel(),
+                detail: 'The chat model that writes documentation and explanations',
+                run: () => this.selectModel()
+            },
+            {
+                label: '$(symbol-keyword) Documentation Style',
+                detail: 'Choose the doc comment style of a language, such as Google or NumPy docstrings',
+                run: () => this.selectDocumentationStyle()
+            },
+            {
+                label: '$(book) Documentation Standards',
+                description: customizedLanguages.length > 0 ? `Customized for ${customizedLanguages.join(', ')}` : 'Built-in',
+                detail: 'Edit the instructions sent for a language, with a live example of the result',
+                run: () => this.editDocumentationStandards()
+            },
+            {
+                label: '$(discard) Reset Documentation Standards',
+                detail: 'Go back to the built-in standards of one or all languages',
+                run: () => this.resetDocumentationStandards()
+            }
+        ];
+    }
+
+    /**
+     * Get the selected provider
+     * @returns Description of the provider, OpenAI when the setting names an unknown one
+     */
+    private getProvider(): ProviderDescription {
+        return getProviderDescription(this.settingsManager.getProvider()) ?? providerDescriptions[0];
+    }
+
+    /**
+     * Ask for the endpoint or base URL of providers that have one, then for the API key
+     * @param provider The selected provider
+     * @returns True when the connection was tested and saved
+     */
+    private async configureConnection(provider: ProviderDescription): Promise<boolean> {
+        if (provider.urlSetting) {
+            const url = await vscode.window.showInputBox({
+                title: `${provider.label} URL`,
+                prompt: provider.urlPrompt,
+                value: this.settingsManager.getSetting(provider.urlSetting),
+                ignoreFocusOut: true,
+                validateInput: value => /^https?:\/\/\S+$/.test(value.trim()) ? undefined : 'Enter an http:// or https:// URL'
+            });
+
+            if (url === undefined) {
+                return false;
+            }
+            await this.settingsManager.updateProviderSetting(provider.urlSetting, url.trim());
+        }
+
+        return this.configureApiKey(provider);
+    }
+
+    /**
+     * Ask for an API key and save it once the provider accepts it. A rejected key keeps the input
+     * open with the error, so it can be corrected. Providers that need no key, such as a local
+     * Ollama server, accept an empty input and are tested without one.
+     * @param provider The selected provider
+     * @returns True when the connection was tested and the key saved
+     */
+    private configureApiKey(provider: ProviderDescription): Promise<boolean> {
+        return new Promise(resolve => {
+            const input = vscode.window.createInputBox();
+            input.title = `${provider.label} API Key`;
+            input.prompt = `The key is tested with ${provider.label} before it is saved in your user settings` +
+                (provider.apiKeyRequired ? '' : '. Leave it empty when the server needs no key.');
+            input.placeholder = provider.apiKeyRequired ? 'API key' : 'Optional';
+            input.password = true;
+            input.ignoreFocusOut = true;
+
+            input.onDidChangeValue(() => input.validationMessage = undefined);
+            input.onDidAccept(async () => {
+                const apiKey = input.value.trim();
+                if (!apiKey && provider.apiKeyRequired) {
+                    input.validationMessage = 'Enter an API key';
+                    return;
+                }
+
+                input.busy = true;
+                input.enabled = false;
+
+                try {
+                    let models: string[];
+                    if (apiKey) {
+                        models = await this.openaiService.listModels(apiKey);
+                        await this.settingsManager.updateApiKey(provider.apiKeySetting, apiKey);
+                        this.openaiService.initialize(apiKey);
+                    } else {
+                        if (!this.openaiService.initialize()) {
+                            throw new Error(`${provider.label} is not configured`);
+                        }
+                        models = await this.openaiService.listModels();
+                    }
+
+                    vscode.window.showInformationMessage(
+                        `The connection to ${provider.label} works${models.length > 0 ? ` (${models.length} models available)` : ''} and was saved.`
+                    );
+                    resolve(true);
+                    input.hide();
+                } catch (error) {
+                    this.logger.warning(`Connection test failed: ${error}`);
+                    input.validationMessage = `The connection did not work: ${error}`;
+                    input.busy = false;
+                    input.enabled = true;
+                }
+            });
+            input.onDidHide(() => {
+                resolve(false);
+                input.dispose();
+            });
+
+            input.show();
+        });
+    }
+
+    /**
+     * Pick the service that generates documentation and connect to it. The choice is saved for
+     * the open workspace, so each workspace can use its own provider.
+     * @returns True when a provider was picked and connected
+     */
+    private async selectProvider(): Promise<boolean> {
+        const current = this.settingsManager.getProvider();
+        const choice = await vscode.window.showQuickPick(
+            providerDescriptions.map(provider => ({
+                label: provider.label,
+                description: provider.id === current ? 'Current' : undefined,
+                detail: provider.detail,
+                provider: provider
+            })),
+            { title: 'Provider', placeHolder: `Current: ${this.getProvider().label}` }
+        );
+
+        if (!choice) {
+            return false;
+        }
+
+        if (choice.provider.id !== current) {
+            await this.settingsManager.updateProvider(choice.provider.id);
+        }
+
+        return this.configureConnection(choice.provider);
+    }
+
+    /**
+     * Pick a model from the models the API key has access to, or enter any model name
+     */
+    private async selectModel(): Promise<void> {
+        const current = this.settingsManager.getModel();
+        const other = '$(edit) Other model...';
+
+        // The list shows a progress indicator while the models are fetched
+        const items = this.openaiService.listModels()
+            .catch(error => {
+                this.logger.warning(`Could not list models: ${error}`);
+                return this.getProvider().id === 'openai' ? fallbackModels : [];
+            })
+            .then(models => [
+                ...models.map(model => ({ label: model, description: model === current ? 'Current' : undefined })),
+                { label: other, alwaysShow: true }
+            ]);
+
+        const choice = await vscode.window.showQuickPick(items, { title: 'Model', placeHolder: `Current: ${current}` });
+        if (!choice) {
+            return;
+        }
+
+        const model = choice.label === other
+            ? (await vscode.window.showInputBox({
+                title: 'Model',
+                prompt: this.getProvider().id === 'azureOpenai' ? 'Name of the deployment' : 'Name of the chat model',
+                value: current
+            }))?.trim()
+            : choice.label;
+
+        if (model && model !== current) {
+            await this.settingsManager.updateModel(model);
+        }
+    }
+
+    /**
+     * Pick the doc comment style of a language that has more than one, or let it be detected from
+     * the project's existing documentation
+     */
+    private async selectDocumentationStyle(): Promise<void> {
+        const languageIds = this.languageRegistry.getLanguageIds()
+            .filter(languageId => this.languageRegistry.get(languageId).styles.length > 1);
+        const languageId = await this.pickLanguage('Documentation Style', languageIds);
+        if (!languageId) {
+            return;
+        }
+
+        const current = this.settingsManager.getDocumentationStyle(languageId);
+        const detected = await this.documentationProvider.getDocumentationStyle(languageId);
+        const items = [
+            { label: 'auto', description: `Detect from existing documentation (${detected.label})` },
+            ...this.languageRegistry.get(languageId).styles.map(style => ({ label: style.id, description: style.label }))
+        ];
+
+        const choice = await vscode.window.showQuickPick(
+            items.map(item => ({ ...item, picked: item.label === current })),
+            { title: `Documentation Style: ${languageId}`, placeHolder: `Current: ${current}` }
+        );
+
+        if (choice && choice.label !== current) {
+            await this.settingsManager.updateDocumentationStyle(languageId, choice.label);
+        }
+    }
+
+    /**
+     * Pick a language and edit its documentation standards. While typing, an example function
+     * from the workspace is documented with the standards as they are and shown beside the input.
+     */
+    private async editDocumentationStandards(): Promise<void> {
+        const languageId = await this.pickLanguage('Documentation Standards', this.languageRegistry.getLanguageIds());
+        if (!languageId) {
+            return;
+        }
+
+        const style = await this.documentationProvider.getDocumentationStyle(languageId);
+        const defaultStandards = style.documentationStandards;
+        const example = await this.findExample(languageId, style);
+        const exampleUri = example && this.openaiService.isInitialized()
+            ? vscode.Uri.from({ scheme: SetupWizard.SCHEME, path: `/Example ${example.symbol.name}${this.languageRegistry.getFileExtensions(languageId)[0] ?? ''}` })
+            : undefined;
+
+        const input = vscode.window.createInputBox();
+        input.title = `Documentation Standards: ${languageId}`;
+        input.value = this.settingsManager.getDocumentationStandards(languageId) ?? defaultStandards;
+        input.prompt = exampleUri
+            ? `Sent with every request for ${languageId}. The example beside shows the result as you type.`
+            : `Sent with every request for ${languageId}. Open a ${languageId} file${this.openaiService.isInitialized() ? '' : ' and connect a provider'} to see a live example.`;
+        input.ignoreFocusOut = true;
+        input.buttons = [{ iconPath: new vscode.ThemeIcon('discard'), tooltip: 'Use the built-in standards' }];
+
+        let timer: NodeJS.Timeout | undefined;
+        let generation: vscode.CancellationTokenSource | undefined;
+        const updateExample = () => {
+            clearTimeout(timer);
+            generation?.cancel();
+            generation = new vscode.CancellationTokenSource();
+            const token = generation.token;
+            timer = setTimeout(() => this.showExample(exampleUri!, example!, input.value, token), exampleDelay);
+        };
+
+        if (exampleUri) {
+            this.contents.set(exampleUri.toString(), example!.symbol.body);
+            await vscode.window.showTextDocument(exampleUri, { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true, preview: true });
+            input.onDidChangeValue(updateExample);
+            updateExample();
+        }
+
+        const accepted = await new Promise<boolean>(resolve => {
+            input.onDidTriggerButton(() => {
+                input.value = defaultStandards;
+                if (exampleUri) {
+                    updateExample();
+                }
+            });
+            input.onDidAccept(() => {
+                resolve(true);
+                input.hide();
+            });
+            input.onDidHide(() => resolve(false));
+            input.show();
+        });
+
+        const standards = input.value.trim();
+        clearTimeout(timer);
+        generation?.cancel();
+        input.dispose();
+        if (exampleUri) {
+            await this.closeExample(exampleUri);
+        }
+
+        if (!accepted) {
+            return;
+        }
+
+        // Standards equal to the built-in ones are not stored, so later changes to the built-in
+        // standards still apply
+        if (!standards || standards === defaultStandards) {
+            await this.settingsManager.resetDocumentationStandards(languageId);
+        } else {
+            await this.settingsManager.updateDocumentationStandards(languageId, standards);
+        }
+        vscode.window.showInformationMessage(`Documentation standards saved for ${languageId}.`);
+    }
+
+    /**
+     * Reset the documentation standards of one customized language, or of all languages
+     */
+    private async resetDocumentationStandards(): Promise<void> {
+        const customizedLanguages = this.settingsManager.getCustomizedLanguages();
+        if (customizedLanguages.length === 0) {
+            vscode.window.showInformationMessage('Every language already uses the built-in documentation standards.');
+            return;
+        }
+
+        const allLanguages = '$(clear-all) All languages';
+        const choice = await this.pickLanguage('Reset Documentation Standards', [allLanguages, ...customizedLanguages]);
+        if (!choice) {
+            return;
+        }
+
+        if (choice === allLanguages) {
+            const confirmed = await vscode.window.showWarningMessage(
+                `Reset the documentation standards of ${customizedLanguages.join(', ')}?`,
+                { modal: true },
+                'Reset'
+            );
+            if (confirmed !== 'Reset') {
+                return;
+            }
+        }
+
+        await this.settingsManager.resetDocumentationStandards(choice === allLanguages ? undefined : choice);
+        vscode.window.showInformationMessage('Documentation standards reset.');
+    }
+
+    /**
+     * Pick a language, offering the language of the active editor first
+     * @param title Title of the quick pick
+     * @param languageIds Languages to choose from
+     * @returns The chosen language, or undefined when dismissed
+     */
+    private async pickLanguage(title: string, languageIds: string[]): Promise<string | undefined> {
+        const customizedLanguages = this.settingsManager.getCustomizedLanguages();
+        const activeLanguage = vscode.window.activeTextEditor?.document.languageId;
+        const sorted = [...languageIds].sort((a, b) => Number(b === activeLanguage) - Number(a === activeLanguage));
+
+        const choice = await vscode.window.showQuickPick(
+            sorted.map(languageId => ({
+                label: languageId,
+                description: customizedLanguages.includes(languageId) ? 'Customized' : undefined
+            })),
+            { title: title, placeHolder: 'Choose a language' }
+        );
+
+        return choice?.label;
+    }
+
+    /**
+     * Find a function to show the effect of documentation standards on: the symbol at the cursor
+     * when the active editor has the language, otherwise a short function from a workspace file
+     * @param languageId Language of the example
+     * @param style Style the example is documented in
+     * @returns The example, or undefined when no file of the language has a symbol
+     */
+    private async findExample(languageId: string, style: DocStyle): Promise<DocumentationExample | undefined> {
+        const editor = vscode.window.activeTextEditor;
+        if (editor?.document.languageId === languageId) {
+            const symbol = await this.codeParser.findSymbolAtPosition(editor.document, editor.selection.active);
+            if (symbol) {
+                return { document: editor.document, symbol: symbol, style: style };
+            }
+        }
+
+        const documents: vscode.TextDocument[] = editor?.document.languageId === languageId ? [editor.document] : [];
+        const extensions = this.languageRegistry.getFileExtensions(languageId);
+        if (extensions.length > 0) {
+            const files = await vscode.workspace.findFiles(`**/*{${extensions.join(',')}}`, '**/node_modules/**', 5);
+            for (const file of files) {
+                documents.push(await vscode.workspace.openTextDocument(file));
+            }
+        }
+
+        for (const document of documents) {
+            const symbols = await this.codeParser.findAllSymbols(document);
+            const symbol = symbols.find(candidate => candidate.kind === 'function' &&
+                candidate.endLine - candidate.startLine < maxExampleLines) ?? symbols[0];
+
+            if (symbol) {
+                return { document: document, symbol: symbol, style: style };
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Document the example with standards that are not saved yet and show it as it streams in.
+     * No project context is sent, so the example only reflects the standards.
+     * @param exampleUri URI of the example document
+     * @param example The example function
+     * @param standards Documentation standards as currently typed
+     * @param token Cancelled when the standards change again
+     */
+    private async showExample(
+        exampleUri: vscode.Uri,
+        example: DocumentationExample,
+        standards: string,
+        token: vscode.CancellationToken
+    ): Promise<void> {
+        const { document, symbol, style } = example;
+        const show = (documentation: DocModel | undefined) => {
+            if (!documentation || token.isCancellationRequested) {
+                return;
+            }
+
+            const formattedDocumentation = this.documentationProvider.renderDocumentation(documentation, symbol.language, style, symbol.kind);
+            this.contents.set(exampleUri.toString(), this.applyToExample(document, symbol, formattedDocumentation + '\n'));
+            this.changeEmitter.fire(exampleUri);
+        };
+
+        try {
+            show(await this.openaiService.generateDocumentation(
+                symbol.body,
+                symbol.language,
+                '',
+                standards,
+                symbol,
+                { token: token, onProgress: text => show(parsePartialDocModel(text)) }
+            ));
+        } catch (error) {
+            if (!(error instanceof vscode.CancellationError)) {
+                this.logger.error(`Failed to generate the example: ${error}`);
+            }
+        }
+    }
+
+    /**
+     * Place documentation in the example function's source, without changing the document
+     * @param document The document containing the example
+     * @param symbol The example function
+     * @param formattedDocumentation Documentation ending with a line break
+     * @returns Source of the function, including its documentation
+     */
+    private applyToExample(document: vscode.TextDocument, symbol: DocumentableSymbol, formattedDocumentation: string): string {
+        const placement = this.documentationPlacement.place(document, symbol, formattedDocumentation);
+        const startLine = Math.min(symbol.startLine, placement.range.start.line);
+        const start = new vscode.Position(startLine, 0);
+        const end = document.lineAt(Math.max(symbol.endLine, placement.range.end.line)).range.end;
+
+        return document.getText(new vscode.Range(start, placement.range.start)) +
+            placement.text +
+            document.getText(new vscode.Range(placement.range.end, end));
+    }
+
+    /**
+     * Close the editor of an example and forget its contents
+     * @param exampleUri URI of the example document
+     */
+    private async closeExample(exampleUri: vscode.Uri): Promise<void> {
+        this.contents.delete(exampleUri.toString());
+
+        const tabs = vscode.window.tabGroups.all
+            .flatMap(group => group.tabs)
+            .filter(tab => tab.input instanceof vscode.TabInputText &&
+                tab.input.uri.toString() === exampleUri.toString());
+
+        await vscode.window.tabGroups.close(tabs);
+    }
+}
@@ -1,8 +1,51 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
-import { OpenAIService } from '../openaiService';
-import { CodeParser } from '../codeParser';
+import { OpenAI } from 'openai';
+import { GenerationOptions, OpenAIService, Operation, OperationSettings } from '../openaiService';
+import { BulkDocumentationQueue } from '../bulkDocumentationQueue';
+import { CodeParser, DocumentableSymbol } from '../codeParser';
 import { ContextExtractor } from '../contextExtractor';
+import { DocumentationProvider } from '../documentationProvider';
+import { RAGSystem } from '../ragSystem';
+import { DocumentationAnalyzer } from '../documentationAnalyzer';
+import { DocumentationCoverage, FileCoverage } from '../documentationCoverage';
+import { DocumentationInlineCompletionProvider } from '../documentationInlineCompletionProvider';
+import { DocumentationPlacement } from '../documentationPlacement';
+import { DocumentationPreview } from '../documentationPreview';
+import { DocumentationStyleResolver } from '../documentationStyleResolver';
+import { DocumentationValidator } from '../documentationValidator';
+import { DocumentationWriter } from '../documentationWriter';
+import { DocModel, parseDocModel, parsePartialDocModel } from '../languages/docModel';
+import { EpytextDocstringRenderer, NumpyDocstringRenderer, TagDocRenderer, tsDocTags } from '../languages/docRenderers';
+import { BlockCommentFormatter, DocstringFormatter } from '../languages/formatters';
+import { FunctionExplainer } from '../functionExplainer';
+import { LanguageRegistry } from '../languages/languageRegistry';
+import { LanguageServerSymbol, LanguageServerSymbolProvider } from '../parsers/languageServerSymbolProvider';
+import { AnthropicProvider } from '../providers/anthropicProvider';
+import { ChatMessage, CompletionRequest, LLMProvider, TruncatedResponseError } from '../providers/llmProvider';
+import { OpenAIProvider } from '../providers/openAIProvider';
+import { createProvider } from '../providers/providerFactory';
+import { SetupWizard } from '../setupWizard';
+import { SettingsManager } from '../utils/settings';
+
+// Numbers the documents of the tests, so each has its own URI
+let documentCount = 0;
+
+/**
+ * Create a text document that holds the given source, with just what the parsers read
+ * @param source Text of the document
+ * @param languageId VS Code language identifier
+ * @returns The document
+ */
+function createDocument(source: string, languageId: string): vscode.TextDocument {
+    return {
+        uri: vscode.Uri.parse(`untitled:document-${++documentCount}`),
+        version: 1,
+        getText: () => source,
+        languageId: languageId,
+        lineAt: (line: number) => ({ text: source.split('\n')[line] } as vscode.TextLine)
+    } as vscode.TextDocument;
+}
 
 suite('Extension Test Suite', () => {
     vscode.window.showInformationMessage('Start all tests.');
@@ -14,11 +57,13 @@ suite('Extension Test Suite', () => {
         assert.notStrictEqual(openaiService, undefined);
     });
 
-    test('CodeParser Function Detection', () => {
+    test('CodeParser Function Detection', async () => {
         const codeParser = new CodeParser();
         
         // Mock a text document and position
         const mockDocument: vscode.TextDocument = {
+            uri: vscode.Uri.parse('untitled:function-detection'),
+            version: 1,
             getText: () => `
             function testFunction(param1: string, param2: number): void {
                 console.log(param1, param2);
@@ -31,12 +76,1894 @@ suite('Extension Test Suite', () => {
         const mockPosition = new vscode.Position(2, 0);
 
         // Test finding a function
-        const functionInfo = codeParser.findFunctionAtPosition(mockDocument, mockPosition);
+        const functionInfo = await codeParser.findFunctionAtPosition(mockDocument, mockPosition);
         
         assert.notStrictEqual(functionInfo, null);
         assert.strictEqual(functionInfo?.name, 'testFunction');
     });
 
+    test('CodeParser Class Method Detection', async () => {
+        const codeParser = new CodeParser();
+
+        const source = [
+            'class Repository<T> {',
+            '    public async save<K extends keyof T>(',
+            '        key: K,',
+            '        value: T[K]',
+            '    ): Promise<void> {',
+            '        if (value) {',
+            '            this.items.set(key, value);',
+            '        }',
+            '    }',
+            '}'
+        ].join('\n');
+
+        const mockDocument = createDocument(source, 'typescript');
+
+        // The cursor sits on an `if` block, which must not be reported as a method
+        const functionInfo = await codeParser.findFunctionAtPosition(mockDocument, new vscode.Position(5, 10));
+
+        assert.strictEqual(functionInfo?.name, 'save');
+        assert.strictEqual(functionInfo?.className, 'Repository');
+        assert.strictEqual(functionInfo?.startLine, 1);
+        assert.strictEqual(functionInfo?.endLine, 8);
+        assert.deepStrictEqual(functionInfo?.modifiers, ['public', 'async']);
+        assert.deepStrictEqual(functionInfo?.typeParameters, ['K extends keyof T']);
+    });
+
+    test('CodeParser Symbol Kinds', async () => {
+        const codeParser = new CodeParser();
+
+        const source = [
+            'export interface Shape {',
+            '    area(): number;',
+            '}',
+            'enum Color { Red, Green }',
+            'export class Circle implements Shape {',
+            '    constructor(private radius: number) {}',
+            '',
+            '    area(): number { return Math.PI * this.radius ** 2; }',
+            '}'
+        ].join('\n');
+
+        const mockDocument = createDocument(source, 'typescript');
+
+        const symbolAt = (line: number) => codeParser.findSymbolAtPosition(mockDocument, new vscode.Position(line, 4));
+
+        assert.strictEqual((await symbolAt(1))?.kind, 'interface');
+        assert.deepStrictEqual((await symbolAt(3))?.members, ['Red', 'Green']);
+        assert.strictEqual((await symbolAt(6))?.kind, 'class');
+        assert.strictEqual((await symbolAt(6))?.name, 'Circle');
+        assert.strictEqual((await symbolAt(7))?.kind, 'function');
+        assert.strictEqual((await symbolAt(7))?.className, 'Circle');
+    });
+
+    test('CodeParser Structured Signature', async () => {
+        const codeParser = new CodeParser();
+
+        const source = [
+            'export async function fetchUser(id: string, retries = 3, ...tags: string[]): Promise<User> {',
+            '    if (!id) {',
+            '        throw new TypeError("id is required");',
+            '    }',
+            '    return api.get(id);',
+            '}'
+        ].join('\n');
+
+        const mockDocument = createDocument(source, 'typescript');
+
+        const functionInfo = await codeParser.findFunctionAtPosition(mockDocument, new vscode.Position(4, 0));
+
+        assert.deepStrictEqual(functionInfo?.parameters, [
+            { name: 'id', type: 'string', defaultValue: undefined, optional: false, rest: false },
+            { name: 'retries', type: undefined, defaultValue: '3', optional: true, rest: false },
+            { name: 'tags', type: 'string[]', defaultValue: undefined, optional: true, rest: true }
+        ]);
+        assert.strictEqual(functionInfo?.returnType, 'Promise<User>');
+        assert.strictEqual(functionInfo?.isAsync, true);
+        assert.deepStrictEqual(functionInfo?.throws, ['TypeError']);
+    });
+
+    test('CodeParser Python Methods', async () => {
+        const codeParser = new CodeParser();
+
+        const source = [
+            'class Cache:',
+            '    @staticmethod',
+            '    def key(name):',
+            '        return name.lower()',
+            '',
+            '    async def load(self,',
+            '                   key: str,',
+            '                   default: int = 0) -> int:',
+            '        return await self.store.get(key, default)'
+        ].join('\n');
+
+        const mockDocument = createDocument(source, 'python');
+
+        const load = await codeParser.findFunctionAtPosition(mockDocument, new vscode.Position(8, 8));
+
+        assert.strictEqual(load?.name, 'load');
+        assert.strictEqual(load?.className, 'Cache');
+        assert.strictEqual(load?.isAsync, true);
+        assert.strictEqual(load?.bodyStartLine, 8);
+        assert.deepStrictEqual(load?.parameters?.map(parameter => parameter.name), ['key', 'default']);
+
+        // Static methods have no implicit first argument
+        const key = await codeParser.findFunctionAtPosition(mockDocument, new vscode.Position(3, 8));
+        assert.deepStrictEqual(key?.decorators, ['@staticmethod']);
+        assert.deepStrictEqual(key?.parameters?.map(parameter => parameter.name), ['name']);
+
+        // Brackets inside string defaults do not end the parameter list
+        const defaults = createDocument([
+            'def s(a, b=")"):',
+            '    return a + b',
+            '',
+            'def t(a, b="(", c=[1,2]):',
+            '    return a'
+        ].join('\n'), 'python');
+
+        const s = await codeParser.findFunctionAtPosition(defaults, new vscode.Position(1, 4));
+        assert.deepStrictEqual(s?.parameters?.map(parameter => [parameter.name, parameter.defaultValue]), [['a', undefined], ['b', '")"']]);
+
+        const t = await codeParser.findFunctionAtPosition(defaults, new vscode.Position(4, 4));
+        assert.deepStrictEqual(t?.parameters?.map(parameter => [parameter.name, parameter.defaultValue]), [['a', undefined], ['b', '"("'], ['c', '[1,2]']]);
+    });
+
+    test('CodeParser Registered Languages', async () => {
+        const codeParser = new CodeParser();
+
+        const goDocument = createDocument([
+            '// Start starts the server.',
+            'func (s *Server) Start(ctx context.Context, a, b int) error {',
+            '    return nil',
+            '}'
+        ].join('\n'), 'go');
+
+        const start = await codeParser.findFunctionAtPosition(goDocument, new vscode.Position(2, 4));
+        assert.strictEqual(start?.className, 'Server');
+        assert.strictEqual(start?.returnType, 'error');
+        assert.deepStrictEqual(start?.parameters?.map(parameter => parameter.type), ['context.Context', 'int', 'int']);
+        assert.strictEqual(start?.existingDocumentation, '// Start starts the server.');
+
+        const rustDocument = createDocument([
+            'impl Point {',
+            '    /// Distance to another point.',
+            '    pub fn distance(&self, other: &Point) -> f64 {',
+            '        0.0',
+            '    }',
+            '}'
+        ].join('\n'), 'rust');
+
+        const distance = await codeParser.findFunctionAtPosition(rustDocument, new vscode.Position(3, 8));
+        assert.strictEqual(distance?.className, 'Point');
+        assert.deepStrictEqual(distance?.parameters?.map(parameter => parameter.name), ['other']);
+        assert.strictEqual(distance?.returnType, 'f64');
+
+        const rubyDocument = createDocument([
+            'class Cart',
+            '  def add(item, qty = 1)',
+            '    items.each do |i|',
+            '      puts i',
+            '    end',
+            '  end',
+            'end'
+        ].join('\n'), 'ruby');
+
+        const add = await codeParser.findFunctionAtPosition(rubyDocument, new vscode.Position(3, 6));
+        assert.strictEqual(add?.name, 'add');
+        assert.strictEqual(add?.className, 'Cart');
+        assert.strictEqual(add?.endLine, 5);
+
+        // The generic finder only matches declarations with a body, never call sites
+        const luaDocument = createDocument([
+            'print(value);',
+            'helper(1, 2);'
+        ].join('\n'), 'lua');
+
+        assert.strictEqual(await codeParser.findFunctionAtPosition(luaDocument, new vscode.Position(1, 0)), null);
+    });
+
+    test('CodeParser Constructors and Keyword Names', async () => {
+        const codeParser = new CodeParser();
+
+        // `new` is an ordinary function name after `fn`
+        const rustDocument = createDocument([
+            'impl Stack {',
+            '    pub fn new(v: Vec<i32>) -> Self {',
+            '        Stack { v }',
+            '    }',
+            '}'
+        ].join('\n'), 'rust');
+
+        const create = await codeParser.findFunctionAtPosition(rustDocument, new vscode.Position(2, 8));
+        assert.strictEqual(create?.name, 'new');
+        assert.strictEqual(create?.className, 'Stack');
+        assert.strictEqual(create?.returnType, 'Self');
+
+        const javaDocument = createDocument([
+            'class A {',
+            '    public A(int x) {',
+            '        this(x, 0);',
+            '    }',
+            '',
+            '    A() {',
+            '        synchronized (lock) {',
+            '            count++;',
+            '        }',
+            '    }',
+            '',
+            '    private static <T> List<T> of(T... xs) {',
+            '        return List.of(xs);',
+            '    }',
+            '}'
+        ].join('\n'), 'java');
+
+        const javaSymbols = await codeParser.findAllSymbols(javaDocument);
+        assert.deepStrictEqual(javaSymbols.map(symbol => symbol.name), ['A', 'A', 'A', 'of']);
+
+        const constructor = javaSymbols[1];
+        assert.strictEqual(constructor.className, 'A');
+        assert.deepStrictEqual(constructor.modifiers, ['public']);
+        assert.strictEqual(constructor.returnType, undefined);
+        assert.deepStrictEqual(constructor.parameters?.map(parameter => parameter.name), ['x']);
+
+        // Statements inside the package-private constructor are not declarations
+        assert.strictEqual(javaSymbols[2].startLine, 5);
+        assert.strictEqual(javaSymbols[2].endLine, 9);
+
+        const of = javaSymbols[3];
+        assert.deepStrictEqual(of.typeParameters, ['T']);
+        assert.strictEqual(of.returnType, 'List<T>');
+        assert.deepStrictEqual(of.parameters?.map(parameter => parameter.name), ['xs']);
+
+        const cppDocument = createDocument([
+            'class Foo {',
+            'public:',
+            '    Foo(int x) : x_(x) {}',
+            '    ~Foo() {',
+            '        release();',
+            '    }',
+            '};'
+        ].join('\n'), 'cpp');
+
+        const cppSymbols = await codeParser.findAllSymbols(cppDocument);
+        assert.deepStrictEqual(cppSymbols.map(symbol => symbol.name), ['Foo', 'Foo', '~Foo']);
+        assert.deepStrictEqual(cppSymbols[1].parameters?.map(parameter => parameter.name), ['x']);
+        assert.strictEqual(cppSymbols[1].endLine, 2);
+        assert.strictEqual(cppSymbols[2].className, 'Foo');
+        assert.strictEqual(cppSymbols[2].endLine, 5);
+    });
+
+    test('CodeParser Symbol After Edits', async () => {
+        const codeParser = new CodeParser();
+
+        const source = [
+            'function add(a: number, b: number): number {',
+            '    return a + b;',
+            '}'
+        ];
+        const add = await codeParser.findFunctionAtPosition(createDocument(source.join('\n'), 'typescript'), new vscode.Position(1, 4));
+
+        // Lines were added above the function, and documentation was written for it
+        const edited = createDocument([
+            'function add(a: string): string {',
+            '    return a;',
+            '}',
+            '',
+            '/** Adds two numbers. */',
+            ...source
+        ].join('\n'), 'typescript');
+
+        const current = await codeParser.findCurrentSymbol(edited, add!);
+        assert.strictEqual(current?.startLine, 5);
+        assert.strictEqual(current?.existingDocumentation, '/** Adds two numbers. */');
+
+        // A symbol that was renamed or removed is not found
+        assert.strictEqual(await codeParser.findCurrentSymbol(edited, { ...add!, name: 'sum' }), null);
+    });
+
+    test('CodeParser Body Boundaries', async () => {
+        const codeParser = new CodeParser();
+
+        const source = [
+            'class Parser {',
+            '    String open(String text) {',
+            '        String brace = "{"; char close = \'}\';',
+            '        // }',
+            '        return brace;',
+            '    }',
+            '',
+            '    void validate(int depth)',
+            '    {',
+            '        /* { */',
+            '        if (depth < 0)',
+            '        {',
+            '            throw new IllegalStateException("}");',
+            '        }',
+            '    }',
+            '}'
+        ].join('\n');
+
+        const mockDocument = createDocument(source, 'java');
+
+        // Braces in strings, characters and comments are not counted
+        const open = await codeParser.findFunctionAtPosition(mockDocument, new vscode.Position(4, 8));
+        assert.strictEqual(open?.name, 'open');
+        assert.strictEqual(open?.endLine, 5);
+        assert.ok(open?.body.endsWith('    }'));
+
+        // Allman-style braces on the line after the signature
+        const validate = await codeParser.findFunctionAtPosition(mockDocument, new vscode.Position(12, 12));
+        assert.strictEqual(validate?.name, 'validate');
+        assert.strictEqual(validate?.startLine, 7);
+        assert.strictEqual(validate?.endLine, 14);
+        assert.deepStrictEqual(validate?.throws, ['IllegalStateException']);
+    });
+
+    test('CodeParser Documentation Styles', async () => {
+        const codeParser = new CodeParser();
+
+        // C# XML comments with an attribute between the comment and the method
+        const csharpDocument = createDocument([
+            'public class CartTests {',
+            '    /// <summary>',
+            '    /// Adds an item.',
+            '    /// </summary>',
+            '    [Fact]',
+            '    public void AddsItem() {',
+            '    }',
+            '}'
+        ].join('\n'), 'csharp');
+
+        const addsItem = await codeParser.findFunctionAtPosition(csharpDocument, new vscode.Position(6, 4));
+        assert.strictEqual(addsItem?.existingDocumentation?.split('\n').length, 3);
+        assert.strictEqual(addsItem?.documentationRange?.start.line, 1);
+        assert.strictEqual(addsItem?.documentationRange?.start.character, 4);
+        assert.strictEqual(addsItem?.documentationRange?.end.line, 3);
+
+        // JavaDoc above annotations
+        const javaDocument = createDocument([
+            'class Cart {',
+            '    /** Total price. */',
+            '    @Override',
+            '    @SuppressWarnings("unchecked")',
+            '    public int total() {',
+            '        return 0;',
+            '    }',
+            '}'
+        ].join('\n'), 'java');
+
+        const total = await codeParser.findFunctionAtPosition(javaDocument, new vscode.Position(5, 8));
+        assert.strictEqual(total?.existingDocumentation?.trim(), '/** Total price. */');
+        assert.strictEqual(total?.documentationRange?.end.line, 1);
+
+        // Rust doc comments above attributes
+        const rustDocument = createDocument([
+            '/// A point in space.',
+            '#[derive(Debug, Clone)]',
+            'pub struct Point {',
+            '    x: f64,',
+            '}'
+        ].join('\n'), 'rust');
+
+        const point = await codeParser.findSymbolAtPosition(rustDocument, new vscode.Position(3, 4));
+        assert.strictEqual(point?.existingDocumentation, '/// A point in space.');
+
+        // Python docstrings are inside the body
+        const pythonDocument = createDocument([
+            'def area(radius):',
+            '    """',
+            '    Area of a circle.',
+            '    """',
+            '    return 3.14 * radius ** 2'
+        ].join('\n'), 'python');
+
+        const area = await codeParser.findFunctionAtPosition(pythonDocument, new vscode.Position(4, 4));
+        assert.strictEqual(area?.documentationRange?.start.line, 1);
+        assert.strictEqual(area?.documentationRange?.end.line, 3);
+    });
+
+    test('CodeParser Unfinished Doc Comment', () => {
+        const codeParser = new CodeParser();
+
+        // The opener being typed would otherwise comment out everything below it
+        const typeScriptDocument = createDocument([
+            'export class Api {',
+            '    /**',
+            '    fetch(id: string) {',
+            '        return id;',
+            '    }',
+            '}'
+        ].join('\n'), 'typescript');
+
+        const fetch = codeParser.findSymbolsIgnoringLines(typeScriptDocument, [1])
+            .find(symbol => symbol.name === 'fetch');
+        assert.strictEqual(fetch?.startLine, 2);
+        assert.strictEqual(fetch?.existingDocumentation, undefined);
+
+        const pythonDocument = createDocument([
+            'def load(path):',
+            '    """',
+            '    return open(path).read()'
+        ].join('\n'), 'python');
+
+        const load = codeParser.findSymbolsIgnoringLines(pythonDocument, [1])[0];
+        assert.strictEqual(load.bodyStartLine, 1);
+        assert.strictEqual(load.existingDocumentation, undefined);
+    });
+
+    test('CodeParser Language Server Symbols', async () => {
+        const source = [
+            'class Store {',
+            '    /**',
+            '     * Load a value.',
+            '     */',
+            '    load(key: string): string {',
+            '        const cached = this.cache.get(key);',
+            '        if (cached) {',
+            '            return cached;',
+            '        }',
+            '        return key;',
+            '    }',
+            '}'
+        ].join('\n');
+
+        const range = (startLine: number, startCharacter: number, endLine: number, endCharacter: number) =>
+            new vscode.Range(new vscode.Position(startLine, startCharacter), new vscode.Position(endLine, endCharacter));
+
+        // The server range of `load` includes its doc comment
+        const serverSymbols: LanguageServerSymbol[] = [
+            { name: 'Store', kind: vscode.SymbolKind.Class, range: range(0, 0, 11, 1), selectionRange: range(0, 6, 0, 11) },
+            {
+                name: 'load', kind: vscode.SymbolKind.Method, range: range(1, 4, 10, 5), selectionRange: range(4, 4, 4, 8),
+                containerName: 'Store', containerKind: vscode.SymbolKind.Class
+            },
+            {
+                name: 'cached', kind: vscode.SymbolKind.Variable, range: range(5, 14, 5, 42), selectionRange: range(5, 14, 5, 20),
+                containerName: 'load', containerKind: vscode.SymbolKind.Method
+            }
+        ];
+
+        const languageServer = {
+            getSymbols: async () => serverSymbols
+        } as unknown as LanguageServerSymbolProvider;
+
+        const codeParser = new CodeParser(LanguageRegistry.getDefault(), languageServer);
+
+        const mockDocument = createDocument(source, 'typescript');
+
+        // Variables are skipped, so the cursor resolves to the innermost function
+        const load = await codeParser.findFunctionAtPosition(mockDocument, new vscode.Position(5, 20));
+        assert.strictEqual(load?.name, 'load');
+        assert.strictEqual(load?.className, 'Store');
+        assert.strictEqual(load?.startLine, 4);
+        assert.strictEqual(load?.endLine, 10);
+        assert.strictEqual(load?.returnType, 'string');
+        assert.ok(load?.existingDocumentation?.includes('Load a value.'));
+        assert.ok(load?.body.startsWith('    load(key: string)'));
+        assert.ok(load?.body.endsWith('    }'));
+    });
+
+    test('LanguageServerSymbolProvider Cache', async () => {
+        const range = new vscode.Range(new vscode.Position(0, 0), new vscode.Position(2, 1));
+        let answer: vscode.DocumentSymbol[] | undefined;
+        let requests = 0;
+
+        const original = { executeCommand: vscode.commands.executeCommand };
+        Object.assign(vscode.commands, {
+            executeCommand: async () => {
+                requests++;
+                return answer;
+            }
+        });
+
+        try {
+            const languageServer = new LanguageServerSymbolProvider();
+            const document = createDocument('function add() {\n    return 1;\n}', 'typescript');
+
+            // No answer is cached, so a server that is still starting up is asked again
+            assert.strictEqual(await languageServer.getSymbols(document), undefined);
+            answer = [{ name: 'add', kind: vscode.SymbolKind.Function, range: range, selectionRange: range, children: [] } as unknown as vscode.DocumentSymbol];
+            assert.strictEqual((await languageServer.getSymbols(document))?.[0].name, 'add');
+            assert.strictEqual(requests, 2);
+
+            // The same version of the document is answered from the cache, concurrent requests included
+            await Promise.all([languageServer.getSymbols(document), languageServer.getSymbols(document)]);
+            assert.strictEqual(requests, 2);
+
+            // An edit asks the server again
+            await languageServer.getSymbols({ ...document, version: 2 });
+            assert.strictEqual(requests, 3);
+        } finally {
+            Object.assign(vscode.commands, original);
+        }
+    });
+
+    test('DocumentationAnalyzer Parameter Drift', async () => {
+        const codeParser = new CodeParser();
+        const documentationAnalyzer = new DocumentationAnalyzer();
+
+        const issuesAt = async (document: vscode.TextDocument, line: number) => {
+            const symbol = await codeParser.findFunctionAtPosition(document, new vscode.Position(line, 4));
+            return documentationAnalyzer.findIssues(symbol!).map(issue => `${issue.kind}:${issue.name}`);
+        };
+
+        // A renamed JSDoc parameter
+        const typeScriptDocument = createDocument([
+            '/**',
+            ' * Load a user.',
+            ' * @param {string} userId The id',
+            ' * @param [options.cache] Use the cache',
+            ' */',
+            'function load(id: string, options: LoadOptions) {',
+            '    return fetch(id);',
+            '}'
+        ].join('\n'), 'typescript');
+
+        assert.deepStrictEqual(await issuesAt(typeScriptDocument, 6), ['unknownParameter:userId', 'undocumentedParameter:id']);
+
+        // Google style and NumPy style docstrings
+        const pythonDocument = createDocument([
+            'def scale(value, factor=2, *args):',
+            '    """Scale a value.',
+            '',
+            '    Args:',
+            '        value (int): The value.',
+            '            Continued: not an entry.',
+            '        *args: Extra values.',
+            '    """',
+            '    return value * factor',
+            '',
+            'def shift(value, offset):',
+            '    """',
+            '    Parameters',
+            '    ----------',
+            '    value : int',
+            '        The value.',
+            '    offset : int',
+            '',
+            '    Returns',
+            '    -------',
+            '    int',
+            '    """',
+            '    return value + offset'
+        ].join('\n'), 'python');
+
+        assert.deepStrictEqual(await issuesAt(pythonDocument, 8), ['undocumentedParameter:factor']);
+        assert.deepStrictEqual(await issuesAt(pythonDocument, 22), []);
+
+        // Documentation without a parameter list is not reported
+        const goDocument = createDocument([
+            '// Add returns the sum of a and b.',
+            'func Add(a, b int) int {',
+            '    return a + b',
+            '}'
+        ].join('\n'), 'go');
+
+        assert.deepStrictEqual(await issuesAt(goDocument, 2), []);
+    });
+
+    test('DocumentationAnalyzer Returns and Exceptions', async () => {
+        const codeParser = new CodeParser();
+        const documentationAnalyzer = new DocumentationAnalyzer();
+
+        const issuesAt = async (document: vscode.TextDocument, line: number) => {
+            const symbol = await codeParser.findFunctionAtPosition(document, new vscode.Position(line, 4));
+            return documentationAnalyzer.findIssues(symbol!).map(issue => `${issue.kind}:${issue.name}:${issue.line}`);
+        };
+
+        // A documented return value on a void function, and an undocumented thrown error
+        const typeScriptDocument = createDocument([
+            '/**',
+            ' * Save a user.',
+            ' * @param user The user',
+            ' * @returns The saved user',
+            ' */',
+            'function save(user: User): void {',
+            '    if (!user.id) {',
+            '        throw new ValidationError("missing id");',
+            '    }',
+            '    try {',
+            '        store.put(user);',
+            '    } catch (error) {',
+            '        throw error;',
+            '    }',
+            '}'
+        ].join('\n'), 'typescript');
+
+        assert.deepStrictEqual(await issuesAt(typeScriptDocument, 6), [
+            'unexpectedReturns:save:3',
+            'undocumentedException:ValidationError:undefined'
+        ]);
+
+        // Asynchronous functions that return nothing resolve to Promise<void>
+        const asyncDocument = createDocument([
+            '/**',
+            ' * Flush the queue.',
+            ' * @returns Nothing',
+            ' */',
+            'async function flush(): Promise<void> {',
+            '    await queue.drain();',
+            '}',
+            '',
+            '/**',
+            ' * Count the queue.',
+            ' * @returns The number of items',
+            ' */',
+            'async function count(): Promise<number> {',
+            '    return queue.size;',
+            '}'
+        ].join('\n'), 'typescript');
+
+        assert.deepStrictEqual(await issuesAt(asyncDocument, 5), ['unexpectedReturns:flush:2']);
+        assert.deepStrictEqual(await issuesAt(asyncDocument, 13), []);
+
+        // Raises: sections list the exceptions; prose docstrings are not checked
+        const pythonDocument = createDocument([
+            'def parse(text) -> None:',
+            '    """Parse text.',
+            '',
+            '    Args:',
+            '        text: The text.',
+            '',
+            '    Raises:',
+            '        ValueError: If the text is empty.',
+            '    """',
+            '    if not text:',
+            '        raise ValueError("empty")',
+            '    raise errors.ParseError(text)',
+            '',
+            'def check(text):',
+            '    """Check text, raising ValueError when it is empty."""',
+            '    raise KeyError(text)'
+        ].join('\n'), 'python');
+
+        assert.deepStrictEqual(await issuesAt(pythonDocument, 9), ['undocumentedException:ParseError:undefined']);
+        assert.deepStrictEqual(await issuesAt(pythonDocument, 15), []);
+    });
+
+    test('DocumentationPlacement Edits', async () => {
+        const codeParser = new CodeParser();
+        const documentationPlacement = new DocumentationPlacement();
+
+        const placeAt = async (document: vscode.TextDocument, line: number, documentation: string) => {
+            const symbol = await codeParser.findFunctionAtPosition(document, new vscode.Position(line, 8));
+            const placement = documentationPlacement.place(document, symbol!, documentation);
+            const { start, end } = placement.range;
+            return { range: `${start.line}:${start.character}-${end.line}:${end.character}`, text: placement.text };
+        };
+
+        // New documentation of a method is indented like the method; an update replaces the whole block
+        const typeScriptDocument = createDocument([
+            'class Api {',
+            '    fetch(id: string) {',
+            '        return id;',
+            '    }',
+            '',
+            '    /**',
+            '     * Old',
+            '     */',
+            '    save() {}',
+            '}'
+        ].join('\n'), 'typescript');
+
+        assert.deepStrictEqual(await placeAt(typeScriptDocument, 2, '/**\n * Fetch\n */\n'), {
+            range: '1:0-1:0',
+            text: '    /**\n     * Fetch\n     */\n'
+        });
+        assert.deepStrictEqual(await placeAt(typeScriptDocument, 8, '/**\n * Save\n */\n'), {
+            range: '5:0-8:0',
+            text: '    /**\n     * Save\n     */\n'
+        });
+
+        // Docstrings go inside the body, also for one-line definitions
+        const pythonDocument = createDocument([
+            'class Cache:',
+            '    def get(self,',
+            '            key):',
+            '        return self.items[key]',
+            '',
+            '    def size(self): return len(self.items)'
+        ].join('\n'), 'python');
+
+        assert.deepStrictEqual(await placeAt(pythonDocument, 3, '"""Get."""\n'), {
+            range: '3:0-3:0',
+            text: '        """Get."""\n'
+        });
+        assert.deepStrictEqual(await placeAt(pythonDocument, 5, '"""Size."""\n'), {
+            range: '5:19-5:20',
+            text: '\n        """Size."""\n        '
+        });
+    });
+
+    test('DocumentationWriter File Edit', async () => {
+        const source = [
+            '/** Adds two numbers. */',
+            'function add(a: number, b: number): number {',
+            '    return a + b;',
+            '}',
+            '',
+            'class Counter {',
+            '    increment(step: number): void {',
+            '        this.count += step;',
+            '    }',
+            '}'
+        ].join('\n');
+        const document = { ...createDocument(source, 'typescript'), uri: vscode.Uri.parse('file:///project/counter.ts') };
+
+        const languageServer = { getSymbols: async () => undefined } as unknown as LanguageServerSymbolProvider;
+        const codeParser = new CodeParser(LanguageRegistry.getDefault(), languageServer);
+        const documentationProvider = new class extends DocumentationProvider {
+            public async generateDocumentation(symbol: DocumentableSymbol): Promise<string> {
+                return `/** Documents ${symbol.name}. */`;
+            }
+
+            public async updateDocumentation(symbol: DocumentableSymbol, existingDocumentation: string): Promise<string> {
+                return existingDocumentation.replace('Adds', 'Returns the sum of');
+            }
+        }(new OpenAIService(), new ContextExtractor(), new RAGSystem());
+        const documentationWriter = new DocumentationWriter(codeParser, documentationProvider);
+
+        // Apply the edit to the source, last change first so earlier positions stay valid
+        const applyEdit = (edit: vscode.WorkspaceEdit) => {
+            const lines = source.split('\n');
+            const offset = (position: vscode.Position) =>
+                lines.slice(0, position.line).reduce((total, line) => total + line.length + 1, 0) + position.character;
+
+            return [...edit.get(document.uri)]
+                .sort((a, b) => offset(b.range.start) - offset(a.range.start))
+                .reduce((text, change) => text.slice(0, offset(change.range.start)) + change.newText + text.slice(offset(change.range.end)), source);
+        };
+        const progress = { report: () => {} };
+        const token = new vscode.CancellationTokenSource().token;
+
+        // The class and its method are documented in one edit; the documented function is left alone
+        let result = await documentationWriter.documentFile(document, { updateExisting: false }, progress, token);
+
+        assert.deepStrictEqual([result.total, result.generated, result.updated, result.failed, result.cancelled], [2, 2, 0, 0, false]);
+        assert.ok(result.edit.get(document.uri).every(change => change.newText.includes('Documents')));
+        assert.strictEqual(applyEdit(result.edit), [
+            '/** Adds two numbers. */',
+            'function add(a: number, b: number): number {',
+            '    return a + b;',
+            '}',
+            '',
+            '/** Documents Counter. */',
+            'class Counter {',
+            '    /** Documents increment. */',
+            '    increment(step: number): void {',
+            '        this.count += step;',
+            '    }',
+            '}'
+        ].join('\n'));
+
+        // Updating existing documentation replaces the old comment instead of adding a second one
+        result = await documentationWriter.documentFile(document, { updateExisting: true }, progress, token);
+
+        assert.deepStrictEqual([result.total, result.generated, result.updated], [3, 2, 1]);
+        assert.deepStrictEqual(applyEdit(result.edit).split('\n').slice(0, 7), [
+            '/** Returns the sum of two numbers. */',
+            'function add(a: number, b: number): number {',
+            '    return a + b;',
+            '}',
+            '',
+            '/** Documents Counter. */',
+            'class Counter {'
+        ]);
+    });
+
+    test('BulkDocumentationQueue Concurrency, Resume and Preview', async () => {
+        const sources: { [uri: string]: string } = {
+            'file:///project/a.ts': [
+                '/** Already documented. */',
+                'function zero() {}',
+                'function one() {}',
+                'function two() {}',
+                'function three() {}'
+            ].join('\n'),
+            'file:///project/b.ts': 'function four() {}'
+        };
+        let texts: { [uri: string]: string } = {};
+        const saved: string[] = [];
+        const appliedEdits: { entries: number; isRefactoring?: boolean }[] = [];
+        let acceptPreview = true;
+        // Documentation the user unchecks in the preview
+        let rejectedInPreview: string[] = [];
+
+        // Applying an edit changes the text the next scan reads, like saving a file would
+        const applyEdit = async (edit: vscode.WorkspaceEdit, metadata?: vscode.WorkspaceEditMetadata) => {
+            const changes = Object.keys(texts).map(uri => ({ uri: uri, edits: edit.get(vscode.Uri.parse(uri)) }));
+            appliedEdits.push({ entries: changes.reduce((total, change) => total + change.edits.length, 0), isRefactoring: metadata?.isRefactoring });
+            if (metadata?.isRefactoring && !acceptPreview) {
+                return false;
+            }
+
+            for (const { uri, edits: allEdits } of changes) {
+                const edits = allEdits.filter(change => !rejectedInPreview.some(text => change.newText.includes(text)));
+                const lines = texts[uri].split('\n');
+                const offset = (position: vscode.Position) =>
+                    lines.slice(0, position.line).reduce((total, line) => total + line.length + 1, 0) + position.character;
+
+                for (const change of [...edits].sort((a, b) => offset(b.range.start) - offset(a.range.start))) {
+                    texts[uri] = texts[uri].slice(0, offset(change.range.start)) + change.newText + texts[uri].slice(offset(change.range.end));
+                }
+            }
+            return true;
+        };
+        const openTextDocument = async (uri: vscode.Uri) => ({
+            ...createDocument(texts[uri.toString()], 'typescript'),
+            uri: uri,
+            version: 1,
+            isDirty: false,
+            save: async () => saved.push(uri.toString()) > 0
+        } as vscode.TextDocument);
+
+        // The workspace state keeps a copy of the job, as it is stored as JSON
+        const values = new Map<string, string>();
+        const state = {
+            keys: () => [...values.keys()],
+            get: (key: string) => values.has(key) ? JSON.parse(values.get(key)!) : undefined,
+            update: async (key: string, value: unknown) => {
+                if (value === undefined) {
+                    values.delete(key);
+                } else {
+                    values.set(key, JSON.stringify(value));
+                }
+            }
+        } as unknown as vscode.Memento;
+
+        // Without a language server, symbols come from the built-in parsers
+        const languageServer = { getSymbols: async () => undefined } as unknown as LanguageServerSymbolProvider;
+        const codeParser = new CodeParser(LanguageRegistry.getDefault(), languageServer);
+
+        let active = 0;
+        let maxActive = 0;
+        let cancelAt: string | undefined;
+        const source = new vscode.CancellationTokenSource();
+        const documentationWriter = new class extends DocumentationWriter {
+            public async writeDocumentation(symbol: DocumentableSymbol): Promise<string> {
+                active++;
+                maxActive = Math.max(maxActive, active);
+                await new Promise(resolve => setTimeout(resolve, 5));
+                active--;
+
+                if (symbol.name === cancelAt) {
+                    source.cancel();
+                    throw new vscode.CancellationError();
+                }
+                return `/** Documentation of ${symbol.name}. */\n`;
+            }
+        }(codeParser, new DocumentationProvider(new OpenAIService(), new ContextExtractor(), new RAGSystem()));
+
+        const queue = new BulkDocumentationQueue(state, codeParser, documentationWriter);
+        const progress = { report: () => {} };
+        const uris = Object.keys(sources).map(uri => vscode.Uri.parse(uri));
+        const original = {
+            findFiles: vscode.workspace.findFiles,
+            openTextDocument: vscode.workspace.openTextDocument,
+            applyEdit: vscode.workspace.applyEdit
+        };
+        Object.assign(vscode.workspace, { findFiles: async () => uris, openTextDocument: openTextDocument, applyEdit: applyEdit });
+
+        try {
+            // Symbols are documented two at a time; each file is edited once and saved
+            texts = { ...sources };
+            let job = await queue.createJob('**/*.ts', '');
+            let summary = await queue.run(job, { concurrency: 2, preview: false }, progress, new vscode.CancellationTokenSource().token);
+
+            assert.strictEqual(maxActive, 2);
+            assert.deepStrictEqual(appliedEdits, [{ entries: 3, isRefactoring: undefined }, { entries: 1, isRefactoring: undefined }]);
+            assert.deepStrictEqual(saved, ['file:///project/a.ts', 'file:///project/b.ts']);
+            assert.deepStrictEqual([summary.documented, summary.skipped, summary.errors.length, summary.cancelled], [4, 1, 0, false]);
+            assert.strictEqual(queue.getPendingJob(), undefined);
+            assert.ok(texts['file:///project/a.ts'].includes('/** Documentation of three. */\nfunction three() {}'));
+
+            // A cancelled run keeps what was documented and leaves the rest pending in the workspace state
+            texts = { ...sources };
+            appliedEdits.length = 0;
+            cancelAt = 'two';
+            job = await queue.createJob('**/*.ts', '');
+            summary = await queue.run(job, { concurrency: 1, preview: false }, progress, source.token);
+
+            assert.deepStrictEqual([summary.documented, summary.cancelled], [1, true]);
+            const pendingJob = queue.getPendingJob();
+            assert.deepStrictEqual(
+                Object.values(pendingJob?.files ?? {}).map(file => [file.status, file.documented]),
+                [['pending', 1], ['pending', 0]]
+            );
+
+            // Resuming documents only the symbols that are still undocumented
+            cancelAt = undefined;
+            summary = await queue.run(pendingJob!, { concurrency: 2, preview: false }, progress, new vscode.CancellationTokenSource().token);
+
+            assert.deepStrictEqual([summary.documented, summary.skipped, summary.cancelled], [4, 1, false]);
+            assert.strictEqual(texts['file:///project/a.ts'].split('Documentation of one').length, 2);
+            assert.strictEqual(queue.getPendingJob(), undefined);
+
+            // With preview, all files are applied as one refactoring; rejecting it keeps the job pending
+            texts = { ...sources };
+            appliedEdits.length = 0;
+            acceptPreview = false;
+            job = await queue.createJob('**/*.ts', '');
+            summary = await queue.run(job, { concurrency: 2, preview: true }, progress, new vscode.CancellationTokenSource().token);
+
+            assert.deepStrictEqual(appliedEdits, [{ entries: 4, isRefactoring: true }]);
+            assert.strictEqual(summary.documented, 0);
+            assert.deepStrictEqual(texts, sources);
+            assert.notStrictEqual(queue.getPendingJob(), undefined);
+
+            acceptPreview = true;
+            summary = await queue.run(queue.getPendingJob()!, { concurrency: 2, preview: true }, progress, new vscode.CancellationTokenSource().token);
+
+            assert.strictEqual(summary.documented, 4);
+            assert.strictEqual(queue.getPendingJob(), undefined);
+
+            // Symbols rejected in the preview are not counted and keep their file pending
+            texts = { ...sources };
+            rejectedInPreview = ['Documentation of two'];
+            job = await queue.createJob('**/*.ts', '');
+            summary = await queue.run(job, { concurrency: 2, preview: true }, progress, new vscode.CancellationTokenSource().token);
+
+            assert.strictEqual(summary.documented, 3);
+            assert.deepStrictEqual(
+                Object.values(queue.getPendingJob()?.files ?? {}).map(file => [file.status, file.documented]),
+                [['pending', 2], ['done', 1]]
+            );
+
+            rejectedInPreview = [];
+            summary = await queue.run(queue.getPendingJob()!, { concurrency: 2, preview: true }, progress, new vscode.CancellationTokenSource().token);
+
+            assert.deepStrictEqual([summary.documented, summary.skipped], [4, 1]);
+            assert.strictEqual(texts['file:///project/a.ts'].split('Documentation of one').length, 2);
+            assert.ok(texts['file:///project/a.ts'].includes('/** Documentation of two. */\nfunction two() {}'));
+            assert.strictEqual(queue.getPendingJob(), undefined);
+        } finally {
+            Object.assign(vscode.workspace, original);
+        }
+    });
+
+    test('DocumentationPreview Review', async () => {
+        const source = 'function add(a: number, b: number): number {\n    return a + b;\n}';
+        const document = {
+            ...createDocument(source, 'typescript'),
+            uri: vscode.Uri.parse('file:///project/add.ts'),
+            version: 1,
+            offsetAt: (position: vscode.Position) =>
+                source.split('\n').slice(0, position.line).reduce((total, line) => total + line.length + 1, 0) + position.character
+        };
+        const createEdit = (documentation: string) => {
+            const edit = new vscode.WorkspaceEdit();
+            edit.insert(document.uri, new vscode.Position(0, 0), documentation);
+            return edit;
+        };
+
+        const preview = new DocumentationPreview();
+        const choices: (string | undefined)[] = [];
+        const previewUris: vscode.Uri[] = [];
+        const previewTexts: string[] = [];
+        const applied: vscode.WorkspaceEdit[] = [];
+        const warnings: string[] = [];
+        const original = {
+            executeCommand: vscode.commands.executeCommand,
+            showInformationMessage: vscode.window.showInformationMessage,
+            showWarningMessage: vscode.window.showWarningMessage,
+            applyEdit: vscode.workspace.applyEdit
+        };
+
+        // Record what the diff shows when the choice is asked for, and answer with the next choice
+        Object.assign(vscode.commands, {
+            executeCommand: async (command: string, left: vscode.Uri, right: vscode.Uri) => {
+                previewUris.push(right);
+            }
+        });
+        Object.assign(vscode.window, {
+            showInformationMessage: async () => {
+                previewTexts.push(preview.provideTextDocumentContent(previewUris[previewUris.length - 1]));
+                return choices.shift();
+            },
+            showWarningMessage: async (message: string) => {
+                warnings.push(message);
+                return undefined;
+            }
+        });
+        Object.assign(vscode.workspace, {
+            applyEdit: async (edit: vscode.WorkspaceEdit) => applied.push(edit) > 0
+        });
+
+        try {
+            // Regenerate asks for new documentation in a fresh diff; Accept applies the last one
+            let generation = 0;
+            choices.push('Regenerate', 'Accept');
+            assert.strictEqual(await preview.review(document as vscode.TextDocument, 'add', async showPartial => {
+                generation++;
+                showPartial(createEdit('/** Ad'));
+                return createEdit(`/** Adds, take ${generation}. */\n`);
+            }), true);
+
+            assert.strictEqual(generation, 2);
+            assert.notStrictEqual(previewUris[0].toString(), previewUris[1].toString());
+            assert.deepStrictEqual(previewTexts, [
+                `/** Adds, take 1. */\n${source}`,
+                `/** Adds, take 2. */\n${source}`
+            ]);
+            assert.strictEqual(applied.length, 1);
+            assert.strictEqual(applied[0].get(document.uri)[0].newText, '/** Adds, take 2. */\n');
+
+            // Rejecting, or dismissing the choice, leaves the document alone
+            choices.push('Reject', undefined);
+            assert.strictEqual(await preview.review(document as vscode.TextDocument, 'add', async () => createEdit('/** Adds. */\n')), false);
+            assert.strictEqual(await preview.review(document as vscode.TextDocument, 'add', async () => createEdit('/** Adds. */\n')), false);
+            assert.strictEqual(applied.length, 1);
+
+            // An edit made for an older version of the document is not applied
+            choices.push('Accept');
+            assert.strictEqual(await preview.review(document as vscode.TextDocument, 'add', async () => {
+                document.version++;
+                return createEdit('/** Adds. */\n');
+            }), false);
+            assert.strictEqual(applied.length, 1);
+            assert.deepStrictEqual(warnings, ['The file changed during the review. The documentation was not applied.']);
+
+            // Cancelled generation closes the diff without asking
+            assert.strictEqual(await preview.review(document as vscode.TextDocument, 'add', async () => {
+                throw new vscode.CancellationError();
+            }), false);
+            assert.strictEqual(choices.length, 0);
+        } finally {
+            Object.assign(vscode.commands, { executeCommand: original.executeCommand });
+            Object.assign(vscode.window, {
+                showInformationMessage: original.showInformationMessage,
+                showWarningMessage: original.showWarningMessage
+            });
+            Object.assign(vscode.workspace, { applyEdit: original.applyEdit });
+        }
+    });
+
+    test('FunctionExplainer Cache', async () => {
+        const explained: string[] = [];
+        let fail = false;
+        const documentationProvider = new class extends DocumentationProvider {
+            public async explain(functionInfo: DocumentableSymbol): Promise<string> {
+                explained.push(functionInfo.body);
+                if (fail) {
+                    throw new Error('Service unavailable');
+                }
+                return `${functionInfo.name} adds two numbers.`;
+            }
+        }(new OpenAIService(), new ContextExtractor(), new RAGSystem());
+
+        const functionExplainer = new FunctionExplainer(new CodeParser(), documentationProvider);
+        const symbol = {
+            kind: 'function',
+            name: 'add',
+            signature: 'function add(a: number, b: number): number',
+            body: 'function add(a: number, b: number): number {\n    return a + b;\n}',
+            startLine: 0,
+            endLine: 2,
+            language: 'typescript'
+        } as DocumentableSymbol;
+
+        // Explaining the same body again, also while the first request runs, asks only once
+        const [first, second] = await Promise.all([functionExplainer.explain(symbol), functionExplainer.explain(symbol)]);
+        assert.strictEqual(first, 'add adds two numbers.');
+        assert.strictEqual(second, first);
+        assert.strictEqual(await functionExplainer.explain({ ...symbol, startLine: 10, endLine: 12 }), first);
+        assert.strictEqual(explained.length, 1);
+
+        // A changed body is explained again
+        const changed = { ...symbol, body: 'function add(a: number, b: number): number {\n    return b + a;\n}' };
+        await functionExplainer.explain(changed);
+        assert.strictEqual(explained.length, 2);
+
+        // Failed explanations are not cached
+        fail = true;
+        const renamed = { ...symbol, name: 'sum', body: 'function sum(a: number, b: number): number {\n    return a + b;\n}' };
+        await assert.rejects(functionExplainer.explain(renamed), /Service unavailable/);
+        fail = false;
+        assert.strictEqual(await functionExplainer.explain(renamed), 'sum adds two numbers.');
+        assert.strictEqual(explained.length, 4);
+    });
+
+    test('Explain Function Prompt and Hover', async () => {
+        const requests: CompletionRequest[] = [];
+        const provider: LLMProvider = {
+            id: 'openai',
+            label: 'OpenAI',
+            listModels: async () => [],
+            streamCompletion: async request => {
+                requests.push(request);
+                return 'Adds two numbers.';
+            }
+        };
+        const openaiService = new OpenAIService(provider);
+        const documentationProvider = new DocumentationProvider(openaiService, new ContextExtractor(), new RAGSystem());
+        const languageServer = { getSymbols: async () => undefined } as unknown as LanguageServerSymbolProvider;
+        const functionExplainer = new FunctionExplainer(new CodeParser(LanguageRegistry.getDefault(), languageServer), documentationProvider);
+
+        const source = [
+            'function add(a: number, b: number): number {',
+            '    return a + b;',
+            '}'
+        ].join('\n');
+        const lines = source.split('\n');
+        const document = {
+            ...createDocument(source, 'typescript'),
+            uri: vscode.Uri.parse('file:///project/add.ts'),
+            getText: (range?: vscode.Range) => range ? lines[range.start.line].substring(range.start.character, range.end.character) : source,
+            getWordRangeAtPosition: (position: vscode.Position) => {
+                const word = /\w+/g;
+                for (let match = word.exec(lines[position.line]); match; match = word.exec(lines[position.line])) {
+                    if (match.index <= position.character && position.character <= match.index + match[0].length) {
+                        return new vscode.Range(position.line, match.index, position.line, match.index + match[0].length);
+                    }
+                }
+                return undefined;
+            }
+        } as vscode.TextDocument;
+
+        // Without gptDocAssistant.explain.hover, hovers only show explanations generated before
+        assert.strictEqual(await functionExplainer.provideHover(document, new vscode.Position(0, 10)), undefined);
+
+        const symbol = await new CodeParser(LanguageRegistry.getDefault(), languageServer).findFunctionAtPosition(document, new vscode.Position(1, 4));
+        assert.strictEqual(await functionExplainer.explain(symbol!), 'Adds two numbers.');
+
+        // Explanations are Markdown prose with the signature as facts, sent with the explain settings
+        assert.strictEqual(requests.length, 1);
+        assert.strictEqual(requests[0].messages[0].content, openaiService.getOperationSettings('explain').systemPrompt);
+        assert.strictEqual(requests[0].maxTokens, 1000);
+        assert.ok(requests[0].messages[1].content.includes('Explain the following typescript code'));
+        assert.ok(requests[0].messages[1].content.includes('- Parameters (in order):'));
+        assert.ok(!requests[0].messages[1].content.includes('JSON Schema'));
+
+        // The hover on the function's name offers to insert the explanation; other words get no hover
+        const hover = await functionExplainer.provideHover(document, new vscode.Position(0, 10));
+        const content = hover?.contents[0] as vscode.MarkdownString;
+        const args = encodeURIComponent(JSON.stringify(['file:///project/add.ts', symbol!.startLine]));
+        assert.ok(content.value.startsWith('Adds two numbers.'));
+        assert.ok(content.value.includes(`[Insert as documentation](command:gptDocAssistant.insertExplanation?${args}`));
+        assert.strictEqual(await functionExplainer.provideHover(document, new vscode.Position(1, 12)), undefined);
+        assert.strictEqual(requests.length, 1);
+
+        // Inserted explanations are formatted as the language's doc comment
+        assert.strictEqual(documentationProvider.formatDocumentation('Adds two numbers.', 'typescript', 'function'), '/**\n * Adds two numbers.\n */');
+    });
+
+    test('DocumentationCoverage Report', () => {
+        const documentationCoverage = new DocumentationCoverage(new CodeParser());
+
+        const file = (filePath: string, languageId: string, total: number, documented: number): FileCoverage => ({
+            uri: `file:///workspace/${filePath}`,
+            path: filePath,
+            languageId: languageId,
+            total: total,
+            documented: documented,
+            undocumented: Array.from({ length: total - documented }, (_, index) => ({ name: `symbol${index}`, kind: 'function', line: index }))
+        });
+
+        const report = documentationCoverage.createReport([
+            file('src/api.ts', 'typescript', 4, 3),
+            file('src/empty.ts', 'typescript', 0, 0),
+            file('src/util.ts', 'typescript', 2, 0),
+            file('scripts/build.py', 'python', 4, 2)
+        ]);
+
+        // Files without symbols are left out; everything is sorted least documented first, then by
+        // the number of undocumented symbols
+        assert.strictEqual(report.total, 10);
+        assert.strictEqual(report.documented, 5);
+        assert.deepStrictEqual(report.files.map(item => item.path), ['src/util.ts', 'scripts/build.py', 'src/api.ts']);
+        assert.deepStrictEqual(report.folders.map(folder => `${folder.name} ${documentationCoverage.formatPercentage(folder)}`), ['src 50%', 'scripts 50%']);
+        assert.deepStrictEqual(report.languages.map(language => `${language.name} ${language.documented}/${language.total}`), ['typescript 3/6', 'python 2/4']);
+
+        const markdown = documentationCoverage.toMarkdown(report);
+        assert.ok(markdown.includes('| src/util.ts | 0% | 0 | 2 |'));
+        assert.ok(markdown.includes('- scripts/build.py:2 function `symbol1`'));
+        assert.deepStrictEqual(JSON.parse(documentationCoverage.toJson(report)), report);
+
+        // Pipes in names are escaped so they do not split the table cells
+        const pipeMarkdown = documentationCoverage.toMarkdown(documentationCoverage.createReport([file('src/a|b/c|d.ts', 'typescript', 1, 1)]));
+        assert.ok(pipeMarkdown.includes('| src/a\\|b/c\\|d.ts | 100% | 1 | 1 |'));
+        assert.ok(pipeMarkdown.includes('| src/a\\|b | 100% | 1 | 1 |'));
+    });
+
+    test('DocModel Parsing and Rendering', () => {
+        // Text and fences around the JSON object are ignored
+        const documentation = parseDocModel([
+            'Sure, here is the documentation:',
+            '```json',
+            '{"summary": " Add two numbers. ", "params": [',
+            '  {"name": "a", "type": "int", "description": "First number."},',
+            '  {"name": "b", "type": "int", "description": "Second number, < 10."}',
+            '], "returns": {"type": "int", "description": "The sum."},',
+            '"throws": [{"type": "TypeError", "description": "If an argument is not a number."}],',
+            '"examples": ["add(1, 2)"], "deprecated": null}',
+            '```'
+        ].join('\n'));
+
+        assert.strictEqual(documentation.summary, 'Add two numbers.');
+        assert.strictEqual(documentation.deprecated, undefined);
+        assert.deepStrictEqual(documentation.seeAlso, []);
+
+        assert.throws(
+            () => parseDocModel('{"params": [{"name": "a"}], "returns": "int"}'),
+            /documentation\.summary is missing; documentation\.params\[0\]\.description is missing; documentation\.returns must be object or null, not string/
+        );
+        assert.throws(() => parseDocModel('Here is the documentation: Adds two numbers.'), /does not contain a JSON object/);
+
+        // While streaming, open strings and brackets are closed; incomplete entries are not read yet
+        assert.strictEqual(parsePartialDocModel('{"summary": "Add tw')?.summary, 'Add tw');
+        assert.deepStrictEqual(parsePartialDocModel('{"summary": "Add two.", "throws": [')?.throws, []);
+
+        // Entries still missing their description are left out until it arrives
+        const partialParams = parsePartialDocModel('{"summary": "Add two.", "params": [{"name": "a", "description": "First."}, {"name": "b", "descr');
+        assert.deepStrictEqual(partialParams?.params.map(param => param.name), ['a']);
+        const partialReturns = parsePartialDocModel('{"summary": "Add two.", "returns": {"descr');
+        assert.deepStrictEqual([partialReturns?.summary, partialReturns?.returns], ['Add two.', undefined]);
+        assert.strictEqual(parsePartialDocModel('{"summary": "Add two.", "returns": {"description": "The s')?.returns?.description, 'The s');
+
+        // A string cut off in a list is a value, not a key
+        assert.deepStrictEqual(parsePartialDocModel('{"summary": "Add two.", "examples": ["add(1, 2)", "ad')?.examples, ['add(1, 2)', 'ad']);
+        assert.deepStrictEqual(parsePartialDocModel('{"summary": "Add two.", "seeAlso": [ "sum"')?.seeAlso, ['sum']);
+        assert.strictEqual(parsePartialDocModel('{"summary": "Add two.", "deprecated": null, "descr')?.deprecated, undefined);
+
+        const documentationProvider = new DocumentationProvider(new OpenAIService(), new ContextExtractor(), new RAGSystem());
+        const defaultStyle = (languageId: string) => LanguageRegistry.getDefault().get(languageId).styles[0];
+
+        assert.strictEqual(documentationProvider.renderDocumentation(documentation, 'python', defaultStyle('python')), [
+            '"""',
+            'Add two numbers.',
+            '',
+            'Args:',
+            '    a (int): First number.',
+            '    b (int): Second number, < 10.',
+            '',
+            'Returns:',
+            '    int: The sum.',
+            '',
+            'Raises:',
+            '    TypeError: If an argument is not a number.',
+            '',
+            'Example:',
+            '    >>> add(1, 2)',
+            '"""'
+        ].join('\n'));
+
+        assert.strictEqual(documentationProvider.renderDocumentation(documentation, 'javascript', defaultStyle('javascript')), [
+            '/**',
+            ' * Add two numbers.',
+            ' *',
+            ' * @param {int} a - First number.',
+            ' * @param {int} b - Second number, < 10.',
+            ' * @returns {int} The sum.',
+            ' * @throws {TypeError} If an argument is not a number.',
+            ' *',
+            ' * @example',
+            ' * add(1, 2)',
+            ' */'
+        ].join('\n'));
+
+        assert.strictEqual(documentationProvider.renderDocumentation(documentation, 'csharp', defaultStyle('csharp')), [
+            '/// <summary>',
+            '/// Add two numbers.',
+            '/// </summary>',
+            '/// <param name="a">First number.</param>',
+            '/// <param name="b">Second number, &lt; 10.</param>',
+            '/// <returns>The sum.</returns>',
+            '/// <exception cref="TypeError">If an argument is not a number.</exception>',
+            '/// <example>',
+            '/// <code>',
+            '/// add(1, 2)',
+            '/// </code>',
+            '/// </example>'
+        ].join('\n'));
+
+        assert.strictEqual(new NumpyDocstringRenderer().render(documentation), [
+            'Add two numbers.',
+            '',
+            'Parameters',
+            '----------',
+            'a : int',
+            '    First number.',
+            'b : int',
+            '    Second number, < 10.',
+            '',
+            'Returns',
+            '-------',
+            'int',
+            '    The sum.',
+            '',
+            'Raises',
+            '------',
+            'TypeError',
+            '    If an argument is not a number.',
+            '',
+            'Examples',
+            '--------',
+            '>>> add(1, 2)'
+        ].join('\n'));
+    });
+
+    test('Doc Comment Escaping', () => {
+        // A glob in the text must not end the block comment
+        assert.strictEqual(
+            new BlockCommentFormatter().wrap('Lists files matching src/**/*.ts.', 'function'),
+            '/**\n * Lists files matching src/**\\/*.ts.\n */'
+        );
+
+        // Triple quotes are escaped, and backslashes make the docstring raw
+        const docstringFormatter = new DocstringFormatter();
+        assert.strictEqual(docstringFormatter.wrap('Strips """ from text.'), '"""\nStrips \\"\\"\\" from text.\n"""');
+        assert.strictEqual(docstringFormatter.wrap('Splits on \\n.'), 'r"""\nSplits on \\n.\n"""');
+        assert.strictEqual(docstringFormatter.wrap('Plain text.'), '"""\nPlain text.\n"""');
+    });
+
+    test('DocumentationProvider Context and Standards', async () => {
+        const requests: { context: string; standards: string }[] = [];
+        const progress: string[] = [];
+
+        // Record what would be sent instead of calling the API
+        const openaiService = new class extends OpenAIService {
+            public async generateDocumentation(
+                code: string,
+                language: string,
+                context: string = '',
+                documentationStandards: string = '',
+                symbol?: DocumentableSymbol,
+                options: GenerationOptions = {}
+            ): Promise<DocModel> {
+                requests.push({ context: context, standards: documentationStandards });
+                options.onProgress?.('{"summary": "Add two');
+                return parseDocModel('{"summary": "Add two numbers."}');
+            }
+        }();
+
+        const ragSystem = new class extends RAGSystem {
+            public async extractProjectContext(language: string, maxLength: number = 2000): Promise<string> {
+                return `// Context from math.ts:\nfunction subtract(a, b) {`.substring(0, maxLength);
+            }
+        }();
+
+        const documentationProvider = new DocumentationProvider(openaiService, new ContextExtractor(), ragSystem);
+        const symbol = {
+            kind: 'function',
+            name: 'add',
+            signature: 'function add(a: number, b: number): number',
+            body: 'function add(a: number, b: number): number {\n    return a + b;\n}',
+            startLine: 0,
+            endLine: 2,
+            language: 'typescript'
+        } as DocumentableSymbol;
+
+        const documentation = await documentationProvider.generateDocumentation(symbol, {
+            onProgress: text => progress.push(text)
+        });
+
+        // Without custom standards, the standards of the language's default style are sent
+        assert.deepStrictEqual(requests, [{
+            context: '// Context from math.ts:\nfunction subtract(a, b) {',
+            standards: LanguageRegistry.getDefault().get('typescript').styles[0].documentationStandards
+        }]);
+
+        // Partial and final documentation are both formatted as a comment
+        assert.deepStrictEqual(progress, ['/**\n * Add two\n */']);
+        assert.strictEqual(documentation, '/**\n * Add two numbers.\n */');
+    });
+
+    test('Inline Completion Cache', async () => {
+        const styles = LanguageRegistry.getDefault().get('typescript').styles;
+        let style = styles[0];
+        let requests = 0;
+
+        const documentationProvider = new class extends DocumentationProvider {
+            public async getDocumentationStyle(language: string) {
+                return style;
+            }
+
+            public async generateDocumentation(functionInfo: DocumentableSymbol): Promise<string> {
+                requests++;
+                return `/**\n * ${style.label} documentation of ${functionInfo.name}.\n */`;
+            }
+        }(new OpenAIService(), new ContextExtractor(), new RAGSystem());
+
+        const provider = new DocumentationInlineCompletionProvider(new CodeParser(), documentationProvider);
+        const document = createDocument([
+            '/**',
+            'function add(a: number, b: number): number {',
+            '    return a + b;',
+            '}'
+        ].join('\n'), 'typescript');
+        const token = { isCancellationRequested: false } as vscode.CancellationToken;
+        const complete = async () => {
+            const items = await provider.provideInlineCompletionItems(
+                document, new vscode.Position(0, 3), {} as vscode.InlineCompletionContext, token);
+            return items.map(item => item.insertText);
+        };
+
+        // Typing the opener again for unchanged code reuses the suggestion
+        assert.deepStrictEqual(await complete(), [`/**\n * ${styles[0].label} documentation of add.\n */`]);
+        await complete();
+        assert.strictEqual(requests, 1);
+
+        // Another style asks for new documentation
+        style = styles[1];
+        assert.deepStrictEqual(await complete(), [`/**\n * ${styles[1].label} documentation of add.\n */`]);
+        assert.strictEqual(requests, 2);
+    });
+
+    test('Documentation Style Selection and Detection', async () => {
+        const documentationStyles = new DocumentationStyleResolver();
+        const sources = {
+            google: 'def f(a):\n    """Do it.\n\n    Args:\n        a: Value.\n    """',
+            numpy: 'def f(a):\n    """Do it.\n\n    Parameters\n    ----------\n    a : int\n    """',
+            sphinx: 'def f(a):\n    """Do it.\n\n    :param a: Value.\n    :rtype: int\n    """',
+            epytext: 'def f(a):\n    """Do it.\n\n    @param a: Value.\n    @rtype: int\n    """'
+        };
+
+        // The style most files are documented in wins; undocumented files do not count
+        assert.strictEqual(documentationStyles.pickStyle('python', [sources.sphinx, sources.google, sources.sphinx, 'x = 1']).id, 'sphinx');
+        assert.strictEqual(documentationStyles.pickStyle('python', [sources.numpy]).id, 'numpy');
+        assert.strictEqual(documentationStyles.pickStyle('python', [sources.epytext]).id, 'epytext');
+        assert.strictEqual(documentationStyles.pickStyle('python', ['x = 1']).id, 'google');
+        assert.strictEqual(documentationStyles.pickStyle('typescript', ['/**\n * @param value - The value\n */']).id, 'tsdoc');
+        assert.strictEqual(documentationStyles.pickStyle('typescript', ['/**\n * @param {string} value The value\n */']).id, 'jsdoc');
+
+        // Without a setting or a workspace, the language's default style is used
+        assert.strictEqual((await documentationStyles.resolve('python')).id, 'google');
+        assert.strictEqual((await documentationStyles.resolve('csharp')).id, 'xml');
+
+        const documentation = parseDocModel(JSON.stringify({
+            summary: 'Parse a value.',
+            params: [{ name: 'value', type: 'str', description: 'Text to parse.' }],
+            returns: { type: 'int', description: 'The number.' },
+            throws: [{ type: 'ValueError', description: 'If the text is not a number.' }]
+        }));
+
+        assert.strictEqual(new EpytextDocstringRenderer().render(documentation), [
+            'Parse a value.',
+            '',
+            '@param value: Text to parse.',
+            '@type value: str',
+            '@return: The number.',
+            '@rtype: int',
+            '@raise ValueError: If the text is not a number.'
+        ].join('\n'));
+
+        assert.strictEqual(new TagDocRenderer(tsDocTags).render(documentation), [
+            'Parse a value.',
+            '',
+            '@param value - Text to parse.',
+            '@returns The number.',
+            '@throws {@link ValueError} If the text is not a number.'
+        ].join('\n'));
+    });
+
+    test('DocumentationValidator Signature Checks', async () => {
+        const documentationValidator = new DocumentationValidator();
+        const symbol = {
+            kind: 'function',
+            name: 'scale',
+            signature: 'function scale(value: number, factor: number): Promise<number>',
+            body: 'async function scale(value: number, factor: number): Promise<number> {\n    return value * factor;\n}',
+            startLine: 0,
+            endLine: 2,
+            language: 'typescript',
+            parameters: [
+                { name: 'value', type: 'number', optional: false, rest: false },
+                { name: 'factor', type: 'number', optional: false, rest: false }
+            ],
+            returnType: 'Promise<number>'
+        } as DocumentableSymbol;
+
+        const documentation = parseDocModel(JSON.stringify({
+            summary: 'Scale a value.',
+            params: [
+                { name: 'factor', description: 'Multiplier.' },
+                { name: 'offset', description: 'Added afterwards.' }
+            ]
+        }));
+        const render = (model: DocModel) => new DocumentationProvider(new OpenAIService(), new ContextExtractor(), new RAGSystem())
+            .renderDocumentation(model, 'typescript', LanguageRegistry.getDefault().get('typescript').styles[0]);
+
+        assert.deepStrictEqual(documentationValidator.validate(documentation, render(documentation), symbol).map(problem => problem.message), [
+            'Parameter \'value\' is not documented',
+            'Documented parameter \'offset\' does not exist',
+            'The return value of scale is not documented'
+        ]);
+
+        // Phantom parameters and the return value of a void function are removed without the model
+        assert.deepStrictEqual(documentationValidator.fix(documentation, symbol).params.map(param => param.name), ['factor']);
+        const voidSymbol = { ...symbol, returnType: 'Promise<void>' };
+        const withReturns = { ...documentation, returns: { description: 'Nothing.' } };
+        assert.deepStrictEqual(documentationValidator.validate(withReturns, render(withReturns), voidSymbol).map(problem => problem.kind), [
+            'missingParameter',
+            'phantomParameter',
+            'unexpectedReturns'
+        ]);
+        assert.strictEqual(documentationValidator.fix(withReturns, voidSymbol).returns, undefined);
+
+        // A stray comment terminator ends the comment early
+        const broken = '/**\n * Scale a value. */\n * @param value - Value.\n */';
+        assert.deepStrictEqual(documentationValidator.validate(parseDocModel('{"summary": "Scale a value."}'), broken, { ...symbol, parameters: [], returnType: undefined })
+            .map(problem => problem.kind), ['invalidSyntax']);
+
+        // Missing entries are sent back to the model once; parameters come out in signature order
+        const repairs: string[][] = [];
+        const openaiService = new class extends OpenAIService {
+            public async generateDocumentation(): Promise<DocModel> {
+                return documentation;
+            }
+
+            public async repairDocumentation(code: string, language: string, previous: DocModel, problems: string[]): Promise<DocModel> {
+                repairs.push(problems);
+                return {
+                    ...previous,
+                    params: [...previous.params, { name: 'value', description: 'Value to scale.' }],
+                    returns: { description: 'The scaled value.' }
+                };
+            }
+        }();
+
+        const documentationProvider = new DocumentationProvider(openaiService, new ContextExtractor(), new RAGSystem());
+        assert.strictEqual(await documentationProvider.generateDocumentation(symbol), [
+            '/**',
+            ' * Scale a value.',
+            ' *',
+            ' * @param value - Value to scale.',
+            ' * @param factor - Multiplier.',
+            ' * @returns The scaled value.',
+            ' */'
+        ].join('\n'));
+        assert.deepStrictEqual(repairs, [['Parameter \'value\' is not documented', 'The return value of scale is not documented']]);
+
+        // Documentation that still does not match after the repair budget is not returned
+        await assert.rejects(
+            documentationProvider.generateDocumentation({ ...symbol, parameters: [...symbol.parameters!, { name: 'rounding', optional: true, rest: false }] }),
+            /does not match its code: Parameter 'rounding' is not documented/
+        );
+    });
+
+    test('SetupWizard Settings and Targets', async () => {
+        const updates: { key: string; value: unknown; target: vscode.ConfigurationTarget }[] = [];
+        const configuration = {
+            get: (key: string, defaultValue?: unknown) => defaultValue,
+            update: async (key: string, value: unknown, target: vscode.ConfigurationTarget) => {
+                updates.push({ key: key, value: value, target: target });
+            }
+        } as unknown as vscode.WorkspaceConfiguration;
+
+        // Test the connection without calling the provider
+        const testedKeys: (string | undefined)[] = [];
+        let initialized = false;
+        const openaiService = new class extends OpenAIService {
+            public initialize(): boolean {
+                initialized = true;
+                return true;
+            }
+
+            public isInitialized(): boolean {
+                return initialized;
+            }
+
+            public async listModels(apiKey?: string): Promise<string[]> {
+                testedKeys.push(apiKey);
+                return ['local-model', 'other-model'];
+            }
+        }();
+        const setupWizard = new SetupWizard(
+            new SettingsManager({} as vscode.ExtensionContext),
+            openaiService,
+            new CodeParser(),
+            new DocumentationProvider(openaiService, new ContextExtractor(), new RAGSystem())
+        );
+
+        // Answers of the quick picks, in order: the provider, the Model step, a model, then closing the menu
+        type Item = vscode.QuickPickItem & { provider?: { id: string } };
+        const picks: ((items: Item[]) => Item | undefined)[] = [
+            items => items.find(item => item.provider?.id === 'openaiCompatible'),
+            items => items.find(item => item.label === '$(hubot) Model'),
+            items => items.find(item => item.label === 'local-model'),
+            () => undefined
+        ];
+        const apiKeyInput = {
+            value: '',
+            onDidChangeValue: () => ({ dispose: () => {} }),
+            onDidAccept: (listener: () => void) => {
+                apiKeyInput.accept = listener;
+                return { dispose: () => {} };
+            },
+            onDidHide: (listener: () => void) => {
+                apiKeyInput.hide = listener;
+                return { dispose: () => {} };
+            },
+            show: () => {
+                apiKeyInput.value = ' secret-key ';
+                apiKeyInput.accept();
+            },
+            accept: () => {},
+            hide: () => {},
+            dispose: () => {}
+        };
+
+        const original = {
+            workspace: { getConfiguration: vscode.workspace.getConfiguration },
+            workspaceFolders: Object.getOwnPropertyDescriptor(vscode.workspace, 'workspaceFolders')!,
+            window: {
+                showQuickPick: vscode.window.showQuickPick,
+                showInputBox: vscode.window.showInputBox,
+                createInputBox: vscode.window.createInputBox,
+                showInformationMessage: vscode.window.showInformationMessage
+            }
+        };
+        Object.assign(vscode.workspace, { getConfiguration: () => configuration });
+        Object.defineProperty(vscode.workspace, 'workspaceFolders', {
+            value: [{ uri: vscode.Uri.file('/project'), name: 'project', index: 0 }],
+            configurable: true
+        });
+        Object.assign(vscode.window, {
+            showQuickPick: async (items: Item[] | Thenable<Item[]>) => picks.shift()!(await items),
+            showInputBox: async () => ' http://localhost:11434/v1 ',
+            createInputBox: () => apiKeyInput,
+            showInformationMessage: async () => undefined
+        });
+
+        try {
+            await setupWizard.run();
+        } finally {
+            Object.assign(vscode.workspace, original.workspace);
+            Object.defineProperty(vscode.workspace, 'workspaceFolders', original.workspaceFolders);
+            Object.assign(vscode.window, original.window);
+        }
+
+        // The key is tested before it is saved, and only in the user settings; the provider, its
+        // URL and the model belong to the open workspace
+        assert.strictEqual(picks.length, 0);
+        assert.deepStrictEqual(testedKeys, ['secret-key', undefined]);
+        assert.deepStrictEqual(updates, [
+            { key: 'provider', value: 'openaiCompatible', target: vscode.ConfigurationTarget.Workspace },
+            { key: 'openaiCompatible.baseUrl', value: 'http://localhost:11434/v1', target: vscode.ConfigurationTarget.Workspace },
+            { key: 'openaiCompatible.apiKey', value: 'secret-key', target: vscode.ConfigurationTarget.Global },
+            { key: 'model', value: 'local-model', target: vscode.ConfigurationTarget.Workspace }
+        ]);
+    });
+
+    test('LLM Providers', async () => {
+        // Providers without credentials name the missing setting
+        const key = process.env.AZURE_OPENAI_API_KEY;
+        delete process.env.AZURE_OPENAI_API_KEY;
+        try {
+            assert.throws(() => createProvider('azureOpenai'), /gptDocAssistant\.azureOpenai\.apiKey/);
+        } finally {
+            if (key !== undefined) {
+                process.env.AZURE_OPENAI_API_KEY = key;
+            }
+        }
+        assert.throws(() => createProvider('bedrock'), /Unknown provider "bedrock"/);
+        assert.strictEqual(createProvider('openaiCompatible').label, 'OpenAI-compatible server');
+
+        // Anthropic streams server-sent events; events may be split across chunks
+        const requests: {
+            url: string;
+            body: { system: string; messages: ChatMessage[]; temperature: number; max_tokens: number };
+        }[] = [];
+        const events = [
+            'event: message_start\ndata: {"type":"message_start"}\n\n',
+            'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":"{\\"summary\\": "}}\n\nevent: content_bl',
+            'ock_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":"\\"Add.\\"}"}}\n\n',
+            'event: message_stop\ndata: {"type":"message_stop"}\n\n'
+        ];
+        const originalFetch = global.fetch;
+        global.fetch = (async (url: string, init: RequestInit) => {
+            requests.push({ url: url, body: JSON.parse(init.body as string) });
+            const encoder = new TextEncoder();
+            return new Response(new ReadableStream({
+                start: controller => {
+                    events.forEach(event => controller.enqueue(encoder.encode(event)));
+                    controller.close();
+                }
+            }));
+        }) as typeof fetch;
+
+        try {
+            const progress: string[] = [];
+            const text = await new AnthropicProvider('key', 'https://api.anthropic.com/').streamCompletion({
+                model: 'claude-model',
+                messages: [{ role: 'system', content: 'Answer in JSON.' }, { role: 'user', content: 'Document add.' }],
+                temperature: 0.5,
+                maxTokens: 1000
+            }, received => progress.push(received), new AbortController().signal);
+
+            assert.strictEqual(text, '{"summary": "Add."}');
+            assert.deepStrictEqual(progress, ['{"summary": ', '{"summary": "Add."}']);
+            assert.strictEqual(requests[0].url, 'https://api.anthropic.com/v1/messages');
+            assert.strictEqual(requests[0].body.system, 'Answer in JSON.');
+            assert.deepStrictEqual(requests[0].body.messages, [{ role: 'user', content: 'Document add.' }]);
+            assert.strictEqual(requests[0].body.max_tokens, 1000);
+
+            // The Messages API accepts temperatures up to 1
+            await new AnthropicProvider('key', 'https://api.anthropic.com').streamCompletion({
+                model: 'claude-model',
+                messages: [{ role: 'user', content: 'Document add.' }],
+                temperature: 1.5,
+                maxTokens: 1000
+            }, () => {}, new AbortController().signal);
+            assert.strictEqual(requests[1].body.temperature, 1);
+
+            // Keep-alive lines are skipped; malformed event data is reported as an API error
+            global.fetch = (async () => new Response('data:\n\ndata: {"type": "content_block_delta",\n\n')) as typeof fetch;
+            await assert.rejects(
+                new AnthropicProvider('key', 'https://api.anthropic.com').streamCompletion({
+                    model: 'claude-model',
+                    messages: [{ role: 'user', content: 'Document add.' }],
+                    temperature: 0.5,
+                    maxTokens: 1000
+                }, () => {}, new AbortController().signal),
+                /^Error: Anthropic API error: unexpected event data data: \{"type": "content_block_delta",$/
+            );
+        } finally {
+            global.fetch = originalFetch;
+        }
+
+        // Reasoning models take the limit as `max_completion_tokens` and no temperature
+        const bodies: Record<string, unknown>[] = [];
+        const client = {
+            chat: {
+                completions: {
+                    create: async (body: Record<string, unknown>) => {
+                        bodies.push(body);
+                        return (async function* () {
+                            yield { choices: [{ delta: { content: 'Adds.' }, finish_reason: 'stop' }] };
+                        })();
+                    }
+                }
+            }
+        } as unknown as OpenAI;
+        const openAIProvider = new OpenAIProvider('openai', 'OpenAI', client);
+        for (const model of ['gpt-4o', 'o3-mini']) {
+            await openAIProvider.streamCompletion({
+                model: model,
+                messages: [{ role: 'user', content: 'Document add.' }],
+                temperature: 0.5,
+                maxTokens: 1000
+            }, () => {}, new AbortController().signal);
+        }
+
+        assert.deepStrictEqual(bodies.map(body => [body.model, body.temperature, body.max_tokens, body.max_completion_tokens]), [
+            ['gpt-4o', 0.5, 1000, undefined],
+            ['o3-mini', undefined, undefined, 1000]
+        ]);
+    });
+
+    test('Operation Settings', () => {
+        const openaiService = new OpenAIService();
+
+        // Without configuration, operations use the general model and their built-in defaults
+        const model = vscode.workspace.getConfiguration('gptDocAssistant').get<string>('model', 'gpt-4');
+        const generate = openaiService.getOperationSettings('generate');
+        assert.strictEqual(generate.model, model);
+        assert.strictEqual(generate.temperature, 0.7);
+        assert.strictEqual(generate.maxTokens, 2000);
+        assert.strictEqual(generate.timeout, 120);
+        assert.ok(generate.systemPrompt.includes('JSON object'));
+
+        const explain = openaiService.getOperationSettings('explain');
+        assert.strictEqual(explain.temperature, 0.3);
+        assert.strictEqual(explain.maxTokens, 1000);
+        assert.ok(!explain.systemPrompt.includes('JSON'));
+
+        assert.strictEqual(openaiService.getOperationSettings('update').temperature, 0.5);
+        assert.strictEqual(openaiService.getOperationSettings('review').temperature, 0.3);
+    });
+
+    test('Streaming, Cancellation and Timeout', async () => {
+        // Streams two chunks, then either completes or waits until the request is aborted
+        let complete = true;
+        const provider: LLMProvider = {
+            id: 'openai',
+            label: 'OpenAI',
+            listModels: async () => [],
+            streamCompletion: (request, onText, signal) => new Promise<string>((resolve, reject) => {
+                onText('Adds');
+                onText('Adds two numbers.');
+                if (complete) {
+                    resolve('Adds two numbers.');
+                }
+                signal.addEventListener('abort', () => reject(new Error('Request was aborted.')));
+            })
+        };
+        let timeout = 120;
+        const openaiService = new class extends OpenAIService {
+            public getOperationSettings(operation: Operation): OperationSettings {
+                return { ...super.getOperationSettings(operation), timeout: timeout };
+            }
+        }(provider);
+
+        const progress: string[] = [];
+        const explanation = await openaiService.explainCode('add(a, b)', 'typescript', '', undefined, {
+            onProgress: text => progress.push(text)
+        });
+        assert.strictEqual(explanation, 'Adds two numbers.');
+        assert.deepStrictEqual(progress, ['Adds', 'Adds two numbers.']);
+
+        // Cancelling the token aborts the request; the provider's own error is not reported
+        complete = false;
+        const listeners: (() => void)[] = [];
+        const token = {
+            isCancellationRequested: false,
+            onCancellationRequested: (listener: () => void) => {
+                listeners.push(listener);
+                return { dispose: () => listeners.splice(listeners.indexOf(listener), 1) };
+            }
+        } as unknown as vscode.CancellationToken;
+        const cancelled = openaiService.explainCode('add(a, b)', 'typescript', '', undefined, { token: token });
+        listeners.forEach(listener => listener());
+        await assert.rejects(cancelled, vscode.CancellationError);
+        assert.strictEqual(listeners.length, 0);
+
+        // A request that takes longer than the operation's timeout fails instead of being cancelled
+        timeout = 0.05;
+        await assert.rejects(
+            openaiService.explainCode('add(a, b)', 'typescript'),
+            /OpenAI did not respond within 0\.05 seconds; raise gptDocAssistant\.explain\.timeout/
+        );
+    });
+
+    test('Truncated Responses', async () => {
+        const request: CompletionRequest = {
+            model: 'model',
+            messages: [{ role: 'user', content: 'Document this class.' }],
+            temperature: 0.7,
+            maxTokens: 10
+        };
+
+        // OpenAI reports the token limit as the finish reason of the last chunk
+        const client = {
+            chat: {
+                completions: {
+                    create: async () => (async function* () {
+                        yield { choices: [{ delta: { content: '{"summary": "A' }, finish_reason: null }] };
+                        yield { choices: [{ delta: { content: ' cache' }, finish_reason: 'length' }] };
+                    })()
+                }
+            }
+        } as unknown as OpenAI;
+        await assert.rejects(
+            new OpenAIProvider('openai', 'OpenAI', client).streamCompletion(request, () => {}, new AbortController().signal),
+            TruncatedResponseError
+        );
+
+        // Anthropic reports it as the stop reason of the message
+        const originalFetch = global.fetch;
+        global.fetch = (async () => new Response([
+            'data: {"type":"content_block_delta","delta":{"type":"text_delta","text":"{\\"summary\\": \\"A"}}\n\n',
+            'data: {"type":"message_delta","delta":{"stop_reason":"max_tokens"}}\n\n'
+        ].join(''))) as typeof fetch;
+
+        try {
+            await assert.rejects(
+                new AnthropicProvider('key', 'https://api.anthropic.com').streamCompletion(request, () => {}, new AbortController().signal),
+                TruncatedResponseError
+            );
+        } finally {
+            global.fetch = originalFetch;
+        }
+
+        // The error names the setting that raises the limit, instead of the cut-off JSON being parsed
+        const provider: LLMProvider = {
+            id: 'openai',
+            label: 'OpenAI',
+            listModels: async () => [],
+            streamCompletion: async (completionRequest, onText) => {
+                onText('{"summary": "A');
+                throw new TruncatedResponseError(completionRequest.maxTokens);
+            }
+        };
+        await assert.rejects(
+            new OpenAIService(provider).generateDocumentation('class Cache {}', 'typescript'),
+            /cut off at the limit of 2000 tokens; raise gptDocAssistant\.generate\.maxTokens/
+        );
+    });
+
     test('ContextExtractor Workspace Context', () => {
         const contextExtractor = new ContextExtractor();
         
@@ -65,7 +1992,7 @@ suite('Extension Test Suite', () => {
             );
 
             // Check that documentation is generated
-            assert.ok(documentation.length > 0);
+            assert.ok(documentation.summary.length > 0);
         } catch (error) {
             // This might fail if OpenAI API key is not set
             console.warn('Documentation generation test skipped due to potential API configuration');
@@ -0,0 +1,77 @@
+import * as crypto from 'crypto';
+
+/**
+ * Keeps the most recent model responses, keyed by a hash of what they were generated from, so
+ * repeated requests for unchanged code do not call the API again
+ */
+export class ResponseCache<T> {
+    private maxEntries: number;
+    private entries: Map<string, Promise<T>> = new Map();
+
+    /**
+     * @param maxEntries Number of responses kept; the least recently used one is dropped first
+     */
+    constructor(maxEntries: number) {
+        this.maxEntries = maxEntries;
+    }
+
+    /**
+     * Hash the inputs of a request into a cache key
+     * @param parts Inputs the response depends on, such as the language and the code
+     * @returns Hex encoded SHA-256 hash
+     */
+    public static createKey(...parts: string[]): string {
+        const hash = crypto.createHash('sha256');
+        for (const part of parts) {
+            hash.update(part).update('\0');
+        }
+        return hash.digest('hex');
+    }
+
+    /**
+     * Get a cached response, or create it. Concurrent requests for the same key share one
+     * pending response; failed responses are not cached.
+     * @param key Cache key from `createKey`
+     * @param create Requests the response
+     * @returns The cached or new response
+     */
+    public getOrCreate(key: string, create: () => Promise<T>): Promise<T> {
+        let entry = this.entries.get(key);
+
+        if (entry) {
+            // Move the entry to the end, which marks it as most recently used
+            this.entries.delete(key);
+        } else {
+            entry = create();
+            entry.catch(() => {
+                if (this.entries.get(key) === entry) {
+                    this.entries.delete(key);
+                }
+            });
+        }
+
+        this.entries.set(key, entry);
+        if (this.entries.size > this.maxEntries) {
+            this.entries.delete(this.entries.keys().next().value!);
+        }
+
+        return entry;
+    }
+
+    /**
+     * Get a response that is already cached or pending, without requesting one
+     * @param key Cache key from `createKey`
+     * @returns The cached response, or undefined
+     */
+    public get(key: string): Promise<T> | undefined {
+        return this.entries.get(key);
+    }
+
+    /**
+     * Drop a response, so the next request for its key creates it again
+     * @param key Cache key from `createKey`
+     */
+    public delete(key: string): void {
+        this.entries.delete(key);
+    }
+}
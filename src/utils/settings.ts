@@ -9,6 +9,9 @@ export class SettingsManager {
     private static readonly CONFIG_SECTION = 'gptDocAssistant';
     private static readonly API_KEY_CONFIG = 'openaiApiKey';
     private static readonly DOC_STANDARDS_CONFIG = 'documentationStandards';
+    private static readonly PROVIDER_CONFIG = 'provider';
+    private static readonly MODEL_CONFIG = 'model';
+    private static readonly DOC_STYLE_CONFIG = 'documentationStyle';
 
     constructor(context: vscode.ExtensionContext) {
         this.context = context;
@@ -52,6 +55,108 @@ export class SettingsManager {
         }
     }
 
+    /**
+     * Save the API key of a provider in the user settings, never in the workspace, so it does not
+     * end up in a repository
+     * @param apiKeySetting Setting of the provider's key, e.g. `anthropic.apiKey`
+     * @param apiKey New API key
+     * @returns Promise that resolves when the update is complete
+     */
+    public async updateApiKey(apiKeySetting: string, apiKey: string): Promise<void> {
+        await this.updateSetting(apiKeySetting, apiKey);
+        this.logger.info(`${apiKeySetting} updated successfully`);
+    }
+
+    /**
+     * Get a setting of the extension's section, such as the base URL of a provider
+     * @param key Setting name within the extension's section
+     * @returns The value, or undefined when it is not set
+     */
+    public getSetting(key: string): string | undefined {
+        const config = vscode.workspace.getConfiguration(SettingsManager.CONFIG_SECTION);
+        return config.get<string>(key) || undefined;
+    }
+
+    /**
+     * Update a setting that belongs to the provider choice, such as its endpoint. Like the
+     * provider itself, it is saved for the open workspace, or for the user without one.
+     * @param key Setting name within the extension's section
+     * @param value New value
+     * @returns Promise that resolves when the update is complete
+     */
+    public async updateProviderSetting(key: string, value: string): Promise<void> {
+        await this.updateSetting(key, value, this.getProviderTarget());
+        this.logger.info(`${key} set to ${value}`);
+    }
+
+    /**
+     * Get the service that generates the documentation
+     * @returns Provider identifier
+     */
+    public getProvider(): string {
+        const config = vscode.workspace.getConfiguration(SettingsManager.CONFIG_SECTION);
+        return config.get<string>(SettingsManager.PROVIDER_CONFIG, 'openai');
+    }
+
+    /**
+     * Update the service that generates the documentation, for the open workspace or, without
+     * one, for the user
+     * @param provider Provider identifier
+     * @returns Promise that resolves when the update is complete
+     */
+    public async updateProvider(provider: string): Promise<void> {
+        await this.updateSetting(SettingsManager.PROVIDER_CONFIG, provider, this.getProviderTarget());
+        this.logger.info(`Provider set to ${provider}`);
+    }
+
+    /**
+     * Get the chat model used for documentation
+     * @returns Model identifier
+     */
+    public getModel(): string {
+        const config = vscode.workspace.getConfiguration(SettingsManager.CONFIG_SECTION);
+        return config.get<string>(SettingsManager.MODEL_CONFIG, 'gpt-4');
+    }
+
+    /**
+     * Update the chat model used for documentation. Models belong to a provider, so the model is
+     * saved where the provider is.
+     * @param model Model identifier
+     * @returns Promise that resolves when the update is complete
+     */
+    public async updateModel(model: string): Promise<void> {
+        await this.updateSetting(SettingsManager.MODEL_CONFIG, model, this.getProviderTarget());
+        this.logger.info(`Model set to ${model}`);
+    }
+
+    /**
+     * Get the doc comment style configured for a language
+     * @param language Programming language
+     * @returns Style identifier, or "auto" when it is detected
+     */
+    public getDocumentationStyle(language: string): string {
+        const config = vscode.workspace.getConfiguration(SettingsManager.CONFIG_SECTION, { languageId: language });
+        return config.get<string>(SettingsManager.DOC_STYLE_CONFIG, 'auto');
+    }
+
+    /**
+     * Update the doc comment style of a language, as a language-specific user setting
+     * @param language Programming language
+     * @param style Style identifier, or "auto" to detect it
+     * @returns Promise that resolves when the update is complete
+     */
+    public async updateDocumentationStyle(language: string, style: string): Promise<void> {
+        const config = vscode.workspace.getConfiguration(SettingsManager.CONFIG_SECTION, { languageId: language });
+
+        try {
+            await config.update(SettingsManager.DOC_STYLE_CONFIG, style, vscode.ConfigurationTarget.Global, true);
+            this.logger.info(`Documentation style set to ${style} for ${language}`);
+        } catch (error) {
+            this.logger.error(`Failed to update the documentation style: ${error}`);
+            throw error;
+        }
+    }
+
     /**
      * Get documentation standards for a specific language
      * @param language Programming language
@@ -66,6 +171,19 @@ export class SettingsManager {
         return documentationStandards?.[language];
     }
 
+    /**
+     * Get the languages that have custom documentation standards
+     * @returns Language identifiers
+     */
+    public getCustomizedLanguages(): string[] {
+        const config = vscode.workspace.getConfiguration(SettingsManager.CONFIG_SECTION);
+        const documentationStandards = config.get<{ [key: string]: string }>(
+            SettingsManager.DOC_STANDARDS_CONFIG
+        );
+
+        return Object.keys(documentationStandards ?? {});
+    }
+
     /**
      * Update documentation standards for a specific language
      * @param language Programming language
@@ -79,10 +197,10 @@ export class SettingsManager {
         const config = vscode.workspace.getConfiguration(SettingsManager.CONFIG_SECTION);
         
         try {
-            // Get current documentation standards
-            const currentStandards = config.get<{ [key: string]: string }>(
-                SettingsManager.DOC_STANDARDS_CONFIG
-            ) || {};
+            // Get current documentation standards (a copy, as configuration values are read-only)
+            const currentStandards = {
+                ...config.get<{ [key: string]: string }>(SettingsManager.DOC_STANDARDS_CONFIG)
+            };
 
             // Update standards for the specific language
             currentStandards[language] = standards;
@@ -111,10 +229,10 @@ export class SettingsManager {
         
         try {
             if (language) {
-                // Get current standards
-                const currentStandards = config.get<{ [key: string]: string }>(
-                    SettingsManager.DOC_STANDARDS_CONFIG
-                ) || {};
+                // Get current standards (a copy, as configuration values are read-only)
+                const currentStandards = {
+                    ...config.get<{ [key: string]: string }>(SettingsManager.DOC_STANDARDS_CONFIG)
+                };
 
                 // Remove standards for specific language
                 delete currentStandards[language];
@@ -141,6 +259,38 @@ export class SettingsManager {
         }
     }
 
+    /**
+     * Get where provider settings are saved
+     * @returns The workspace when a folder is open, otherwise the user settings
+     */
+    private getProviderTarget(): vscode.ConfigurationTarget {
+        return vscode.workspace.workspaceFolders?.length
+            ? vscode.ConfigurationTarget.Workspace
+            : vscode.ConfigurationTarget.Global;
+    }
+
+    /**
+     * Update a setting of the extension
+     * @param key Setting name within the extension's section
+     * @param value New value
+     * @param target Settings to write to; the user settings by default
+     * @returns Promise that resolves when the update is complete
+     */
+    private async updateSetting(
+        key: string,
+        value: unknown,
+        target: vscode.ConfigurationTarget = vscode.ConfigurationTarget.Global
+    ): Promise<void> {
+        const config = vscode.workspace.getConfiguration(SettingsManager.CONFIG_SECTION);
+
+        try {
+            await config.update(key, value, target);
+        } catch (error) {
+            this.logger.error(`Failed to update ${key}: ${error}`);
+            throw error;
+        }
+    }
+
     /**
      * Check if required settings are configured
      * @returns Boolean indicating if extension is ready to use
@@ -41,6 +41,10 @@ const extensionConfig = {
     ]
   },
   devtool: 'nosources-source-map',
+  ignoreWarnings: [
+    // the TypeScript compiler (used for parsing) has a dynamic require that is never hit at runtime
+    { module: /node_modules[\\/]typescript[\\/]lib[\\/]typescript\.js$/ }
+  ],
   infrastructureLogging: {
     level: "log", // enables logging required for problem matchers
   },